@@ -0,0 +1,74 @@
+/**
+ * Post a signed Wise webhook fixture to a locally running server
+ *
+ * Run: node send-wise-webhook.js fixtures/wise-webhooks/transfer-state-change.json [options]
+ *
+ * Options:
+ *   --transfer-id <id>   Wise transfer ID to put in data.resource.id
+ *   --state <state>      Wise state to put in data.current_state
+ *   --occurred-at <iso>  When the event happened (defaults to the fixture's time)
+ *   --delivery-id <id>   X-Delivery-Id header (reuse one to test duplicate deliveries)
+ *
+ * Fixtures are signed with a test key pair in data/ (created on first run). Start the
+ * server with WISE_WEBHOOK_PUBLIC_KEY_FILE=data/wise-webhook-test-key.pub.pem to accept them.
+ * WEBHOOK_URL overrides the target (default http://localhost:8000/webhooks/wise).
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { generateKeyPairSync, randomUUID, sign } from 'node:crypto';
+
+const PRIVATE_KEY_FILE = process.env.WISE_WEBHOOK_TEST_PRIVATE_KEY_FILE || 'data/wise-webhook-test-key.pem';
+const PUBLIC_KEY_FILE = PRIVATE_KEY_FILE.replace(/\.pem$/, '.pub.pem');
+const WEBHOOK_URL = process.env.WEBHOOK_URL || 'http://localhost:8000/webhooks/wise';
+
+function option(name) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function loadPrivateKey() {
+  if (!existsSync(PRIVATE_KEY_FILE)) {
+    const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    mkdirSync(PRIVATE_KEY_FILE.replace(/\/[^/]*$/, ''), { recursive: true });
+    writeFileSync(PRIVATE_KEY_FILE, privateKey.export({ type: 'pkcs8', format: 'pem' }));
+    writeFileSync(PUBLIC_KEY_FILE, publicKey.export({ type: 'spki', format: 'pem' }));
+    console.log(`🔑 Created a test key pair. Start the server with WISE_WEBHOOK_PUBLIC_KEY_FILE=${PUBLIC_KEY_FILE}\n`);
+  }
+  return readFileSync(PRIVATE_KEY_FILE, 'utf8');
+}
+
+async function sendWebhook() {
+  const fixture = process.argv[2];
+  if (!fixture || fixture.startsWith('--')) {
+    console.error('Usage: node send-wise-webhook.js <fixture.json> [--transfer-id <id>] [--state <state>] [--occurred-at <iso>] [--delivery-id <id>]');
+    process.exit(1);
+  }
+
+  const event = JSON.parse(readFileSync(fixture, 'utf8'));
+  if (option('transfer-id')) event.data.resource.id = Number(option('transfer-id'));
+  if (option('state')) event.data.current_state = option('state');
+  if (option('occurred-at')) event.data.occurred_at = option('occurred-at');
+
+  const body = JSON.stringify(event);
+  const signature = sign('sha256', Buffer.from(body), loadPrivateKey()).toString('base64');
+  const deliveryId = option('delivery-id') || randomUUID();
+
+  console.log(`📤 ${event.event_type} → ${WEBHOOK_URL} (delivery ${deliveryId})`);
+  const response = await fetch(WEBHOOK_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Signature-SHA256': signature,
+      'X-Delivery-Id': deliveryId
+    },
+    body
+  });
+
+  console.log(`📥 ${response.status} ${await response.text()}`);
+  if (!response.ok) process.exit(1);
+}
+
+sendWebhook().catch(error => {
+  console.error('❌ Failed to send webhook:', error.message);
+  process.exit(1);
+});
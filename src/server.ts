@@ -1,5 +1,5 @@
 import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
-import { existsSync } from 'node:fs';
+import { existsSync, readFileSync } from 'node:fs';
 import { randomUUID } from 'node:crypto';
 import { config } from 'dotenv';
 
@@ -30,34 +30,121 @@ import {
   type CallToolRequest,
   type ListToolsRequest,
 } from "@modelcontextprotocol/sdk/types.js";
-import { initializeWiseService, getWiseService } from './services/wise.js';
-import { getBankRequirements, validateBankDetails } from './services/recipient-fields.js';
-
-// Real-time exchange rates cache
-let exchangeRatesCache: any = null;
-let lastFetchTime = 0;
-const CACHE_DURATION = 60 * 60 * 1000; // 1 hour
-
-// Transfer storage (in production, use a database)
-const transfers = new Map<string, any>();
-let transferCounter = 1000;
-
-// Recipient storage
-const recipients = new Map<string, any>();
-let recipientCounter = 1;
-
-// Scheduled transfers storage
-const scheduledTransfers = new Map<string, any>();
-let scheduledCounter = 1;
-
-// Transfer limits
-const transferLimits = {
+import { initializeWiseService, getWiseService, type WiseQuoteSummary } from './services/wise.js';
+import {
+  initializeExchangeRateService,
+  getExchangeRateService,
+  wiseRateProvider,
+  exchangeRateApiProvider,
+  snapshotRateProvider,
+  type ExchangeRates
+} from './services/exchange-rates.js';
+import { recordRates, getRateHistory, HISTORY_PERIODS, type RateHistory } from './services/rate-history.js';
+import {
+  initializeRateAlerts,
+  getRateAlerts,
+  webhookNotifier,
+  takeTriggeredAlerts,
+  type AlertDirection
+} from './services/rate-alerts.js';
+import {
+  initializeLimitOrders,
+  getLimitOrders,
+  takeLimitOrderEvents,
+  isOpenOrder,
+  orderEvents,
+  LimitOrderError,
+  type LimitOrderType
+} from './services/limit-orders.js';
+import {
+  bankDetailsFromLegacyFields,
+  bankDetailsSchema,
+  buildWiseRecipientDetails,
+  describeBankAccount,
+  getBankRequirements,
+  initializeRecipientRequirements,
+  knownBankDetailProperties,
+  normalizeBankDetails,
+  validateBankDetails
+} from './services/recipient-fields.js';
+import { initializeStorage, getStorage, type Storage, type StoredRecord } from './services/storage.js';
+import {
+  payoutAccounts,
+  findPayoutAccount,
+  addPayoutAccount,
+  presentRecipient,
+  findRecipientByName,
+  setWiseAccountId,
+  type PayoutAccount
+} from './services/payout-accounts.js';
+import {
+  fingerprintRequest,
+  customerTransactionIdFor,
+  beginIdempotentRequest,
+  runIdempotentRequest
+} from './services/idempotency.js';
+import {
+  FINAL_STATUSES,
+  mapWiseState,
+  describeWiseState,
+  statusHistory,
+  updateTransferStatus,
+  canCancelTransfer,
+  refundForCancellation
+} from './services/transfer-status.js';
+import { initializeWiseWebhookService, getWiseWebhookService, WISE_WEBHOOK_PATH } from './services/wise-webhooks.js';
+import { initializeOAuthService, getOAuthService, type AuthInfo } from './services/oauth.js';
+import {
+  getLimitUsage,
+  checkTransferLimits,
+  serializeForOwner,
+  type TransferLimits,
+  type LimitViolation
+} from './services/limits.js';
+import {
+  initializeScheduler,
+  getScheduler,
+  updateSchedule,
+  recordScheduleEvent,
+  ScheduleRunError
+} from './services/scheduler.js';
+import {
+  RECURRENCE_PATTERNS,
+  ANCHORED_PATTERNS,
+  RecurrenceError,
+  patternRule,
+  parseRRule,
+  nextOccurrence,
+  occurrencesAfter,
+  describeRecurrence,
+  toRRule,
+  parseLocalDate,
+  localTimeOf,
+  formatLocalDate,
+  isValidTimeZone,
+  type RecurrenceRule
+} from './services/recurrence.js';
+
+// Transfer limits (USD); daily and monthly are rolling 24-hour and 30-day windows
+const transferLimits: TransferLimits & { fees: { standard: number; minFee: number; maxFee: number } } = {
   daily: 10000,
   perTransaction: 5000,
   monthlyLimit: 50000,
   fees: { standard: 0.015, minFee: 2.99, maxFee: 50 },
 };
 
+// Currencies senders can fund a transfer from (limits and minimum/maximum fees are set in USD)
+const SOURCE_CURRENCIES = ['USD', 'EUR', 'CAD'];
+
+// Tools that create transfers and accept an idempotency_key
+const MONEY_MOVING_TOOLS = ['send_money', 'quick_send', 'send_again', 'confirm_transfer'];
+
+// How long a demo-mode quote stays valid (real quotes use Wise's expiration time)
+const QUOTE_DURATION = 30 * 60 * 1000; // 30 minutes
+
+// Time zone for schedules created without one (recurrence is computed in local time)
+const DEFAULT_SCHEDULE_TIMEZONE = process.env.SCHEDULE_TIMEZONE || 'UTC';
+
 // MyBambu supported corridors - Powered by Wise API
 // Only includes countries with verified Wise API support
 const SUPPORTED_CORRIDORS = [
@@ -122,37 +209,81 @@ const SUPPORTED_CORRIDORS = [
   { country: "Canada", currency: "CAD", deliveryTime: "Minutes", region: "North America" },
 ];
 
-// Fetch real-time exchange rates
-async function fetchExchangeRates() {
-  const now = Date.now();
+// Current exchange rates: Wise, then the free API, then the bundled snapshot (cached, see exchange-rates.ts)
+async function fetchExchangeRates(): Promise<ExchangeRates> {
+  return getExchangeRateService().getRates();
+}
 
-  if (exchangeRatesCache && (now - lastFetchTime) < CACHE_DURATION) {
-    return exchangeRatesCache;
-  }
+/**
+ * How current the rate between two currencies is: when the older of the two was
+ * published, and whether that's past the stale threshold
+ */
+function rateFreshness(rateData: ExchangeRates, from: string, to: string): { as_of: string; stale: boolean } {
+  const asOf = [from, to].map(c => rateData.as_of[c]).filter(Boolean).sort()[0] ?? rateData.timestamp;
+  return {
+    as_of: asOf,
+    stale: rateData.stale_currencies.includes(from) || rateData.stale_currencies.includes(to)
+  };
+}
 
-  try {
-    const response = await fetch('https://api.exchangerate-api.com/v4/latest/USD');
-    const data: any = await response.json();
+// Shown with any rate that is past the stale threshold
+function staleRateWarning(freshness: { as_of: string; stale: boolean }): string {
+  return freshness.stale
+    ? `\n⚠️ Live rates are unavailable right now - this rate is from ${new Date(freshness.as_of).toLocaleString()} and may be out of date.`
+    : '';
+}
 
-    exchangeRatesCache = {
-      base: 'USD',
-      rates: data.rates,
-      timestamp: new Date(data.date).toISOString(),
-    };
-    lastFetchTime = now;
+// Active rate alerts one user can have at a time
+const MAX_ACTIVE_RATE_ALERTS = 10;
 
-    return exchangeRatesCache;
-  } catch (error) {
-    console.error('Failed to fetch exchange rates:', error);
-    return exchangeRatesCache || {
-      base: 'USD',
-      rates: {
-        MXN: 17.5, GTQ: 7.8, HNL: 24.5, DOP: 58.2,
-        COP: 4100, PEN: 3.7, NIO: 36.5, CRC: 510
-      },
-      timestamp: new Date().toISOString(),
-    };
-  }
+// e.g. "1 USD = 19.0000 MXN or more"
+function describeAlertTarget(alert: Record<string, any>): string {
+  return `1 ${alert.from_currency} = ${alert.target_rate.toFixed(4)} ${alert.to_currency} or ${alert.direction === 'above' ? 'more' : 'less'}`;
+}
+
+// Open limit orders one user can have at a time, and how far ahead a deadline can be
+const MAX_OPEN_LIMIT_ORDERS = 10;
+const MAX_LIMIT_ORDER_DAYS = 90;
+// A target-rate order without a deadline waits this long before it expires
+const DEFAULT_LIMIT_ORDER_DAYS = 30;
+// A best-rate order sends early at a 30-day high, once there are this many days of history to judge by
+const BEST_RATE_MIN_HISTORY_DAYS = 7;
+
+// e.g. "when 1 USD reaches 19.0000 MXN" or "at the best rate by Fri, Oct 24"
+function describeLimitOrder(order: StoredRecord): string {
+  const deadline = new Date(order.deadline).toLocaleDateString(undefined, { timeZone: order.timezone || 'UTC', weekday: 'short', month: 'short', day: 'numeric' });
+  return order.type === 'target'
+    ? `when 1 ${order.from_currency} reaches ${order.target_rate.toFixed(4)} ${order.to_currency} (until ${deadline})`
+    : `at the best rate by ${deadline}`;
+}
+
+/**
+ * Rate from one currency to another. Rates are quoted against USD, so any other
+ * pair is a cross rate through USD. Null when either currency has no rate.
+ */
+function crossRate(rateData: any, from: string, to: string): number | null {
+  const fromRate = from === rateData.base ? 1 : rateData.rates[from];
+  const toRate = to === rateData.base ? 1 : rateData.rates[to];
+  return fromRate && toRate ? toRate / fromRate : null;
+}
+
+/**
+ * The source currency a tool was asked to send from (USD when none is given),
+ * or null when it isn't one senders can fund from
+ */
+function parseSourceCurrency(value: unknown): string | null {
+  const currency = value ? String(value).trim().toUpperCase() : 'USD';
+  return SOURCE_CURRENCIES.includes(currency) ? currency : null;
+}
+
+function unsupportedSourceCurrencyResult(value: unknown) {
+  return {
+    content: [{
+      type: "text",
+      text: `❌ Transfers can't be funded in ${value}. Choose one of: ${SOURCE_CURRENCIES.join(', ')}.`
+    }],
+    isError: true
+  };
 }
 
 // Mock MyBambu API - simulate transfer processing
@@ -170,122 +301,1052 @@ function simulateMyBambuTransfer(transferData: any) {
   };
 }
 
-// Calculate next execution dates for scheduled transfers
-function getNextExecutionDates(frequency: string, startDate: string, count: number): string[] {
-  const dates: string[] = [];
-  let currentDate = new Date(startDate);
-
-  for (let i = 0; i < count; i++) {
-    dates.push(currentDate.toISOString());
-
-    switch (frequency) {
-      case 'weekly':
-        currentDate = new Date(currentDate.getTime() + 7 * 24 * 60 * 60 * 1000);
-        break;
-      case 'bi-weekly':
-        currentDate = new Date(currentDate.getTime() + 14 * 24 * 60 * 60 * 1000);
-        break;
-      case 'monthly':
-        currentDate = new Date(currentDate.setMonth(currentDate.getMonth() + 1));
-        break;
-      case 'quarterly':
-        currentDate = new Date(currentDate.setMonth(currentDate.getMonth() + 3));
-        break;
-    }
+// A schedule's recurrence rule (schedules created before rules existed only have a frequency)
+function scheduleRule(schedule: StoredRecord): RecurrenceRule {
+  return schedule.recurrence || patternRule(schedule.frequency, schedule.start_date || schedule.next_execution, 'UTC');
+}
+
+function scheduleTimezone(schedule: StoredRecord): string {
+  return scheduleRule(schedule).timezone;
+}
+
+// The occurrence of a schedule that follows `after`, or null when its rule or end date rules one out
+function nextScheduleExecution(schedule: StoredRecord, after: string): string | null {
+  return nextOccurrence(scheduleRule(schedule), after, schedule.end_date);
+}
+
+// The schedule's next `count` payment dates, stopping at its end date or maximum number of payments
+function upcomingExecutions(schedule: StoredRecord, count: number): string[] {
+  if (schedule.status !== 'active' && schedule.status !== 'paused') return [];
+  const remaining = schedule.max_occurrences
+    ? Math.min(count, schedule.max_occurrences - (schedule.execution_count || 0))
+    : count;
+  if (remaining <= 0) return [];
+  return [
+    schedule.next_execution,
+    ...occurrencesAfter(scheduleRule(schedule), schedule.next_execution, remaining - 1, schedule.end_date)
+  ].slice(0, remaining);
+}
+
+function formatScheduleDate(iso: string, schedule: StoredRecord): string {
+  return formatLocalDate(iso, scheduleTimezone(schedule));
+}
+
+// An amount in the currency a schedule sends from; by default each payment's amount
+// (the fixed recipient amount, for schedules that have one)
+function formatScheduleAmount(schedule: StoredRecord, amount?: number): string {
+  if (amount === undefined && schedule.recipient_amount) {
+    return `${Number(schedule.recipient_amount).toFixed(2)} ${schedule.currency_to}`;
   }
+  return formatMoney(amount ?? schedule.amount, schedule.currency_from || 'USD');
+}
 
-  return dates;
+/**
+ * Why a scheduled amount can't be sent at all (over the per-transaction limit, which is
+ * in USD), or null. Rolling limits are checked when each payment is sent.
+ */
+function scheduledAmountError(amount: number, currency: string, rateData: any): string | null {
+  const amountUsd = amount / (crossRate(rateData, 'USD', currency) ?? 1);
+  if (amountUsd <= transferLimits.perTransaction) {
+    return null;
+  }
+  const requested = currency === 'USD' ? formatUsd(amount) : `${formatMoney(amount, currency)} (about ${formatUsd(amountUsd)})`;
+  return `${requested} exceeds the per-transaction limit of ${formatUsd(transferLimits.perTransaction)}. Please choose a smaller amount.`;
 }
 
-// Component resources - these are the interactive widgets
-function getTransferReceiptComponent(): string {
-  return `<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <style>
-    @import url('https://fonts.googleapis.com/css2?family=Nunito:wght@400;600;700;800&display=swap');
-    * { margin: 0; padding: 0; box-sizing: border-box; }
-    body {
-      font-family: 'Nunito', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-      padding: 20px;
-      background: linear-gradient(135deg, #1863DC 0%, #296BFF 100%);
-      min-height: 100vh;
-      color: #0D1752;
+// A schedule as returned by tools, with its rule described and upcoming dates worked out
+function presentSchedule(schedule: StoredRecord): StoredRecord {
+  const rule = scheduleRule(schedule);
+  return {
+    ...schedule,
+    recurrence_description: describeRecurrence(rule),
+    rrule: toRRule(rule),
+    timezone: rule.timezone,
+    upcoming_executions: upcomingExecutions(schedule, 3)
+  };
+}
+
+// Schedules the user still manages (cancelled and finished ones drop off the list)
+async function listVisibleSchedules(storage: Storage) {
+  return (await storage.scheduledTransfers.list())
+    .filter(s => s.status === 'active' || s.status === 'paused')
+    .sort((a, b) => new Date(a.next_execution).getTime() - new Date(b.next_execution).getTime())
+    .map(presentSchedule);
+}
+
+/**
+ * Response for a tool that changed one schedule: the schedule plus the refreshed list for the widget
+ */
+async function scheduleChangeResult(storage: Storage, schedule: StoredRecord, text: string) {
+  const schedules = await listVisibleSchedules(storage);
+  return {
+    content: [{ type: "text", text }],
+    structuredContent: {
+      schedule: presentSchedule(schedule),
+      schedules,
+      total: schedules.length
+    },
+    _meta: {
+      "openai/outputTemplate": "component://scheduled-transfers",
+      scheduleId: schedule.id
     }
-    .receipt {
-      background: white;
-      border-radius: 24px;
-      padding: 32px;
-      max-width: 520px;
-      margin: 0 auto;
-      box-shadow: 0 24px 72px rgba(24, 99, 220, 0.15);
-      animation: slideUp 0.5s cubic-bezier(0.4, 0, 0.2, 1);
+  };
+}
+
+/**
+ * MyBambu fee on the amount sent, in the currency it's sent from. `usdRate` is
+ * that currency's rate against USD, which the minimum and maximum fees are set in.
+ */
+function calculateFee(amount: number, usdRate: number = 1): number {
+  const roundCents = (value: number) => Math.round(value * 100) / 100;
+  return Math.max(
+    roundCents(transferLimits.fees.minFee * usdRate),
+    Math.min(amount * transferLimits.fees.standard, roundCents(transferLimits.fees.maxFee * usdRate))
+  );
+}
+
+/**
+ * The amount to charge so that `net` is left after the MyBambu fee - calculateFee
+ * in reverse. Rounded up to the cent, so the net amount is never short.
+ */
+function amountForNet(net: number, usdRate: number = 1): number {
+  const minFee = Math.round(transferLimits.fees.minFee * usdRate * 100) / 100;
+  const maxFee = Math.round(transferLimits.fees.maxFee * usdRate * 100) / 100;
+  const fee = Math.max(minFee, Math.min(net / (1 - transferLimits.fees.standard) - net, maxFee));
+  return Math.ceil((net + fee) * 100 - 1e-6) / 100;
+}
+
+// The fee schedule as shown to users, in the currency sent from
+function describeFees(currency: string, usdRate: number = 1): string {
+  const { standard, minFee, maxFee } = transferLimits.fees;
+  return `${Number((standard * 100).toFixed(2))}% of the amount sent ` +
+    `(min ${formatMoney(minFee * usdRate, currency)}, max ${formatMoney(maxFee * usdRate, currency)})`;
+}
+
+type Corridor = typeof SUPPORTED_CORRIDORS[number];
+
+const formatUsd = (value: number) =>
+  `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// An amount in a source currency, e.g. $1,250.00 or €80.00
+const formatMoney = (value: number, currency: string) => currency === 'USD'
+  ? formatUsd(value)
+  : value.toLocaleString('en-US', { style: 'currency', currency });
+
+/**
+ * Tool error for a transfer that would break a limit, saying how much can still be sent.
+ * Limits are in USD; `sentAs` is the amount as requested when it was in another currency.
+ */
+function limitExceededResult(violation: LimitViolation, amount: number, sentAs?: string) {
+  const { usage, available } = violation;
+  const requested = sentAs ? `${sentAs} (about ${formatUsd(amount)})` : formatUsd(amount);
+  let text: string;
+
+  if (violation.limit === 'per_transaction') {
+    text = `❌ ${requested} exceeds the per-transaction limit of ${formatUsd(violation.max)}. Please split into multiple transfers or contact support.`;
+  } else {
+    const window = violation.limit === 'daily' ? usage.daily : usage.monthly;
+    const period = violation.limit === 'daily' ? 'last 24 hours' : 'last 30 days';
+    text = `❌ This ${requested} transfer would exceed your ${violation.limit} limit of ${formatUsd(violation.max)}. ` +
+      `You've sent ${formatUsd(window.used)} in the ${period}, so you can send up to ${formatUsd(available)} right now.`;
+    if (window.next_release_at) {
+      text += ` More becomes available from ${new Date(window.next_release_at).toLocaleString('en-US', { timeZone: 'UTC' })} UTC.`;
     }
-    @keyframes slideUp {
-      from { opacity: 0; transform: translateY(30px); }
-      to { opacity: 1; transform: translateY(0); }
+  }
+
+  return {
+    content: [{ type: "text", text }],
+    structuredContent: {
+      limit_exceeded: violation.limit,
+      requested_amount: amount,
+      available,
+      limits: usage
+    },
+    isError: true
+  };
+}
+
+/**
+ * Check a transfer amount against the owner's limits.
+ * Returns a tool error result when it's over a limit, or null when it can go ahead.
+ */
+async function enforceTransferLimits(storage: Storage, amount: number, sentAs?: string) {
+  const violation = await checkTransferLimits(storage, transferLimits, amount);
+  return violation ? limitExceededResult(violation, amount, sentAs) : null;
+}
+
+/**
+ * What the sender pays (fee included) for the recipient to get exactly
+ * `recipientAmount`: priced by a target-amount Wise quote in real mode, at
+ * today's rate otherwise. Returns a tool error result when Wise can't quote it.
+ */
+async function priceRecipientAmount(
+  fromCurrency: string,
+  targetCurrency: string,
+  recipientAmount: number,
+  rate: number,
+  usdRate: number
+): Promise<{ amount: number; fee: number; wiseQuote?: WiseQuoteSummary } | { content: { type: "text"; text: string }[]; isError: true }> {
+  let net = recipientAmount / rate;
+  let wiseQuote: WiseQuoteSummary | undefined;
+
+  if (useRealAPI) {
+    try {
+      const wiseService = getWiseService();
+      wiseQuote = wiseService.summarizeQuote(await wiseService.createQuote({
+        sourceCurrency: fromCurrency,
+        targetCurrency,
+        targetAmount: recipientAmount
+      }));
+      net = wiseQuote.sourceAmount;
+    } catch (error: any) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ Couldn't get a quote for ${recipientAmount.toFixed(2)} ${targetCurrency} from our payment partner right now: ${error.message}. Please try again in a moment.`
+        }],
+        isError: true
+      };
     }
-    .header {
-      text-align: center;
-      padding-bottom: 24px;
-      border-bottom: 2px solid #f4f4f4;
+  }
+
+  const amount = amountForNet(net, usdRate);
+  return { amount, fee: calculateFee(amount, usdRate), wiseQuote };
+}
+
+/**
+ * Parse and validate the arguments shared by send_money and create_transfer_quote.
+ * Returns a tool error result, or the validated transfer details with the current rate.
+ */
+async function prepareTransfer(storage: Storage, rawArgs: any, toolName: string) {
+  // A saved recipient, picked by ID or by an exact name (and country) match
+  let savedRecipient: StoredRecord | null = null;
+  if (rawArgs.recipient_id) {
+    savedRecipient = await storage.recipients.get(rawArgs.recipient_id);
+    if (!savedRecipient) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ Recipient not found: ${rawArgs.recipient_id}. Use "list recipients" to see all saved recipients.`
+        }],
+        isError: true
+      };
     }
-    .mybambu-logo {
-      font-size: 28px;
-      font-weight: 800;
-      color: #1863DC;
-      margin-bottom: 12px;
-      letter-spacing: -0.5px;
+  } else if (rawArgs.recipient_name && !rawArgs.bank_details && !rawArgs.recipient_data) {
+    savedRecipient = findRecipientByName(await storage.recipients.list(), rawArgs.recipient_name, rawArgs.to_country || rawArgs.recipient_country);
+  }
+
+  const payoutAccount = savedRecipient ? findPayoutAccount(savedRecipient, rawArgs.account_id) : null;
+  if (rawArgs.account_id && !payoutAccount) {
+    return {
+      content: [{
+        type: "text",
+        text: `❌ ${savedRecipient ? `${savedRecipient.name} has no payout account ${rawArgs.account_id}` : 'account_id needs a recipient_id'}. Use "list recipients" to see their accounts.`
+      }],
+      isError: true
+    };
+  }
+
+  // Accept both parameter naming conventions
+  const to_country = rawArgs.to_country || rawArgs.recipient_country || savedRecipient?.country;
+  const recipient_name = rawArgs.recipient_name || savedRecipient?.name;
+  // "Recipient gets exactly X": the amount to send is worked out from it
+  const targetAmount: number | undefined = rawArgs.recipient_amount ?? undefined;
+
+  // Validation - Check required parameters
+  if (!to_country || !recipient_name) {
+    return {
+      content: [{
+        type: "text",
+        text: "❌ Please provide the destination country and recipient name. Example: Send $100 to Maria in Colombia"
+      }],
+      isError: true
+    };
+  }
+
+  if (rawArgs.amount !== undefined && targetAmount !== undefined) {
+    return {
+      content: [{
+        type: "text",
+        text: "❌ Give either amount (what you send) or recipient_amount (what they receive), not both"
+      }],
+      isError: true
+    };
+  }
+
+  if (targetAmount !== undefined ? !(targetAmount > 0) : (!rawArgs.amount || rawArgs.amount <= 0)) {
+    return {
+      content: [{
+        type: "text",
+        text: "❌ Amount must be greater than $0"
+      }],
+      isError: true
+    };
+  }
+
+  const fromCurrency = parseSourceCurrency(rawArgs.from_currency);
+  if (!fromCurrency) {
+    return unsupportedSourceCurrencyResult(rawArgs.from_currency);
+  }
+
+  // Limits are in USD, so other source currencies are converted at today's rate
+  const rateData = await fetchExchangeRates();
+  const usdRate = crossRate(rateData, 'USD', fromCurrency);
+  if (!usdRate) {
+    return {
+      content: [{
+        type: "text",
+        text: `❌ Exchange rate not available for ${fromCurrency}`,
+      }],
+      isError: true
+    };
+  }
+
+  // Find country info
+  const corridor = SUPPORTED_CORRIDORS.find(c =>
+    c.country.toLowerCase() === to_country.toLowerCase()
+  );
+
+  if (!corridor) {
+    return {
+      content: [{
+        type: "text",
+        text: `❌ Sorry, we don't support transfers to ${to_country} yet. Supported countries: ${SUPPORTED_CORRIDORS.map(c => c.country).join(', ')}`,
+      }],
+      isError: true
+    };
+  }
+
+  if (payoutAccount && payoutAccount.currency !== corridor.currency) {
+    return {
+      content: [{
+        type: "text",
+        text: `❌ ${savedRecipient!.name}'s ${payoutAccount.summary} account is in ${payoutAccount.currency}, but transfers to ${corridor.country} pay out in ${corridor.currency}.`
+      }],
+      isError: true
+    };
+  }
+
+  // Get exchange rate
+  const rate = crossRate(rateData, fromCurrency, corridor.currency);
+
+  if (!rate) {
+    return {
+      content: [{
+        type: "text",
+        text: `❌ Exchange rate not available for ${corridor.currency}`,
+      }],
+      isError: true
+    };
+  }
+
+  let amount: number = rawArgs.amount;
+  let wiseQuote: WiseQuoteSummary | undefined;
+  if (targetAmount !== undefined) {
+    const priced = await priceRecipientAmount(fromCurrency, corridor.currency, targetAmount, rate, usdRate);
+    if ('isError' in priced) {
+      return priced;
     }
-    .status {
-      display: inline-block;
-      padding: 10px 20px;
-      border-radius: 24px;
-      font-size: 12px;
-      font-weight: 700;
-      margin-top: 16px;
-      text-transform: uppercase;
-      letter-spacing: 0.8px;
+    ({ amount, wiseQuote } = priced);
+  }
+
+  const amountUsd = amount / usdRate;
+  const limitError = await enforceTransferLimits(storage, amountUsd, fromCurrency === 'USD' ? undefined : formatMoney(amount, fromCurrency));
+  if (limitError) {
+    return limitError;
+  }
+
+  // Named bank_details take precedence over the legacy field1..field9 shim, and
+  // anything passed explicitly over a saved account's details
+  let bank_details: any = {
+    ...(payoutAccount?.bank_details || {}),
+    ...(rawArgs.recipient_data ? bankDetailsFromLegacyFields(corridor.currency, rawArgs.recipient_data) : {}),
+    ...(rawArgs.bank_details || {})
+  };
+
+  // Check bank details for real API mode
+  let recipient: { type: string; details: Record<string, any> } | undefined;
+  if (useRealAPI) {
+    const requirements = await getBankRequirements(corridor.currency, corridor.country, amount, bank_details, fromCurrency);
+
+    if (!requirements) {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ Couldn't load the bank details needed for ${corridor.country} (${corridor.currency}) transfers right now. Please try again in a few minutes.`
+        }],
+        isError: true
+      };
     }
-    .status-pending { background: #FFF3CD; color: #856404; }
-    .status-processing { background: #D1E7FE; color: #1863DC; }
-    .status-completed { background: #D1F4E0; color: #17CA60; }
-    .amount-section {
-      text-align: center;
-      padding: 40px 0;
-      background: linear-gradient(135deg, rgba(24, 99, 220, 0.08) 0%, rgba(23, 202, 96, 0.08) 100%);
-      border-radius: 20px;
-      margin: 24px 0;
-      position: relative;
-      overflow: hidden;
+
+    const validation = validateBankDetails(requirements, bank_details);
+
+    if (!validation.valid) {
+      const invalid = validation.invalidFields.length > 0
+        ? `⚠️ Please check: ${validation.invalidFields.map(f => `${f.field} ${f.message}`).join('; ')}\n\n`
+        : '';
+      // Tell user what bank details are needed
+      return {
+        content: [{
+          type: "text",
+          text: `📝 To complete this ${formatMoney(amount, fromCurrency)} transfer to ${recipient_name} in ${corridor.country}, I need their bank details:\n\n${invalid}${requirements.instructions}\n\n**Required fields:**\n${requirements.fields.filter(f => f.required).map(f => `• **${f.label}** (\`${f.name}\`): ${f.description}${f.example ? `\n  Example: ${f.example}` : ''}`).join('\n\n')}\n\n**Once you provide these details, I'll immediately process the transfer.**\n\n⚠️ IMPORTANT: After receiving the bank details, you MUST call the ${toolName} tool again with the bank_details parameter. Example:\n\`\`\`json\n{\n  "amount": ${amount},\n${fromCurrency === 'USD' ? '' : `  "from_currency": "${fromCurrency}",\n`}  "to_country": "${corridor.country}",\n  "recipient_name": "${recipient_name}",\n  "bank_details": ${JSON.stringify(requirements.fields.reduce((acc, f) => ({ ...acc, [f.name]: f.example }), {}), null, 2)}\n}\n\`\`\``
+        }],
+        isError: true
+      };
     }
-    .amount-section::before {
-      content: '';
-      position: absolute;
-      top: -50%;
-      right: -50%;
-      width: 200%;
-      height: 200%;
-      background: radial-gradient(circle, rgba(23, 202, 96, 0.1) 0%, transparent 70%);
-      animation: pulse 3s ease-in-out infinite;
+
+    bank_details = normalizeBankDetails(requirements, bank_details);
+
+    // Wise-sourced requirements say exactly which recipient type and fields to send
+    if (requirements.source === 'wise') {
+      recipient = { type: requirements.accountType, details: buildWiseRecipientDetails(requirements, bank_details) };
     }
-    @keyframes pulse {
-      0%, 100% { transform: scale(1); opacity: 0.5; }
-      50% { transform: scale(1.1); opacity: 0.8; }
+  }
+
+  return {
+    amount,
+    // Set for target-amount transfers: exactly what the recipient gets, and the Wise quote that guarantees it
+    recipientAmount: targetAmount,
+    wiseQuote,
+    fromCurrency,
+    amountUsd,
+    // The source currency's rate against USD, for fees set in USD
+    usdRate,
+    corridor,
+    recipientName: recipient_name as string,
+    bankDetails: bank_details,
+    recipient,
+    rate: rate as number,
+    savedRecipient,
+    savedAccount: savedRecipient && payoutAccount ? { recipientId: savedRecipient.id, account: payoutAccount } : undefined,
+    // Links the transfer back to the saved recipient and account it went to
+    recordFields: savedRecipient
+      ? { recipient_id: savedRecipient.id, ...(payoutAccount ? { payout_account_id: payoutAccount.id } : {}) }
+      : {}
+  };
+}
+
+// Requirements can vary with the amount; saved accounts and forms without an
+// amount use a typical transfer, and every send checks again for its own amount
+const TYPICAL_TRANSFER_AMOUNT = 100;
+
+/**
+ * Validate bank details for a saved recipient's payout account.
+ * Returns a tool error result, or the account to store.
+ */
+async function preparePayoutAccount(
+  storage: Storage,
+  corridor: Corridor,
+  bankDetails: Record<string, any>,
+  label?: string
+): Promise<PayoutAccount | { content: { type: string; text: string }[]; isError: true }> {
+  const requirements = await getBankRequirements(corridor.currency, corridor.country, TYPICAL_TRANSFER_AMOUNT, bankDetails);
+  let details = bankDetails;
+
+  // Corridors without known requirements (demo mode) are stored as given
+  if (requirements) {
+    const validation = validateBankDetails(requirements, bankDetails);
+    if (!validation.valid) {
+      const problems = [
+        ...validation.missingFields.map(field => `${field} is required`),
+        ...validation.invalidFields.map(f => `${f.field} ${f.message}`)
+      ];
+      return {
+        content: [{
+          type: "text",
+          text: `❌ Those bank details don't look right for ${corridor.country}:\n\n${problems.map(p => `• ${p}`).join('\n')}\n\n` +
+            `**Fields for ${corridor.country}:**\n${requirements.fields.map(f => `• **${f.label}** (\`${f.name}\`)${f.required ? '' : ' - optional'}: ${f.description}`).join('\n')}`
+        }],
+        isError: true
+      };
     }
-    .amount {
-      font-size: 56px;
-      font-weight: 800;
-      color: #1863DC;
-      line-height: 1;
-      position: relative;
-      z-index: 1;
+    details = normalizeBankDetails(requirements, bankDetails);
+  }
+
+  return {
+    id: `ACC-${await storage.nextId('payout_account')}`,
+    label: label || null,
+    currency: corridor.currency,
+    account_type: requirements?.accountType ?? null,
+    bank_details: details,
+    summary: describeBankAccount(requirements, details),
+    created_at: new Date().toISOString()
+  };
+}
+
+// Saved recipients as the recipient widget shows them, newest first
+async function recipientList(storage: Storage) {
+  const recipients = (await storage.recipients.list())
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  return { recipients: recipients.map(presentRecipient), total: recipients.length };
+}
+
+/**
+ * Store the Wise account a saved payout account was paid to. Best effort: the
+ * transfer has gone through, and a lost ID only costs a lookup next time.
+ */
+async function rememberWiseAccount(storage: Storage, recipientId: string, accountId: string, wiseAccountId: number) {
+  try {
+    const recipient = await storage.recipients.get(recipientId);
+    if (recipient && setWiseAccountId(recipient, accountId, wiseAccountId)) {
+      await storage.recipients.save(recipient);
     }
-    .currency {
-      font-size: 20px;
-      color: #17CA60;
+  } catch (error: any) {
+    console.error(`⚠️  Couldn't remember Wise account ${wiseAccountId} for ${recipientId}:`, error.message);
+  }
+}
+
+interface TransferExecution {
+  // Amount and fee are in the source currency
+  amount: number;
+  fee: number;
+  fromCurrency: string;
+  // The amount in USD at today's rate, which transfer limits count
+  amountUsd: number;
+  corridor: Corridor;
+  recipientName: string;
+  bankDetails: Record<string, any>;
+  // Wise recipient built from account requirements (real mode); otherwise derived from bankDetails
+  recipient?: { type: string; details: Record<string, any> };
+  // The saved payout account being paid, whose Wise account is reused
+  savedAccount?: { recipientId: string; account: PayoutAccount };
+  // Rate for simulated transfers (and the fallback shown if Wise omits one)
+  rate: number;
+  customerTransactionId?: string;
+  // A Wise quote the user already reviewed and accepted
+  wiseQuote?: WiseQuoteSummary;
+  // What the recipient gets, when the transfer was priced from it
+  recipientAmount?: number;
+  // Extra fields stored on the transfer record (e.g. the schedule run that created it)
+  recordFields?: Record<string, unknown>;
+}
+
+/**
+ * Create and store a transfer - through Wise in real mode, simulated otherwise.
+ * Every tool that moves money goes through here.
+ */
+async function executeTransfer(storage: Storage, execution: TransferExecution) {
+  const { amount, fee: feeAmount, fromCurrency, corridor, recipientName: recipient_name, bankDetails: bank_details, rate } = execution;
+  const amountUsd = Math.round(execution.amountUsd * 100) / 100;
+  const netAmount = amount - feeAmount;
+  const recipientAmount = execution.recipientAmount ?? netAmount * rate;
+  const transferId = `TXN-${await storage.nextId('transfer')}`;
+
+  let mybambuResponse;
+  let transfer: StoredRecord;
+
+  // Use REAL Wise API if configured, otherwise simulate
+  if (useRealAPI) {
+    try {
+      console.log(`💸 Processing REAL transfer via Wise API...`);
+      const wiseService = getWiseService();
+
+      // Prepare bank account details based on currency
+      let recipientBankAccount = '';
+      let recipientBankCode = '';
+      let extraFields: any = {};
+
+      // Extract the right fields based on currency
+      switch (corridor.currency) {
+        case 'MXN':
+          recipientBankAccount = bank_details.clabe || '';
+          break;
+        case 'GBP':
+          recipientBankAccount = bank_details.accountNumber || '';
+          recipientBankCode = bank_details.sortCode || '';
+          break;
+        case 'BRL':
+          recipientBankAccount = bank_details.accountNumber || '';
+          recipientBankCode = bank_details.cpf || '';
+          extraFields = {
+            accountType: bank_details.accountType,
+            bankCode: bank_details.bankCode
+          };
+          break;
+        case 'EUR':
+          recipientBankAccount = bank_details.iban || '';
+          break;
+        case 'COP':
+          recipientBankAccount = bank_details.accountNumber || '';
+          extraFields = {
+            accountType: bank_details.accountType || 'SAVINGS',
+            bankCode: bank_details.bankCode,
+            phoneNumber: bank_details.phoneNumber,
+            idDocumentNumber: bank_details.idDocumentNumber,
+            address: bank_details.address,
+            city: bank_details.city,
+            postCode: bank_details.postCode
+          };
+          break;
+        default:
+          recipientBankAccount = bank_details.accountNumber || '';
+          recipientBankCode = bank_details.bankCode || '';
+      }
+
+      const wiseResult = await wiseService.sendMoney({
+        amount: netAmount, // Send net amount (after fees)
+        sourceCurrency: fromCurrency,
+        recipientName: recipient_name,
+        recipientCountry: corridor.country,
+        recipientBankAccount,
+        recipientBankCode,
+        targetCurrency: corridor.currency,
+        reference: `MyBambu transfer to ${recipient_name}`,
+        customerTransactionId: execution.customerTransactionId,
+        quote: execution.wiseQuote,
+        recipient: execution.recipient,
+        recipientAccountId: execution.savedAccount?.account.wise_account_id ?? undefined,
+        ...extraFields
+      });
+
+      // Create transfer record with REAL Wise data
+      transfer = {
+        id: transferId,
+        wise_transfer_id: wiseResult.transferId,
+        mybambu_id: `WISE-${wiseResult.transferId}`,
+        from_currency: fromCurrency,
+        to_currency: corridor.currency,
+        amount,
+        amount_usd: amountUsd,
+        fee: feeAmount,
+        net_amount: netAmount,
+        exchange_rate: wiseResult.rate,
+        recipient_amount: wiseResult.targetAmount,
+        recipient_name,
+        recipient_country: corridor.country,
+        delivery_time: corridor.deliveryTime,
+        status: mapWiseState(wiseResult.status),
+        wise_state: wiseResult.status,
+        estimated_arrival: wiseResult.estimatedDelivery || new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString(),
+        created_at: new Date().toISOString(),
+        is_real_transfer: true,
+        // Created but not paid for: it waits at Wise until funded or cancelled
+        ...(wiseResult.fundingError ? { funding_error: wiseResult.fundingError } : {})
+      };
+
+      mybambuResponse = {
+        success: true,
+        mybambuTransferId: transfer.mybambu_id,
+        status: transfer.status,
+        estimatedDelivery: transfer.estimated_arrival,
+        message: wiseResult.fundingError
+          ? `Transfer created via Wise API but not funded: ${wiseResult.fundingError}`
+          : 'Real transfer processed via Wise API'
+      };
+
+      console.log(`✅ REAL transfer created: ${wiseResult.transferId}`);
+
+      if (execution.savedAccount && wiseResult.recipientAccountId !== execution.savedAccount.account.wise_account_id) {
+        await rememberWiseAccount(storage, execution.savedAccount.recipientId, execution.savedAccount.account.id, wiseResult.recipientAccountId);
+      }
+    } catch (error: any) {
+      console.error(`❌ Wise API error:`, error.message);
+      if (strictMode) {
+        // Record the attempt as failed - nothing was sent, and nothing is pretended to be
+        transfer = {
+          id: transferId,
+          from_currency: fromCurrency,
+          to_currency: corridor.currency,
+          amount,
+          amount_usd: amountUsd,
+          fee: feeAmount,
+          net_amount: netAmount,
+          exchange_rate: rate,
+          recipient_amount: recipientAmount,
+          recipient_name,
+          recipient_country: corridor.country,
+          delivery_time: corridor.deliveryTime,
+          status: 'failed',
+          failure_reason: error.message,
+          created_at: new Date().toISOString(),
+          is_real_transfer: true
+        };
+        mybambuResponse = {
+          success: false,
+          status: 'failed',
+          message: `Wise API failed: ${error.message}`
+        };
+      } else {
+        // Fall back to simulation if Wise API fails
+        mybambuResponse = simulateMyBambuTransfer({
+          amount,
+          to_country: corridor.country,
+          recipient_name,
+          currency: corridor.currency
+        });
+
+        transfer = {
+          id: transferId,
+          mybambu_id: mybambuResponse.mybambuTransferId,
+          from_currency: fromCurrency,
+          to_currency: corridor.currency,
+          amount,
+          amount_usd: amountUsd,
+          fee: feeAmount,
+          net_amount: netAmount,
+          exchange_rate: rate,
+          recipient_amount: recipientAmount,
+          recipient_name,
+          recipient_country: corridor.country,
+          delivery_time: corridor.deliveryTime,
+          status: mybambuResponse.status,
+          estimated_arrival: mybambuResponse.estimatedDelivery,
+          created_at: new Date().toISOString(),
+          is_real_transfer: false,
+          error_note: `Wise API failed: ${error.message}. Using simulation.`
+        };
+      }
+    }
+  } else {
+    // DEMO MODE: Simulate transfer
+    console.log(`🎭 Processing DEMO transfer (simulated)...`);
+    mybambuResponse = simulateMyBambuTransfer({
+      amount,
+      to_country: corridor.country,
+      recipient_name,
+      currency: corridor.currency
+    });
+
+    transfer = {
+      id: transferId,
+      mybambu_id: mybambuResponse.mybambuTransferId,
+      from_currency: fromCurrency,
+      to_currency: corridor.currency,
+      amount,
+      amount_usd: amountUsd,
+      fee: feeAmount,
+      net_amount: netAmount,
+      exchange_rate: rate,
+      recipient_amount: recipientAmount,
+      recipient_name,
+      recipient_country: corridor.country,
+      delivery_time: corridor.deliveryTime,
+      status: mybambuResponse.status,
+      estimated_arrival: mybambuResponse.estimatedDelivery,
+      created_at: new Date().toISOString(),
+      is_real_transfer: false
+    };
+  }
+
+  // The first entry of the transfer's timeline is the status it was created in
+  transfer.status_history = [{
+    status: transfer.status,
+    ...(transfer.wise_state ? { wise_state: transfer.wise_state } : {}),
+    at: transfer.created_at,
+    source: transfer.is_real_transfer ? 'wise' : 'simulation'
+  }];
+  Object.assign(transfer, execution.recordFields);
+  await storage.transfers.save(transfer);
+  if (transfer.wise_transfer_id) {
+    // Lets Wise webhooks find the transfer
+    await storage.wiseTransfers.save({
+      id: String(transfer.wise_transfer_id),
+      created_at: transfer.created_at,
+      transfer_id: transfer.id
+    });
+  }
+  return { transfer, mybambuResponse };
+}
+
+/**
+ * Send one occurrence of a scheduled transfer for the scheduler, through the same
+ * validation, limits and transfer path as send_money
+ */
+async function executeScheduledTransfer(storage: Storage, schedule: StoredRecord, runId: string) {
+  const ownerId = storage.ownerId!;
+
+  return serializeForOwner(ownerId, async () => {
+    const prepared = await prepareTransfer(storage, {
+      // A schedule with a fixed recipient amount sends whatever that costs at today's rate
+      ...(schedule.recipient_amount ? { recipient_amount: schedule.recipient_amount } : { amount: schedule.amount }),
+      to_country: schedule.recipient_country,
+      recipient_name: schedule.recipient_name,
+      recipient_data: schedule.recipient_data,
+      from_currency: schedule.currency_from
+    }, 'schedule_transfer');
+    if ('isError' in prepared) {
+      throw new ScheduleRunError(String(prepared.content?.[0]?.text ?? 'Transfer details are invalid').split('\n')[0].replace(/^❌ /, ''));
+    }
+
+    const { transfer } = await executeTransfer(storage, {
+      amount: prepared.amount,
+      fee: calculateFee(prepared.amount, prepared.usdRate),
+      fromCurrency: prepared.fromCurrency,
+      amountUsd: prepared.amountUsd,
+      corridor: prepared.corridor,
+      recipientName: prepared.recipientName,
+      bankDetails: prepared.bankDetails,
+      recipient: prepared.recipient,
+      savedAccount: prepared.savedAccount,
+      rate: prepared.rate,
+      // Stable per run, so Wise rejects a resend of the same occurrence
+      customerTransactionId: customerTransactionIdFor(ownerId, runId),
+      wiseQuote: prepared.wiseQuote,
+      recipientAmount: prepared.recipientAmount,
+      recordFields: { schedule_id: schedule.id, schedule_run_id: runId }
+    });
+    if (isFailedTransfer(transfer)) {
+      throw new ScheduleRunError(`Wise rejected the transfer: ${transfer.failure_reason}`);
+    }
+    return transfer;
+  });
+}
+
+/**
+ * Send a limit order's transfer through the normal transfer path.
+ * A target order in real mode only goes ahead if Wise's quote still makes the target.
+ */
+async function executeLimitOrder(storage: Storage, order: StoredRecord): Promise<StoredRecord | null> {
+  const ownerId = storage.ownerId!;
+
+  return serializeForOwner(ownerId, async () => {
+    const prepared = await prepareTransfer(storage, {
+      amount: order.amount,
+      recipient_id: order.recipient_id ?? undefined,
+      account_id: order.account_id ?? undefined,
+      to_country: order.recipient_country,
+      recipient_name: order.recipient_name,
+      from_currency: order.from_currency
+    }, 'create_limit_order');
+    if ('isError' in prepared) {
+      throw new LimitOrderError(String(prepared.content?.[0]?.text ?? 'Transfer details are invalid').split('\n')[0].replace(/^(❌|📝) /, '').replace(/:$/, ''));
+    }
+
+    const fee = calculateFee(prepared.amount, prepared.usdRate);
+    let wiseQuote = prepared.wiseQuote;
+    if (useRealAPI && order.type === 'target') {
+      try {
+        const wiseService = getWiseService();
+        wiseQuote = wiseService.summarizeQuote(await wiseService.createQuote({
+          sourceCurrency: prepared.fromCurrency,
+          targetCurrency: prepared.corridor.currency,
+          sourceAmount: prepared.amount - fee
+        }));
+      } catch (error: any) {
+        throw new LimitOrderError(`Couldn't get a quote from Wise: ${error.message}`);
+      }
+      if (wiseQuote.rate < order.target_rate) {
+        return null;
+      }
+    }
+
+    const { transfer } = await executeTransfer(storage, {
+      amount: prepared.amount,
+      fee,
+      fromCurrency: prepared.fromCurrency,
+      amountUsd: prepared.amountUsd,
+      corridor: prepared.corridor,
+      recipientName: prepared.recipientName,
+      bankDetails: prepared.bankDetails,
+      recipient: prepared.recipient,
+      savedAccount: prepared.savedAccount,
+      rate: prepared.rate,
+      // Stable per order, so Wise rejects a second transfer for the same order
+      customerTransactionId: customerTransactionIdFor(ownerId, order.id),
+      wiseQuote,
+      recipientAmount: prepared.recipientAmount,
+      recordFields: { limit_order_id: order.id }
+    });
+    if (isFailedTransfer(transfer)) {
+      throw new LimitOrderError(`Wise rejected the transfer: ${transfer.failure_reason}`);
+    }
+    return transfer;
+  });
+}
+
+// A quote as shown to ChatGPT and the widget (bank details and Wise internals stay server-side)
+function publicQuote(quote: any) {
+  const { bank_details, wise_quote, wise_recipient, owner_id, ...visible } = quote;
+  return visible;
+}
+
+// A transfer as shown to ChatGPT and the widget, with whether it can still be cancelled
+function presentTransfer(transfer: StoredRecord): StoredRecord {
+  return { ...transfer, cancellable: canCancelTransfer(transfer) };
+}
+
+// Wise refused a transfer in strict mode: it's recorded as failed, and reported as an error
+function isFailedTransfer(transfer: StoredRecord): boolean {
+  return transfer.status === 'failed' && Boolean(transfer.failure_reason);
+}
+
+function failedTransferResult(transfer: StoredRecord) {
+  return {
+    content: [{
+      type: "text",
+      text: `❌ Transfer failed: ${transfer.failure_reason}\nNo money was sent to ${transfer.recipient_name}. The attempt is recorded as ${transfer.id}.`
+    }],
+    structuredContent: presentTransfer(transfer),
+    _meta: {
+      "openai/outputTemplate": "component://transfer-receipt"
+    },
+    isError: true
+  };
+}
+
+// Shown after a send whose Wise transfer was created but couldn't be paid for
+function fundingNote(transfer: StoredRecord): string {
+  return transfer.funding_error
+    ? `\n⚠️ Wise couldn't fund it (${transfer.funding_error}), so it is waiting for payment. Cancel it if it shouldn't go ahead.`
+    : '';
+}
+
+/**
+ * Ask Wise where a real transfer is now and record it on the transfer's timeline.
+ * Returns the transfer as stored afterwards; throws when Wise can't be reached.
+ */
+async function refreshWiseStatus(storage: Storage, transfer: StoredRecord): Promise<StoredRecord> {
+  const wiseTransfer = await getWiseService().getTransferStatus(transfer.wise_transfer_id);
+  const updated = await updateTransferStatus(storage, transfer.id, {
+    status: mapWiseState(wiseTransfer.status),
+    wise_state: wiseTransfer.status,
+    at: new Date().toISOString(),
+    source: 'wise'
+  });
+  return updated.transfer ?? transfer;
+}
+
+// Component resources - these are the interactive widgets
+function getTransferReceiptComponent(): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    @import url('https://fonts.googleapis.com/css2?family=Nunito:wght@400;600;700;800&display=swap');
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: 'Nunito', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      padding: 20px;
+      background: linear-gradient(135deg, #1863DC 0%, #296BFF 100%);
+      min-height: 100vh;
+      color: #0D1752;
+    }
+    .receipt {
+      background: white;
+      border-radius: 24px;
+      padding: 32px;
+      max-width: 520px;
+      margin: 0 auto;
+      box-shadow: 0 24px 72px rgba(24, 99, 220, 0.15);
+      animation: slideUp 0.5s cubic-bezier(0.4, 0, 0.2, 1);
+    }
+    @keyframes slideUp {
+      from { opacity: 0; transform: translateY(30px); }
+      to { opacity: 1; transform: translateY(0); }
+    }
+    .header {
+      text-align: center;
+      padding-bottom: 24px;
+      border-bottom: 2px solid #f4f4f4;
+    }
+    .mybambu-logo {
+      font-size: 28px;
+      font-weight: 800;
+      color: #1863DC;
+      margin-bottom: 12px;
+      letter-spacing: -0.5px;
+    }
+    .status {
+      display: inline-block;
+      padding: 10px 20px;
+      border-radius: 24px;
+      font-size: 12px;
+      font-weight: 700;
+      margin-top: 16px;
+      text-transform: uppercase;
+      letter-spacing: 0.8px;
+    }
+    .status-pending { background: #FFF3CD; color: #856404; }
+    .status-processing { background: #D1E7FE; color: #1863DC; }
+    .status-completed { background: #D1F4E0; color: #17CA60; }
+    .status-review { background: #E8F2FE; color: #1863DC; }
+    .status-confirming { background: #D1E7FE; color: #1863DC; }
+    .status-cancelled, .status-expired { background: #F3F4F6; color: #6B7280; }
+    .status-failed { background: #FDE2E1; color: #C0392B; }
+    .status-refunded { background: #F3F4F6; color: #6B7280; }
+    .timeline {
+      list-style: none;
+      margin: 0 0 24px;
+      padding: 0 0 0 8px;
+    }
+    .timeline li {
+      position: relative;
+      padding: 0 0 14px 20px;
+      border-left: 2px solid #E8EAED;
+      font-size: 13px;
+      color: #6B7280;
+    }
+    .timeline li:last-child { border-left-color: transparent; padding-bottom: 0; }
+    .timeline li::before {
+      content: '';
+      position: absolute;
+      left: -6px;
+      top: 2px;
+      width: 10px;
+      height: 10px;
+      border-radius: 50%;
+      background: #1863DC;
+    }
+    .timeline .event-status { font-weight: 700; color: #0D1752; text-transform: capitalize; }
+    .quote-expiry {
+      text-align: center;
+      font-size: 13px;
+      font-weight: 700;
+      color: #856404;
+      background: #FFF3CD;
+      border-radius: 10px;
+      padding: 10px;
+      margin-top: 16px;
+    }
+    .quote-expiry.expired { color: #6B7280; background: #F3F4F6; }
+    .refund-note {
+      text-align: center;
+      font-size: 13px;
+      font-weight: 600;
+      color: #0D1752;
+      background: #F8F9FA;
+      border-radius: 10px;
+      padding: 10px;
+      margin-top: 16px;
+    }
+    .refund-note.error { color: #C0392B; background: #FDE2E1; }
+    button:disabled { opacity: 0.5; cursor: not-allowed; transform: none; }
+    .amount-section {
+      text-align: center;
+      padding: 40px 0;
+      background: linear-gradient(135deg, rgba(24, 99, 220, 0.08) 0%, rgba(23, 202, 96, 0.08) 100%);
+      border-radius: 20px;
+      margin: 24px 0;
+      position: relative;
+      overflow: hidden;
+    }
+    .amount-section::before {
+      content: '';
+      position: absolute;
+      top: -50%;
+      right: -50%;
+      width: 200%;
+      height: 200%;
+      background: radial-gradient(circle, rgba(23, 202, 96, 0.1) 0%, transparent 70%);
+      animation: pulse 3s ease-in-out infinite;
+    }
+    @keyframes pulse {
+      0%, 100% { transform: scale(1); opacity: 0.5; }
+      50% { transform: scale(1.1); opacity: 0.8; }
+    }
+    .amount {
+      font-size: 56px;
+      font-weight: 800;
+      color: #1863DC;
+      line-height: 1;
+      position: relative;
+      z-index: 1;
+    }
+    .currency {
+      font-size: 20px;
+      color: #17CA60;
       font-weight: 700;
       margin-top: 8px;
       position: relative;
@@ -379,7 +1440,7 @@ function getTransferReceiptComponent(): string {
   <div class="receipt" id="receipt">
     <div class="header">
       <div class="mybambu-logo">MyBambu</div>
-      <h2 style="color: #333; font-size: 20px;">💸 Transfer Receipt</h2>
+      <h2 style="color: #333; font-size: 20px;" id="title">💸 Transfer Receipt</h2>
       <div class="status" id="status">PENDING</div>
     </div>
 
@@ -413,20 +1474,43 @@ function getTransferReceiptComponent(): string {
         <span class="value" id="delivery">35 minutes</span>
       </div>
       <div class="detail-row">
-        <span class="label">Estimated arrival</span>
+        <span class="label" id="arrivalLabel">Estimated arrival</span>
         <span class="value" id="arrival">Calculating...</span>
       </div>
     </div>
 
-    <div class="actions">
+    <ul class="timeline" id="timeline" style="display: none;"></ul>
+
+    <div class="quote-expiry" id="quoteExpiry" style="display: none;"></div>
+
+    <div class="refund-note" id="refundNote" style="display: none;"></div>
+
+    <div class="actions" id="receiptActions">
+      <button class="btn-secondary" id="cancelTransferBtn" style="display: none;" onclick="cancelTransfer()">Cancel Transfer</button>
       <button class="btn-secondary" onclick="checkStatus()">Check Status</button>
       <button class="btn-primary" onclick="viewHistory()">View History</button>
     </div>
 
+    <div class="actions" id="reviewActions" style="display: none;">
+      <button class="btn-secondary" id="cancelBtn" onclick="cancelQuote()">Cancel</button>
+      <button class="btn-primary" id="confirmBtn" onclick="confirmTransfer()">Confirm &amp; Send</button>
+    </div>
+
     <div class="transfer-id" id="transferId">ID: Loading...</div>
   </div>
 
   <script>
+    // An amount in the currency it's in, e.g. $50.00 or €50.00
+    function money(value, currency, digits = 2) {
+      return value.toLocaleString('en-US', {
+        style: 'currency', currency: currency || 'USD', minimumFractionDigits: digits, maximumFractionDigits: digits
+      });
+    }
+
+    // The transfer or quote currently shown (replaced after Confirm/Cancel)
+    let current = null;
+    let expiryTimer = null;
+
     // Access window.openai provided by ChatGPT Apps SDK
     function render() {
       if (!window.openai || !window.openai.toolOutput) {
@@ -434,43 +1518,196 @@ function getTransferReceiptComponent(): string {
         return;
       }
 
-      const data = window.openai.toolOutput;
+      renderData(window.openai.toolOutput);
+    }
+
+    function renderData(data) {
+      current = data;
+      const isQuote = data.type === 'quote';
+      const inReview = isQuote && data.status === 'pending';
 
       // Update all fields with transfer data
       document.getElementById('recipientName').textContent = data.recipient_name;
       document.getElementById('recipientCountry').textContent = data.recipient_country;
       document.getElementById('amount').textContent = data.recipient_amount.toFixed(2);
       document.getElementById('currency').textContent = data.to_currency;
-      document.getElementById('sentAmount').textContent = \`$\${data.amount.toFixed(2)} \${data.from_currency}\`;
-      document.getElementById('fee').textContent = \`$\${data.fee.toFixed(2)} \${data.from_currency}\`;
+      document.getElementById('sentAmount').textContent = \`\${money(data.amount, data.from_currency)} \${data.from_currency}\`;
+      document.getElementById('fee').textContent = \`\${money(data.fee, data.from_currency)} \${data.from_currency}\`;
       document.getElementById('rate').textContent = \`1 \${data.from_currency} = \${data.exchange_rate.toFixed(4)} \${data.to_currency}\`;
       document.getElementById('delivery').textContent = data.delivery_time;
-      document.getElementById('arrival').textContent = new Date(data.estimated_arrival).toLocaleString();
-      document.getElementById('transferId').textContent = \`ID: \${data.id}\`;
+      document.getElementById('transferId').textContent = isQuote ? \`Quote: \${data.id}\` : \`ID: \${data.id}\`;
+
+      if (isQuote) {
+        document.getElementById('arrivalLabel').textContent = 'Quote valid until';
+        document.getElementById('arrival').textContent = new Date(data.expires_at).toLocaleTimeString();
+      } else {
+        document.getElementById('arrivalLabel').textContent = 'Estimated arrival';
+        document.getElementById('arrival').textContent = data.estimated_arrival
+          ? new Date(data.estimated_arrival).toLocaleString()
+          : 'Not sent';
+      }
+
+      // Quotes awaiting confirmation show the review state
+      const status = inReview ? 'review' : data.status;
+      document.getElementById('title').textContent = inReview ? '🧾 Review Your Transfer' : (isQuote ? '🧾 Transfer Quote' : '💸 Transfer Receipt');
+      document.getElementById('reviewActions').style.display = inReview ? 'flex' : 'none';
+      document.getElementById('receiptActions').style.display = isQuote ? 'none' : 'flex';
 
       // Update status with proper styling
       const statusEl = document.getElementById('status');
-      statusEl.textContent = data.status.toUpperCase();
-      statusEl.className = 'status status-' + data.status;
+      statusEl.textContent = status.toUpperCase();
+      statusEl.className = 'status status-' + status;
+
+      renderTimeline(isQuote ? [] : (data.status_history || []));
+
+      // Cancel is only offered while the transfer can still be stopped
+      const cancelBtn = document.getElementById('cancelTransferBtn');
+      cancelBtn.style.display = !isQuote && data.cancellable ? 'block' : 'none';
+      cancelBtn.disabled = false;
+      showRefund(data);
+
+      updateExpiry();
     }
 
-    // Interactive actions using window.openai.callTool
-    async function checkStatus() {
-      if (window.openai && window.openai.callTool) {
-        const data = window.openai.toolOutput;
-        await window.openai.callTool({
-          name: 'check_transfer_status',
-          input: { transfer_id: data.id }
-        });
+    function showRefund(data) {
+      const el = document.getElementById('refundNote');
+      el.className = 'refund-note';
+      if (data.type !== 'quote' && data.failure_reason) {
+        el.style.display = 'block';
+        el.className = 'refund-note error';
+        el.textContent = \`Wise rejected this transfer: \${data.failure_reason}. No money was sent.\`;
+        return;
+      }
+      if (data.type === 'quote' || data.status !== 'cancelled' || !data.refund) {
+        el.style.display = 'none';
+        return;
       }
+      el.style.display = 'block';
+      el.textContent = data.refund.required
+        ? \`Refund: \${money(data.refund.amount, data.refund.currency)} \${data.refund.currency} - \${data.refund.method}, \${data.refund.eta}.\`
+        : \`No refund needed - \${data.refund.method}.\`;
     }
 
-    async function viewHistory() {
-      if (window.openai && window.openai.sendFollowUpMessage) {
-        await window.openai.sendFollowUpMessage({
-          role: 'user',
-          content: 'Show me my transfer history'
-        });
+    async function cancelTransfer() {
+      if (!current || !window.openai || !window.openai.callTool) return;
+      const cancelBtn = document.getElementById('cancelTransferBtn');
+      cancelBtn.disabled = true;
+
+      const result = await window.openai.callTool({
+        name: 'cancel_transfer',
+        input: { transfer_id: current.id }
+      });
+
+      if (result && result.structuredContent) {
+        renderData(result.structuredContent);
+      } else {
+        cancelBtn.disabled = false;
+        const message = result && result.content && result.content[0] && result.content[0].text;
+        if (message) {
+          const el = document.getElementById('refundNote');
+          el.textContent = message;
+          el.className = 'refund-note error';
+          el.style.display = 'block';
+        }
+      }
+    }
+
+    // Every status the transfer has been seen in, oldest first
+    function renderTimeline(history) {
+      const el = document.getElementById('timeline');
+      el.style.display = history.length > 0 ? 'block' : 'none';
+      el.innerHTML = history.map(e => \`
+        <li>
+          <div class="event-status">\${e.status}\${e.description ? ' - ' + e.description : ''}</div>
+          <div>\${new Date(e.at).toLocaleString()}</div>
+        </li>
+      \`).join('');
+    }
+
+    // Countdown until the quote expires; Confirm is disabled once it has
+    function updateExpiry() {
+      clearTimeout(expiryTimer);
+      const el = document.getElementById('quoteExpiry');
+
+      if (!current || current.type !== 'quote' || current.status !== 'pending') {
+        el.style.display = 'none';
+        return;
+      }
+
+      const remaining = new Date(current.expires_at).getTime() - Date.now();
+      el.style.display = 'block';
+
+      if (remaining <= 0) {
+        el.textContent = 'This quote has expired. Ask for a new quote to continue.';
+        el.className = 'quote-expiry expired';
+        document.getElementById('confirmBtn').disabled = true;
+        return;
+      }
+
+      const minutes = Math.floor(remaining / 60000);
+      const seconds = Math.floor((remaining % 60000) / 1000);
+      el.textContent = \`Price locked for \${minutes}:\${String(seconds).padStart(2, '0')}\`;
+      el.className = 'quote-expiry';
+      expiryTimer = setTimeout(updateExpiry, 1000);
+    }
+
+    async function confirmTransfer() {
+      if (!current || !window.openai || !window.openai.callTool) return;
+      setReviewButtonsDisabled(true);
+
+      const result = await window.openai.callTool({
+        name: 'confirm_transfer',
+        input: { quote_id: current.id, idempotency_key: 'confirm-' + current.id }
+      });
+
+      if (result && result.structuredContent) {
+        renderData(result.structuredContent);
+      } else {
+        setReviewButtonsDisabled(false);
+      }
+    }
+
+    async function cancelQuote() {
+      if (!current || !window.openai || !window.openai.callTool) return;
+      setReviewButtonsDisabled(true);
+
+      const result = await window.openai.callTool({
+        name: 'cancel_transfer_quote',
+        input: { quote_id: current.id }
+      });
+
+      if (result && result.structuredContent) {
+        renderData(result.structuredContent);
+      } else {
+        setReviewButtonsDisabled(false);
+      }
+    }
+
+    function setReviewButtonsDisabled(disabled) {
+      document.getElementById('confirmBtn').disabled = disabled;
+      document.getElementById('cancelBtn').disabled = disabled;
+    }
+
+    // Interactive actions using window.openai.callTool
+    async function checkStatus() {
+      if (window.openai && window.openai.callTool) {
+        const data = current || window.openai.toolOutput;
+        const result = await window.openai.callTool({
+          name: 'check_transfer_status',
+          input: { transfer_id: data.id }
+        });
+        if (result && result.structuredContent) {
+          renderData(result.structuredContent);
+        }
+      }
+    }
+
+    async function viewHistory() {
+      if (window.openai && window.openai.sendFollowUpMessage) {
+        await window.openai.sendFollowUpMessage({
+          role: 'user',
+          content: 'Show me my transfer history'
+        });
       }
     }
 
@@ -604,6 +1841,51 @@ function getExchangeRateComponent(): string {
       font-weight: 800;
       color: #0D1752;
     }
+    .rate-note {
+      font-size: 13px;
+      opacity: 0.85;
+      font-weight: 600;
+      position: relative;
+      z-index: 1;
+      margin-top: 12px;
+    }
+    .stale-warning {
+      display: none;
+      margin-top: 16px;
+      padding: 10px 14px;
+      border-radius: 12px;
+      background: #FFFBEB;
+      border: 2px solid #FDE68A;
+      color: #92400E;
+      font-size: 13px;
+      font-weight: 700;
+      text-align: center;
+    }
+    .executable {
+      display: none;
+      margin-top: 20px;
+      padding: 18px;
+      border-radius: 14px;
+      background: #ECFDF5;
+      border: 2px solid #A7F3D0;
+    }
+    .executable-row {
+      display: flex;
+      justify-content: space-between;
+      font-size: 14px;
+      color: #0D1752;
+      font-weight: 600;
+      padding: 4px 0;
+    }
+    .executable-row strong {
+      font-weight: 800;
+    }
+    .executable-note {
+      font-size: 12px;
+      color: #6B7280;
+      margin-top: 8px;
+      font-weight: 600;
+    }
     .timestamp {
       text-align: center;
       color: #9CA3AF;
@@ -643,11 +1925,20 @@ function getExchangeRateComponent(): string {
       <div class="arrow">↓</div>
       <div class="rate-value" id="rateValue">0.0000</div>
       <div class="currencies" id="toCurrency">MXN</div>
+      <div class="rate-note">Mid-market rate · indicative</div>
+    </div>
+    <div class="stale-warning" id="staleWarning"></div>
+    <div class="executable" id="executable">
+      <div class="executable-row"><span>Your rate</span><strong id="executableRate"></strong></div>
+      <div class="executable-row"><span>You send</span><strong id="sendAmount"></strong></div>
+      <div class="executable-row"><span>Our fee</span><strong id="feeAmount"></strong></div>
+      <div class="executable-row"><span>They receive</span><strong id="receiveAmount"></strong></div>
+      <div class="executable-note" id="executableNote"></div>
     </div>
     <div class="info-grid">
       <div class="info-box">
         <div class="info-label">Our Fee</div>
-        <div class="info-value">$0.85+</div>
+        <div class="info-value" id="feeDescription">1.5%</div>
       </div>
       <div class="info-box">
         <div class="info-label">Delivery</div>
@@ -659,6 +1950,13 @@ function getExchangeRateComponent(): string {
   </div>
 
   <script>
+    // An amount in the currency it's in, e.g. $50.00 or €50.00
+    function money(value, currency, digits = 2) {
+      return value.toLocaleString('en-US', {
+        style: 'currency', currency: currency || 'USD', minimumFractionDigits: digits, maximumFractionDigits: digits
+      });
+    }
+
     function render() {
       if (!window.openai || !window.openai.toolOutput) {
         setTimeout(render, 100);
@@ -670,7 +1968,29 @@ function getExchangeRateComponent(): string {
       document.getElementById('fromCurrency').textContent = \`1 \${data.from_currency}\`;
       document.getElementById('rateValue').textContent = data.rate.toFixed(4);
       document.getElementById('toCurrency').textContent = data.to_currency;
-      document.getElementById('timestamp').textContent = \`Updated: \${new Date(data.timestamp).toLocaleString()}\`;
+      document.getElementById('timestamp').textContent = \`Mid-market rate as of: \${new Date(data.as_of || data.timestamp).toLocaleString()}\`;
+      if (data.stale) {
+        const warning = document.getElementById('staleWarning');
+        warning.textContent = '⚠️ Live rates unavailable - this rate may be out of date';
+        warning.style.display = 'block';
+      }
+      if (data.fee_description) {
+        document.getElementById('feeDescription').textContent = data.fee_description.replace(/ of the amount sent/, '');
+      }
+
+      // The price a transfer of this amount would actually get
+      if (data.amount !== undefined) {
+        document.getElementById('executable').style.display = 'block';
+        document.getElementById('executableRate').textContent = data.executable_rate
+          ? \`1 \${data.from_currency} = \${data.executable_rate.toFixed(4)} \${data.to_currency}\`
+          : '-';
+        document.getElementById('sendAmount').textContent = money(data.amount, data.from_currency);
+        document.getElementById('feeAmount').textContent = money(data.fee, data.from_currency);
+        document.getElementById('receiveAmount').textContent = money(data.recipient_amount, data.to_currency);
+        document.getElementById('executableNote').textContent = data.rate_source === 'wise_quote'
+          ? 'Quoted by Wise' + (data.quote_expires_at ? \` · valid until \${new Date(data.quote_expires_at).toLocaleTimeString()}\` : '')
+          : 'Demo mode: transfers convert at the mid-market rate';
+      }
 
       if (data.delivery_time) {
         document.getElementById('deliveryTime').textContent = data.delivery_time;
@@ -1039,6 +2359,68 @@ function getRecipientManagementComponent(): string {
       color: #666;
     }
 
+    .accounts {
+      list-style: none;
+      margin-top: 12px;
+      position: relative;
+      z-index: 1;
+    }
+
+    .account {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      gap: 12px;
+      padding: 10px 12px;
+      margin-top: 6px;
+      background: white;
+      border: 1px solid #E6E9F0;
+      border-radius: 10px;
+      font-size: 14px;
+      color: #0D1752;
+      font-weight: 600;
+    }
+
+    .account-label {
+      color: #999;
+      font-weight: 600;
+      margin-left: 6px;
+    }
+
+    .account-default {
+      font-size: 12px;
+      font-weight: 700;
+      color: #1863DC;
+      white-space: nowrap;
+    }
+
+    .account-btn {
+      background: none;
+      border: 1px solid #1863DC;
+      color: #1863DC;
+      padding: 6px 10px;
+      border-radius: 8px;
+      font-size: 12px;
+      font-weight: 700;
+      cursor: pointer;
+      white-space: nowrap;
+      font-family: 'Nunito', sans-serif;
+    }
+
+    .account-btn:hover {
+      background: #1863DC;
+      color: white;
+    }
+
+    .no-accounts {
+      margin-top: 10px;
+      font-size: 13px;
+      color: #999;
+      font-weight: 600;
+      position: relative;
+      z-index: 1;
+    }
+
     .add-btn {
       width: 100%;
       padding: 16px;
@@ -1074,14 +2456,23 @@ function getRecipientManagementComponent(): string {
   </div>
 
   <script>
+    let recips = [];
+
+    function escapeHtml(value) {
+      return String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+    }
+
     function render() {
       if (!window.openai || !window.openai.toolOutput) {
         setTimeout(render, 100);
         return;
       }
+      renderData(window.openai.toolOutput);
+    }
 
-      const data = window.openai.toolOutput;
-      const recips = data.recipients || [];
+    function renderData(data) {
+      // add_recipient returns just the recipient it saved
+      recips = data.recipients || (data.id ? [data] : []);
 
       document.getElementById('subtitle').textContent =
         recips.length > 0
@@ -1101,39 +2492,66 @@ function getRecipientManagementComponent(): string {
         return;
       }
 
-      listEl.innerHTML = recips.map(r => \`
+      listEl.innerHTML = recips.map(r => {
+        const accounts = r.payout_accounts || [];
+        return \`
         <div class="recipient-card" onclick="sendToRecipient('\${r.id}')">
           <div class="recipient-header">
             <div>
-              <div class="recipient-name">\${r.name}</div>
-              <div class="recipient-country">📍 \${r.country}</div>
-              <div class="recipient-currency">💱 \${r.currency}</div>
+              <div class="recipient-name">\${escapeHtml(r.name)}</div>
+              <div class="recipient-country">📍 \${escapeHtml(r.country)}</div>
+              <div class="recipient-currency">💱 \${escapeHtml(r.currency)}</div>
             </div>
             <button class="delete-btn" onclick="event.stopPropagation(); deleteRecipient('\${r.id}')">Delete</button>
           </div>
+          \${accounts.length > 0 ? \`
+            <ul class="accounts">
+              \${accounts.map(a => \`
+                <li class="account">
+                  <span>🏦 \${escapeHtml(a.summary)}\${a.label ? \`<span class="account-label">\${escapeHtml(a.label)}</span>\` : ''}</span>
+                  \${a.is_default
+                    ? '<span class="account-default">⭐ Default</span>'
+                    : \`<button class="account-btn" onclick="event.stopPropagation(); setDefaultAccount('\${r.id}', '\${a.id}')">Make default</button>\`}
+                </li>
+              \`).join('')}
+            </ul>
+          \` : '<div class="no-accounts">No bank details saved yet</div>'}
         </div>
-      \`).join('');
+      \`;
+      }).join('');
     }
 
     async function sendToRecipient(id) {
       if (window.openai && window.openai.sendFollowUpMessage) {
-        const data = window.openai.toolOutput;
-        const recipient = data.recipients.find((r: any) => r.id === id);
+        const recipient = recips.find(r => r.id === id);
         if (recipient) {
           await window.openai.sendFollowUpMessage({
             role: 'user',
-            content: \`Send money to \${recipient.name} in \${recipient.country}\`
+            content: \`Send money to \${recipient.name} in \${recipient.country} (saved recipient \${recipient.id})\`
           });
         }
       }
     }
 
+    async function setDefaultAccount(recipientId, accountId) {
+      if (window.openai && window.openai.callTool) {
+        const result = await window.openai.callTool({
+          name: 'set_default_payout_account',
+          input: { recipient_id: recipientId, account_id: accountId }
+        });
+        if (result && result.structuredContent && result.structuredContent.recipients) {
+          renderData(result.structuredContent);
+        }
+      }
+    }
+
     async function deleteRecipient(id) {
       if (window.openai && window.openai.callTool) {
         await window.openai.callTool({
           name: 'delete_recipient',
           input: { recipient_id: id }
         });
+        renderData({ recipients: recips.filter(r => r.id !== id) });
       }
     }
 
@@ -1305,6 +2723,132 @@ function getScheduledTransfersComponent(): string {
       font-weight: 600;
     }
 
+    .schedule-card.paused {
+      border-left-color: #F5A623;
+    }
+
+    .paused-note {
+      margin-top: 12px;
+      padding: 10px 14px;
+      border-radius: 10px;
+      background: #FFF4E0;
+      color: #8A5A00;
+      font-size: 13px;
+      font-weight: 600;
+      position: relative;
+      z-index: 1;
+    }
+
+    .status-badge {
+      display: inline-block;
+      margin-left: 6px;
+      padding: 6px 12px;
+      border-radius: 12px;
+      font-size: 12px;
+      font-weight: 700;
+      text-transform: uppercase;
+      background: #FFF4E0;
+      color: #8A5A00;
+    }
+
+    .schedule-actions {
+      display: grid;
+      grid-template-columns: repeat(3, 1fr);
+      gap: 8px;
+      margin-top: 16px;
+      position: relative;
+      z-index: 1;
+    }
+
+    .action-btn {
+      padding: 10px 8px;
+      border: 2px solid #1863DC;
+      border-radius: 10px;
+      background: white;
+      color: #1863DC;
+      font-size: 13px;
+      font-weight: 700;
+      cursor: pointer;
+      font-family: 'Nunito', sans-serif;
+      transition: all 0.2s ease;
+    }
+
+    .action-btn:hover {
+      background: #1863DC;
+      color: white;
+    }
+
+    .action-btn:disabled, .cancel-btn:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+
+    .edit-form {
+      display: none;
+      margin-top: 16px;
+      padding: 16px;
+      border-radius: 12px;
+      background: white;
+      border: 2px solid #E0E0E0;
+      position: relative;
+      z-index: 1;
+    }
+
+    .edit-form.open {
+      display: block;
+    }
+
+    .edit-form label {
+      display: block;
+      font-size: 12px;
+      font-weight: 700;
+      color: #999;
+      margin: 10px 0 4px;
+      text-transform: uppercase;
+    }
+
+    .edit-form input, .edit-form select {
+      width: 100%;
+      padding: 10px;
+      border: 2px solid #E0E0E0;
+      border-radius: 8px;
+      font-size: 14px;
+      font-family: 'Nunito', sans-serif;
+    }
+
+    .edit-form .action-btn {
+      width: 100%;
+      margin-top: 14px;
+      background: #1863DC;
+      color: white;
+    }
+
+    .history {
+      margin-top: 12px;
+      font-size: 13px;
+      color: #666;
+      position: relative;
+      z-index: 1;
+    }
+
+    .history summary {
+      cursor: pointer;
+      font-weight: 700;
+    }
+
+    .history li {
+      margin: 6px 0 0 18px;
+    }
+
+    .error-note {
+      margin-top: 12px;
+      color: #dc3545;
+      font-size: 13px;
+      font-weight: 600;
+      position: relative;
+      z-index: 1;
+    }
+
     .cancel-btn {
       background: #dc3545;
       color: white;
@@ -1380,18 +2924,40 @@ function getScheduledTransfersComponent(): string {
   </div>
 
   <script>
+    // An amount in the currency it's in, e.g. $50.00 or €50.00
+    function money(value, currency, digits = 2) {
+      return value.toLocaleString('en-US', {
+        style: 'currency', currency: currency || 'USD', minimumFractionDigits: digits, maximumFractionDigits: digits
+      });
+    }
+
+    let schedules = [];
+    const PATTERNS = ['weekly', 'bi-weekly', 'monthly', 'quarterly', '1st-and-15th', 'last-business-day', 'payday-friday'];
+
+    // Dates are shown in the schedule's own time zone, not the viewer's
+    function localDate(iso, timeZone) {
+      return new Date(iso).toLocaleDateString(undefined, { timeZone: timeZone || 'UTC', weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+    }
+
+    function inputDate(iso, timeZone) {
+      return iso ? new Date(iso).toLocaleDateString('en-CA', { timeZone: timeZone || 'UTC' }) : '';
+    }
+
     function render() {
       if (!window.openai || !window.openai.toolOutput) {
         setTimeout(render, 100);
         return;
       }
+      renderData(window.openai.toolOutput);
+    }
 
-      const data = window.openai.toolOutput;
-      const schedules = data.schedules || [];
+    function renderData(data) {
+      // List tools return { schedules }, schedule_transfer returns the new schedule itself
+      schedules = data.schedules || (data.id ? [data] : []);
 
       document.getElementById('subtitle').textContent =
         schedules.length > 0
-          ? \`\${schedules.length} active schedule\${schedules.length !== 1 ? 's' : ''}\`
+          ? \`\${schedules.length} schedule\${schedules.length !== 1 ? 's' : ''}\`
           : 'No scheduled transfers';
 
       const listEl = document.getElementById('scheduleList');
@@ -1408,11 +2974,11 @@ function getScheduledTransfersComponent(): string {
       }
 
       listEl.innerHTML = schedules.map(s => \`
-        <div class="schedule-card">
+        <div class="schedule-card\${s.status === 'paused' ? ' paused' : ''}" id="card-\${s.id}">
           <div class="schedule-header">
             <div>
-              <div class="schedule-amount">$\${s.amount.toFixed(2)}</div>
-              <div class="schedule-frequency">\${s.frequency}</div>
+              <div class="schedule-amount">\${s.recipient_amount ? money(s.recipient_amount, s.currency_to) : money(s.amount, s.currency_from)}</div>
+              <div class="schedule-frequency">\${s.recurrence_description || s.frequency}</div>\${s.status === 'paused' ? '<span class="status-badge">Paused</span>' : ''}
             </div>
           </div>
           <div class="schedule-details">
@@ -1426,28 +2992,129 @@ function getScheduledTransfersComponent(): string {
             </div>
             <div class="schedule-detail-row">
               <span style="color: #999;">Next Transfer:</span>
-              <span>\${new Date(s.next_execution).toLocaleDateString()}</span>
+              <span>\${s.status === 'paused' ? 'Paused' : localDate(s.next_execution, s.timezone)}</span>
+            </div>
+            \${s.status !== 'paused' && s.upcoming_executions && s.upcoming_executions.length > 1 ? \`
+            <div class="schedule-detail-row">
+              <span style="color: #999;">Then:</span>
+              <span>\${s.upcoming_executions.slice(1).map(d => localDate(d, s.timezone)).join(', ')}</span>
+            </div>\` : ''}
+            \${s.end_date ? \`
+            <div class="schedule-detail-row">
+              <span style="color: #999;">Ends:</span>
+              <span>\${localDate(s.end_date, s.timezone)}</span>
+            </div>\` : ''}
+            \${s.max_occurrences ? \`
+            <div class="schedule-detail-row">
+              <span style="color: #999;">Payments:</span>
+              <span>\${s.execution_count || 0} of \${s.max_occurrences}</span>
+            </div>\` : ''}
+            \${s.timezone && s.timezone !== 'UTC' ? \`
+            <div class="schedule-detail-row">
+              <span style="color: #999;">Time zone:</span>
+              <span>\${s.timezone}</span>
+            </div>\` : ''}
+            <div class="schedule-detail-row">
+              <span style="color: #999;">Sent So Far:</span>
+              <span>\${s.execution_count || 0} payment\${s.execution_count === 1 ? '' : 's'} (\${money(s.total_sent || 0, s.currency_from)})</span>
             </div>
           </div>
+          \${s.status === 'paused' && s.paused_reason ? \`<div class="paused-note">⏸️ \${s.paused_reason}</div>\` : ''}
+          <div class="schedule-actions">
+            \${s.status === 'paused'
+              ? \`<button class="action-btn" onclick="runAction('resume_scheduled_transfer', '\${s.id}')">▶️ Resume</button>\`
+              : \`<button class="action-btn" onclick="runAction('pause_scheduled_transfer', '\${s.id}')">⏸️ Pause</button>\`}
+            <button class="action-btn" onclick="runAction('skip_next_execution', '\${s.id}')">⏭️ Skip next</button>
+            <button class="action-btn" onclick="toggleEdit('\${s.id}')">✏️ Edit</button>
+          </div>
+          <div class="edit-form" id="edit-\${s.id}">
+            <label>Amount (\${s.currency_from || 'USD'})</label>
+            <input type="number" min="1" step="0.01" id="amount-\${s.id}" value="\${s.amount}">
+            <label>Frequency</label>
+            <select id="frequency-\${s.id}">
+              \${(PATTERNS.includes(s.frequency) ? PATTERNS : [s.frequency].concat(PATTERNS)).map(f =>
+                \`<option value="\${f}"\${f === s.frequency ? ' selected' : ''}>\${f === 'custom' ? 'custom (' + s.recurrence_description + ')' : f}</option>\`).join('')}
+            </select>
+            <label>Next payment</label>
+            <input type="date" id="next-\${s.id}" value="\${inputDate(s.next_execution, s.timezone)}">
+            <label>End date (optional)</label>
+            <input type="date" id="end-\${s.id}" value="\${inputDate(s.end_date, s.timezone)}">
+            <button class="action-btn" onclick="saveEdit('\${s.id}')">Save changes</button>
+          </div>
+          <div class="error-note" id="error-\${s.id}"></div>
+          \${s.history && s.history.length > 0 ? \`
+          <details class="history">
+            <summary>History (\${s.history.length})</summary>
+            <ul>
+              \${s.history.slice(-5).reverse().map(h =>
+                \`<li>\${new Date(h.at).toLocaleString()} - \${h.action}\${h.by === 'scheduler' ? ' automatically' : ''}\${h.changes ? ': ' + Object.keys(h.changes).join(', ') : ''}</li>\`).join('')}
+            </ul>
+          </details>\` : ''}
           <button class="cancel-btn" onclick="cancelSchedule('\${s.id}')">Cancel Schedule</button>
         </div>
       \`).join('');
     }
 
-    async function cancelSchedule(id) {
-      if (window.openai && window.openai.callTool) {
-        await window.openai.callTool({
-          name: 'cancel_scheduled_transfer',
-          input: { schedule_id: id }
-        });
-      }
+    function setCardDisabled(id, disabled) {
+      const card = document.getElementById('card-' + id);
+      if (!card) return;
+      card.querySelectorAll('button').forEach(btn => { btn.disabled = disabled; });
     }
 
-    async function scheduleNew() {
-      if (window.openai && window.openai.sendFollowUpMessage) {
-        await window.openai.sendFollowUpMessage({
-          role: 'user',
-          content: 'Schedule a recurring transfer'
+    async function runAction(name, id, extra) {
+      if (!window.openai || !window.openai.callTool) return;
+      setCardDisabled(id, true);
+      document.getElementById('error-' + id).textContent = '';
+
+      const result = await window.openai.callTool({
+        name,
+        input: Object.assign({ schedule_id: id }, extra || {})
+      });
+
+      if (result && result.structuredContent && result.structuredContent.schedules) {
+        renderData(result.structuredContent);
+      } else {
+        setCardDisabled(id, false);
+        const message = result && result.content && result.content[0] && result.content[0].text;
+        if (message) {
+          document.getElementById('error-' + id).textContent = message;
+        }
+      }
+    }
+
+    function toggleEdit(id) {
+      document.getElementById('edit-' + id).classList.toggle('open');
+    }
+
+    function saveEdit(id) {
+      const current = schedules.find(s => s.id === id);
+      const changes = {};
+      const amount = parseFloat(document.getElementById('amount-' + id).value);
+      const frequency = document.getElementById('frequency-' + id).value;
+      const next = document.getElementById('next-' + id).value;
+      const end = document.getElementById('end-' + id).value;
+
+      if (!isNaN(amount) && amount !== current.amount) changes.amount = amount;
+      if (frequency !== current.frequency) changes.frequency = frequency;
+      if (next && next !== inputDate(current.next_execution, current.timezone)) changes.next_execution_date = next;
+      if (end !== inputDate(current.end_date, current.timezone)) changes.end_date = end;
+
+      if (Object.keys(changes).length === 0) {
+        toggleEdit(id);
+        return;
+      }
+      runAction('update_scheduled_transfer', id, changes);
+    }
+
+    async function cancelSchedule(id) {
+      await runAction('cancel_scheduled_transfer', id);
+    }
+
+    async function scheduleNew() {
+      if (window.openai && window.openai.sendFollowUpMessage) {
+        await window.openai.sendFollowUpMessage({
+          role: 'user',
+          content: 'Schedule a recurring transfer'
         });
       }
     }
@@ -1606,6 +3273,17 @@ function getRateComparisonComponent(): string {
       font-size: 15px;
       font-weight: 600;
     }
+    .stale-warning {
+      display: none;
+      margin-top: 12px;
+      padding: 10px 14px;
+      border-radius: 12px;
+      background: #FFFBEB;
+      border: 2px solid #FDE68A;
+      color: #92400E;
+      font-size: 13px;
+      font-weight: 700;
+    }
   </style>
 </head>
 <body>
@@ -1614,6 +3292,7 @@ function getRateComparisonComponent(): string {
       <div class="mybambu-logo">MyBambu</div>
       <h1>💰 Rate Comparison</h1>
       <p class="subtitle" id="subtitle">Loading...</p>
+      <div class="stale-warning" id="staleWarning"></div>
     </div>
 
     <div id="winnerCard"></div>
@@ -1621,6 +3300,13 @@ function getRateComparisonComponent(): string {
   </div>
 
   <script>
+    // An amount in the currency it's in, e.g. $50.00 or €50.00
+    function money(value, currency, digits = 2) {
+      return value.toLocaleString('en-US', {
+        style: 'currency', currency: currency || 'USD', minimumFractionDigits: digits, maximumFractionDigits: digits
+      });
+    }
+
     function render() {
       if (!window.openai || !window.openai.toolOutput) {
         setTimeout(render, 100);
@@ -1631,14 +3317,19 @@ function getRateComparisonComponent(): string {
       const mybambu = data.mybambu;
       const competitors = data.competitors || [];
 
-      document.getElementById('subtitle').textContent = \`Sending $\${data.amount} to \${data.country}\`;
+      document.getElementById('subtitle').textContent = \`Sending \${money(data.amount, data.from_currency)} to \${data.country}\`;
+      if (data.stale) {
+        const warning = document.getElementById('staleWarning');
+        warning.textContent = \`⚠️ Live rates unavailable - using rates from \${new Date(data.rate_as_of).toLocaleString()}\`;
+        warning.style.display = 'block';
+      }
 
       document.getElementById('winnerCard').innerHTML = \`
         <div class="winner-card">
           <div class="winner-badge">🏆</div>
           <div class="winner-title">MyBambu - Best Rate!</div>
           <div class="winner-amount">\${mybambu.receives.toFixed(2)} \${mybambu.currency}</div>
-          <div class="winner-fee">Fee: $\${mybambu.fee.toFixed(2)} • Rate: \${mybambu.rate.toFixed(4)}</div>
+          <div class="winner-fee">Fee: \${money(mybambu.fee, data.from_currency)} • Rate: \${mybambu.rate.toFixed(4)}</div>
         </div>
       \`;
 
@@ -1649,11 +3340,12 @@ function getRateComparisonComponent(): string {
             <div class="competitor-amount">\${c.receives} \${mybambu.currency}</div>
           </div>
           <div style="font-size: 13px; color: #999;">
-            Fee: $\${c.fee.toFixed(2)} • Rate: \${c.rate.toFixed(4)}
+            Fee: \${money(c.fee, data.from_currency)} • Rate: \${c.rate.toFixed(4)}
           </div>
+          \${Number(c.savings) > 0 ? \`
           <div class="savings-badge">
-            💸 Save $\${c.savings} with MyBambu (\${c.savingsPercent}% more!)
-          </div>
+            💸 Save \${c.savings} \${mybambu.currency} with MyBambu (\${c.savingsPercent}% more!)
+          </div>\` : ''}
         </div>
       \`).join('');
     }
@@ -1827,6 +3519,13 @@ function getSpendingAnalyticsComponent(): string {
   </div>
 
   <script>
+    // An amount in the currency it's in, e.g. $50.00 or €50.00
+    function money(value, currency, digits = 2) {
+      return value.toLocaleString('en-US', {
+        style: 'currency', currency: currency || 'USD', minimumFractionDigits: digits, maximumFractionDigits: digits
+      });
+    }
+
     function render() {
       if (!window.openai || !window.openai.toolOutput) {
         setTimeout(render, 100);
@@ -1840,7 +3539,7 @@ function getSpendingAnalyticsComponent(): string {
       document.getElementById('statsGrid').innerHTML = \`
         <div class="stat-card">
           <div class="stat-label">Total Sent</div>
-          <div class="stat-value">$\${data.totalSent.toFixed(0)}</div>
+          <div class="stat-value">\${money(data.totalSent, data.currency, 0)}</div>
         </div>
         <div class="stat-card">
           <div class="stat-label">Transfers</div>
@@ -1848,11 +3547,11 @@ function getSpendingAnalyticsComponent(): string {
         </div>
         <div class="stat-card">
           <div class="stat-label">Total Fees</div>
-          <div class="stat-value">$\${data.totalFees.toFixed(2)}</div>
+          <div class="stat-value">\${money(data.totalFees, data.currency)}</div>
         </div>
         <div class="stat-card">
           <div class="stat-label">Avg Transfer</div>
-          <div class="stat-value">$\${data.avgTransfer.toFixed(0)}</div>
+          <div class="stat-value">\${money(data.avgTransfer, data.currency, 0)}</div>
         </div>
       \`;
 
@@ -1869,7 +3568,7 @@ function getSpendingAnalyticsComponent(): string {
                 <div class="breakdown-label">\${country}</div>
                 <div class="breakdown-bar" style="width: \${width}%"></div>
               </div>
-              <div class="breakdown-amount">$\${stats.total.toFixed(2)}</div>
+              <div class="breakdown-amount">\${money(stats.total, data.currency)}</div>
             </div>
           \`;
         }).join('');
@@ -1888,7 +3587,7 @@ function getSpendingAnalyticsComponent(): string {
                 <div class="breakdown-label">\${name}</div>
                 <div class="breakdown-bar" style="width: \${width}%"></div>
               </div>
-              <div class="breakdown-amount">$\${stats.total.toFixed(2)}</div>
+              <div class="breakdown-amount">\${money(stats.total, data.currency)}</div>
             </div>
           \`;
         }).join('');
@@ -1901,8 +3600,279 @@ function getSpendingAnalyticsComponent(): string {
 </html>`;
 }
 
-// Create MCP server
-function createTransfersServer(): Server {
+function getRateHistoryComponent(): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    @import url('https://fonts.googleapis.com/css2?family=Nunito:wght@400;600;700;800&display=swap');
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: 'Nunito', -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      padding: 20px;
+      background: linear-gradient(135deg, #1863DC 0%, #17CA60 100%);
+      min-height: 100vh;
+    }
+    .container {
+      background: white;
+      border-radius: 24px;
+      padding: 32px;
+      max-width: 720px;
+      margin: 0 auto;
+      box-shadow: 0 24px 72px rgba(24, 99, 220, 0.2);
+      animation: slideUp 0.5s cubic-bezier(0.4, 0, 0.2, 1);
+    }
+    @keyframes slideUp {
+      from { opacity: 0; transform: translateY(30px); }
+      to { opacity: 1; transform: translateY(0); }
+    }
+    .header {
+      text-align: center;
+      margin-bottom: 24px;
+      padding-bottom: 24px;
+      border-bottom: 2px solid #f4f4f4;
+    }
+    .mybambu-logo {
+      font-size: 28px;
+      font-weight: 800;
+      color: #1863DC;
+      margin-bottom: 12px;
+      letter-spacing: -0.5px;
+    }
+    h1 {
+      font-size: 26px;
+      color: #0D1752;
+      margin-bottom: 4px;
+      font-weight: 800;
+    }
+    .subtitle {
+      color: #6B7280;
+      font-size: 15px;
+      font-weight: 600;
+    }
+    .current-rate {
+      font-size: 40px;
+      font-weight: 800;
+      color: #0D1752;
+      text-align: center;
+      letter-spacing: -1px;
+    }
+    .current-label {
+      text-align: center;
+      color: #6B7280;
+      font-size: 13px;
+      font-weight: 700;
+      text-transform: uppercase;
+      letter-spacing: 1px;
+      margin-bottom: 20px;
+    }
+    .chart {
+      background: #F8F9FA;
+      border-radius: 16px;
+      padding: 16px;
+      margin-bottom: 20px;
+    }
+    .chart svg {
+      width: 100%;
+      height: 140px;
+      display: block;
+    }
+    .chart-dates {
+      display: flex;
+      justify-content: space-between;
+      color: #9CA3AF;
+      font-size: 12px;
+      font-weight: 600;
+      margin-top: 6px;
+    }
+    .range {
+      margin-bottom: 20px;
+    }
+    .range-bar {
+      position: relative;
+      height: 10px;
+      border-radius: 5px;
+      background: linear-gradient(90deg, #FCA5A5 0%, #FDE68A 50%, #86EFAC 100%);
+      margin: 10px 0;
+    }
+    .range-marker {
+      position: absolute;
+      top: -5px;
+      width: 20px;
+      height: 20px;
+      margin-left: -10px;
+      border-radius: 50%;
+      background: #1863DC;
+      border: 3px solid white;
+      box-shadow: 0 2px 8px rgba(24, 99, 220, 0.4);
+    }
+    .range-labels {
+      display: flex;
+      justify-content: space-between;
+      font-size: 13px;
+      color: #6B7280;
+      font-weight: 600;
+    }
+    .range-note {
+      text-align: center;
+      font-size: 14px;
+      font-weight: 700;
+      color: #0D1752;
+    }
+    .changes {
+      display: flex;
+      gap: 10px;
+      justify-content: center;
+      flex-wrap: wrap;
+    }
+    .change-chip {
+      padding: 8px 16px;
+      border-radius: 24px;
+      font-size: 13px;
+      font-weight: 700;
+      background: #F3F4F6;
+      color: #6B7280;
+    }
+    .change-chip.up { background: #DCFCE7; color: #15803D; }
+    .change-chip.down { background: #FEE2E2; color: #B91C1C; }
+    .empty {
+      text-align: center;
+      color: #6B7280;
+      font-size: 15px;
+      font-weight: 600;
+      padding: 24px 0;
+    }
+    .stale-warning {
+      display: none;
+      margin-top: 12px;
+      padding: 10px 14px;
+      border-radius: 12px;
+      background: #FFFBEB;
+      border: 2px solid #FDE68A;
+      color: #92400E;
+      font-size: 13px;
+      font-weight: 700;
+    }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <div class="mybambu-logo">MyBambu</div>
+      <h1>📈 Rate History</h1>
+      <p class="subtitle" id="subtitle">Loading...</p>
+      <div class="stale-warning" id="staleWarning"></div>
+    </div>
+
+    <div id="content"></div>
+  </div>
+
+  <script>
+    function day(date) {
+      return new Date(date).toLocaleDateString(undefined, { timeZone: 'UTC', month: 'short', day: 'numeric' });
+    }
+
+    // The daily rates as a line, lowest at the bottom
+    function sparkline(points, min, max) {
+      const width = 300;
+      const height = 100;
+      const spread = max - min || 1;
+      const coords = points.map((p, i) => {
+        const x = points.length === 1 ? width / 2 : (i / (points.length - 1)) * width;
+        const y = height - 8 - ((p.rate - min) / spread) * (height - 16);
+        return \`\${x.toFixed(1)},\${y.toFixed(1)}\`;
+      });
+      const last = coords[coords.length - 1].split(',');
+      return \`
+        <svg viewBox="0 0 \${width} \${height}" preserveAspectRatio="none">
+          <polyline points="0,\${height} \${coords.join(' ')} \${width},\${height}" fill="rgba(24, 99, 220, 0.08)" stroke="none" />
+          <polyline points="\${coords.join(' ')}" fill="none" stroke="#1863DC" stroke-width="2.5" stroke-linejoin="round" vector-effect="non-scaling-stroke" />
+          <circle cx="\${last[0]}" cy="\${last[1]}" r="4" fill="#17CA60" />
+        </svg>
+      \`;
+    }
+
+    function changeChip(label, percent) {
+      if (percent === null || percent === undefined) {
+        return \`<span class="change-chip">\${label}: -</span>\`;
+      }
+      const direction = percent > 0 ? 'up' : percent < 0 ? 'down' : '';
+      return \`<span class="change-chip \${direction}">\${label}: \${percent > 0 ? '+' : ''}\${percent.toFixed(2)}%</span>\`;
+    }
+
+    function render() {
+      if (!window.openai || !window.openai.toolOutput) {
+        setTimeout(render, 100);
+        return;
+      }
+
+      const data = window.openai.toolOutput;
+      const points = data.points || [];
+
+      document.getElementById('subtitle').textContent =
+        \`\${data.from_currency} → \${data.to_currency} (\${data.country}) · last \${data.days} days\`;
+      if (data.stale) {
+        const warning = document.getElementById('staleWarning');
+        warning.textContent = \`⚠️ Live rates unavailable - using rates from \${new Date(data.as_of).toLocaleString()}\`;
+        warning.style.display = 'block';
+      }
+
+      if (points.length === 0 || data.current === null) {
+        document.getElementById('content').innerHTML =
+          '<div class="empty">📭 No history yet - rates are recorded each time they are fetched.</div>';
+        return;
+      }
+
+      // Higher is better for the recipient, so the right of the bar is the good end
+      const position = data.position_percent;
+      const note = position === null ? 'The rate has been flat over this period'
+        : position >= 75 ? 'Near the top of its range - a good day to send'
+        : position <= 25 ? 'Near the bottom of its range'
+        : 'In the middle of its range';
+
+      document.getElementById('content').innerHTML = \`
+        <div class="current-rate">\${data.current.toFixed(4)}</div>
+        <div class="current-label">1 \${data.from_currency} today</div>
+
+        <div class="chart">
+          \${sparkline(points, data.min.rate, data.max.rate)}
+          <div class="chart-dates">
+            <span>\${day(points[0].date)}</span>
+            <span>\${day(points[points.length - 1].date)}</span>
+          </div>
+        </div>
+
+        <div class="range">
+          <div class="range-labels">
+            <span>Low \${data.min.rate.toFixed(4)} · \${day(data.min.date)}</span>
+            <span>Avg \${data.average.toFixed(4)}</span>
+            <span>High \${data.max.rate.toFixed(4)} · \${day(data.max.date)}</span>
+          </div>
+          <div class="range-bar">
+            <div class="range-marker" style="left: \${position === null ? 50 : position}%"></div>
+          </div>
+          <div class="range-note">\${note}</div>
+        </div>
+
+        <div class="changes">
+          \${changeChip('7 days', data.change_percent['7d'])}
+          \${changeChip('30 days', data.change_percent['30d'])}
+          \${changeChip('90 days', data.change_percent['90d'])}
+        </div>
+      \`;
+    }
+
+    document.addEventListener('DOMContentLoaded', render);
+    window.addEventListener('openai:set_globals', render);
+  </script>
+</body>
+</html>`;
+}
+
+// Create MCP server (one per session, bound to the session's owner)
+function createTransfersServer(ownerId: string): Server {
   const server = new Server(
     {
       name: "mybambu-transfers",
@@ -1961,6 +3931,12 @@ function createTransfersServer(): Server {
         name: "Spending Analytics Widget",
         mimeType: "text/html+skybridge",
         description: "Visual analytics and insights for transfer history"
+      },
+      {
+        uri: "component://rate-history",
+        name: "Rate History Widget",
+        mimeType: "text/html+skybridge",
+        description: "Exchange rate trend with today's rate in its recent range"
       }
     ]
   }));
@@ -1984,6 +3960,8 @@ function createTransfersServer(): Server {
       html = getRateComparisonComponent();
     } else if (uri === "component://spending-analytics") {
       html = getSpendingAnalyticsComponent();
+    } else if (uri === "component://rate-history") {
+      html = getRateHistoryComponent();
     } else {
       throw new Error(`Unknown resource: ${uri}`);
     }
@@ -2032,10 +4010,24 @@ ALWAYS use the available tools instead of manually responding. All transfer data
 When users ask about transfers, history, status, or recipients:
 - "show/list/view transfers" → CALL get_transfer_history tool
 - "check/track status" → CALL check_transfer_status tool
+- "cancel a transfer I sent" → CALL cancel_transfer tool (only possible while it is still pending)
 - "what countries" → CALL get_supported_countries tool
 - "show/list recipients" → CALL list_recipients tool
+- bank details needed for a country → CALL get_recipient_form first and ask the user for exactly those fields
+- "save their bank details / another account" → CALL add_recipient or add_payout_account; to send to someone saved, pass their recipient_id to send_money (or use quick_send) instead of asking for bank details again
 - "exchange rate" / "how much is X in Y" → CALL get_exchange_rate tool
+- "is today a good day to send" / "how has the rate moved" → CALL get_rate_history tool
+- "tell me when the rate hits X" → CALL create_rate_alert; list_rate_alerts / delete_rate_alert to see or remove them
+- "send when the rate hits X" / "send by Friday at the best rate" → CALL create_limit_order; list_limit_orders / cancel_limit_order to see or cancel them
 - "schedule/recurring/automatic" → CALL schedule_transfer or list_scheduled_transfers tool
+- "pause/resume/change/skip a scheduled transfer" → CALL pause_scheduled_transfer, resume_scheduled_transfer, update_scheduled_transfer or skip_next_execution
+- "limits / how much can I send" → CALL get_limits tool
+- "quote / review the price before sending" → CALL create_transfer_quote, then confirm_transfer only after the user confirms
+
+Amounts are in USD unless the user sends from another balance ("send €200", "from my CAD account") - then pass from_currency (EUR or CAD) to send_money, create_transfer_quote, schedule_transfer, get_exchange_rate or compare_rates.
+When the user names what the recipient should get ("send mom 5,000 pesos"), pass recipient_amount in the destination currency instead of amount. send_money then returns a quote showing what the user pays - confirm it with confirm_transfer once the user agrees.
+
+When calling send_money, quick_send or send_again, pass a fresh idempotency_key for each new transfer and reuse the same key if you retry that call.
 
 NEVER manually create lists or say "I don't know" when tools are available. If user asks about data (history, recipients, schedules), ALWAYS call the corresponding tool first.
 
@@ -2082,7 +4074,16 @@ User requests like "Can you keep a running list..." mean "show me what's already
           properties: {
             amount: {
               type: "number",
-              description: "Amount to send in USD (minimum $1, maximum $5000 per transaction)"
+              description: "Amount to send, in from_currency (maximum $5000 per transaction, or the equivalent)"
+            },
+            recipient_amount: {
+              type: "number",
+              description: "Optional, instead of amount: exactly what the recipient should get, in the destination currency (e.g. 5000 for 'send mom 5,000 pesos'). The amount to send is worked out from it and shown for confirmation first."
+            },
+            from_currency: {
+              type: "string",
+              description: "Optional: currency the transfer is funded from (default USD). Use when the user sends from a EUR or CAD balance, e.g. 'send €200 to Mexico'.",
+              enum: SOURCE_CURRENCIES
             },
             to_country: {
               type: "string",
@@ -2094,21 +4095,29 @@ User requests like "Can you keep a running list..." mean "show me what's already
             },
             recipient_data: {
               type: "object",
-              description: "Optional: Recipient details. Required fields vary by country. For Mexico (field1=CLABE), UK (field2=sortCode, field1=account), Europe (field1=IBAN), Brazil (field1=account, field3=CPF, field4=bankCode), Colombia (field1=account, field5=phone, field6=nationalID, field7=city, field8=address, field9=postCode). If not provided, you'll be told what's needed.",
-              properties: {
-                field1: { type: "string", description: "Primary identifier (account/CLABE/IBAN)" },
-                field2: { type: "string", description: "Secondary identifier (sort code/account type)" },
-                field3: { type: "string", description: "Tax ID or document number" },
-                field4: { type: "string", description: "Institution code" },
-                field5: { type: "string", description: "Contact information" },
-                field6: { type: "string", description: "Document reference" },
-                field7: { type: "string", description: "Location" },
-                field8: { type: "string", description: "Address line" },
-                field9: { type: "string", description: "Postal reference" }
-              }
-            },
-          },
-          required: ["amount", "to_country", "recipient_name"],
+              description: "Deprecated - use bank_details instead. Older generic fields: field1 is the CLABE (Mexico), IBAN (Europe) or account number, field2 the sort code (UK) or account type, field3 CPF, field4 bank code, field5 phone, field6 national ID, field7 city, field8 address, field9 postcode.",
+              properties: Object.fromEntries([1, 2, 3, 4, 5, 6, 7, 8, 9].map(n => [`field${n}`, { type: "string" }]))
+            },
+            bank_details: {
+              type: "object",
+              description: "Optional: Recipient bank details as named fields (e.g. {\"clabe\": \"...\"} for Mexico, {\"iban\": \"...\"} for Europe, {\"sortCode\": \"...\", \"accountNumber\": \"...\"} for the UK). The fields vary by country and amount - call get_recipient_form for the exact list before asking the user.",
+              properties: knownBankDetailProperties(),
+              additionalProperties: { type: "string" }
+            },
+            recipient_id: {
+              type: "string",
+              description: "Optional: A saved recipient's ID (from list_recipients). Their saved bank details are used, so don't ask for them again."
+            },
+            account_id: {
+              type: "string",
+              description: "Optional: Which of the saved recipient's payout accounts to send to. Defaults to their default account."
+            },
+            idempotency_key: {
+              type: "string",
+              description: "Optional: a unique key for this transfer request (e.g. a UUID). Reuse the same key when retrying so the transfer is never sent twice."
+            },
+          },
+          required: ["to_country", "recipient_name"],
         },
         _meta: {
           "openai/outputTemplate": "component://transfer-receipt",
@@ -2121,53 +4130,218 @@ User requests like "Can you keep a running list..." mean "show me what's already
         }
       },
       {
-        name: "get_exchange_rate",
-        description: "Get current exchange rate, check conversion rate, see how much currency you'll get, or compare rates. Use when user asks 'what's the exchange rate', 'how much is X in Y', 'rate for [currency]', 'USD to [currency]', 'exchange rate', 'conversion rate', 'how much will they receive', 'what's the rate', or wants to see rates for all countries/currencies. Provides live rates updated hourly with fee information and estimated delivery times.",
+        name: "get_recipient_form",
+        description: "Get the exact bank details needed to send money to a country, as a form with field names, formats and allowed values. Call this BEFORE asking the user for bank details, then pass their answers to send_money, create_transfer_quote or add_recipient as bank_details using these field names. If a field says other fields depend on it, call this again with it filled in.",
         inputSchema: {
           type: "object",
           properties: {
-            to_currency: {
-              type: "string",
-              description: "Destination currency code (MXN, GTQ, HNL, DOP, COP, PEN, etc.)"
-            },
             to_country: {
               type: "string",
-              description: "Destination country name (optional, helps determine delivery time)"
+              description: "Destination country"
+            },
+            amount: {
+              type: "number",
+              description: "Optional: Amount to send in USD (some countries need more details for larger amounts)"
+            },
+            bank_details: {
+              type: "object",
+              description: "Optional: Details already known, so fields that depend on them (e.g. the recipient's country or state) are included",
+              additionalProperties: { type: "string" }
             }
           },
-          required: ["to_currency"],
+          required: ["to_country"],
         },
         _meta: {
-          "openai/outputTemplate": "component://exchange-rate",
           "openai/toolInvocation": {
-            invoking: "Fetching live exchange rates...",
-            invoked: "Exchange rate retrieved"
+            invoking: "Checking which bank details are needed...",
+            invoked: "Recipient form ready"
           },
           readOnlyHint: true
         }
       },
       {
-        name: "check_transfer_status",
-        description: "Check status, track transfer, verify delivery, or get updates on any transfer. Use when user asks 'check the transfer status', 'where is my money', 'has it arrived', 'track my transfer', 'check transfer', 'status of transfer', or similar status inquiries. Returns current status, delivery progress, and estimated arrival time.",
+        name: "create_transfer_quote",
+        description: "Get a binding price for a transfer BEFORE sending it. Use when the user wants to see exactly what a transfer will cost or how much the recipient gets before committing: 'how much would it cost to send $200 to Mexico', 'quote me a transfer', 'show me the price first', 'let me review before sending'. Returns a quote ID with the fee, exchange rate, recipient amount and an expiry. Nothing is sent until confirm_transfer is called with the quote ID.",
         inputSchema: {
           type: "object",
           properties: {
-            transfer_id: {
+            amount: {
+              type: "number",
+              description: "Amount to send, in from_currency (maximum $5000 per transaction, or the equivalent)"
+            },
+            recipient_amount: {
+              type: "number",
+              description: "Optional, instead of amount: exactly what the recipient should get, in the destination currency (e.g. 5000 for 'send mom 5,000 pesos'). The amount to send is worked out from it and shown for confirmation first."
+            },
+            from_currency: {
               type: "string",
-              description: "Transfer ID (format: TXN-XXXX)"
+              description: "Optional: currency the transfer is funded from (default USD). Use when the user sends from a EUR or CAD balance, e.g. 'send €200 to Mexico'.",
+              enum: SOURCE_CURRENCIES
             },
-          },
-          required: ["transfer_id"],
-        },
-        _meta: {
-          "openai/outputTemplate": "component://transfer-receipt",
-          "openai/toolInvocation": {
-            invoking: "Checking transfer status...",
+            to_country: {
+              type: "string",
+              description: "Destination country"
+            },
+            recipient_name: {
+              type: "string",
+              description: "Full name of the recipient"
+            },
+            recipient_data: {
+              type: "object",
+              description: "Deprecated - use bank_details instead. Same format as send_money's recipient_data."
+            },
+            bank_details: {
+              type: "object",
+              description: "Optional: Recipient bank details as named fields, same format as send_money's bank_details (see get_recipient_form)",
+              properties: knownBankDetailProperties(),
+              additionalProperties: { type: "string" }
+            }
+          },
+          required: ["to_country", "recipient_name"],
+        },
+        _meta: {
+          "openai/outputTemplate": "component://transfer-receipt",
+          "openai/toolInvocation": {
+            invoking: "Getting your quote...",
+            invoked: "Quote ready for review"
+          },
+          readOnlyHint: false,
+          destructiveHint: false
+        }
+      },
+      {
+        name: "confirm_transfer",
+        description: "Send a transfer using a quote the user has reviewed. Only call this after the user explicitly confirms a quote from create_transfer_quote (e.g. 'yes, send it', 'confirm', 'go ahead'). Fails if the quote has expired or was cancelled.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            quote_id: {
+              type: "string",
+              description: "Quote ID from create_transfer_quote (format: QTE-X)"
+            },
+            idempotency_key: {
+              type: "string",
+              description: "Optional: a unique key for this transfer request (e.g. a UUID). Reuse the same key when retrying so the transfer is never sent twice."
+            },
+          },
+          required: ["quote_id"],
+        },
+        _meta: {
+          "openai/outputTemplate": "component://transfer-receipt",
+          "openai/toolInvocation": {
+            invoking: "Sending your transfer...",
+            invoked: "Transfer confirmed!"
+          },
+          readOnlyHint: false,
+          destructiveHint: false
+        }
+      },
+      {
+        name: "cancel_transfer_quote",
+        description: "Discard a transfer quote the user doesn't want to send. Use when the user declines a quote: 'cancel', 'never mind', 'don't send it'.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            quote_id: {
+              type: "string",
+              description: "Quote ID from create_transfer_quote (format: QTE-X)"
+            }
+          },
+          required: ["quote_id"],
+        },
+        _meta: {
+          "openai/outputTemplate": "component://transfer-receipt",
+          "openai/toolInvocation": {
+            invoking: "Cancelling quote...",
+            invoked: "Quote cancelled"
+          },
+          readOnlyHint: false
+        }
+      },
+      {
+        name: "get_exchange_rate",
+        description: "Get current exchange rate, check conversion rate, see how much currency you'll get, or compare rates. Use when user asks 'what's the exchange rate', 'how much is X in Y', 'rate for [currency]', 'USD to [currency]', 'exchange rate', 'conversion rate', 'how much will they receive', 'what's the rate', or wants to see rates for all countries/currencies. Provides live rates updated hourly with fee information and estimated delivery times. The plain rate is the indicative mid-market rate; pass an amount (or recipient_amount) for the rate, fee and recipient amount a transfer would actually get.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            to_currency: {
+              type: "string",
+              description: "Destination currency code (MXN, GTQ, HNL, DOP, COP, PEN, etc.)"
+            },
+            from_currency: {
+              type: "string",
+              description: "Optional: currency to convert from (default USD)",
+              enum: SOURCE_CURRENCIES
+            },
+            amount: {
+              type: "number",
+              description: "Optional: an amount to send, in from_currency, to price exactly - fee, the rate it would convert at (a Wise quote in real mode) and what the recipient gets"
+            },
+            recipient_amount: {
+              type: "number",
+              description: "Optional: an amount the recipient should get, in to_currency, to show how much has to be sent for it (fee included)"
+            },
+            to_country: {
+              type: "string",
+              description: "Destination country name (optional, helps determine delivery time)"
+            }
+          },
+          required: ["to_currency"],
+        },
+        _meta: {
+          "openai/outputTemplate": "component://exchange-rate",
+          "openai/toolInvocation": {
+            invoking: "Fetching live exchange rates...",
+            invoked: "Exchange rate retrieved"
+          },
+          readOnlyHint: true
+        }
+      },
+      {
+        name: "check_transfer_status",
+        description: "Check status, track transfer, verify delivery, or get updates on any transfer. Use when user asks 'check the transfer status', 'where is my money', 'has it arrived', 'track my transfer', 'check transfer', 'status of transfer', or similar status inquiries. Returns current status, delivery progress, and estimated arrival time.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            transfer_id: {
+              type: "string",
+              description: "Transfer ID (format: TXN-XXXX)"
+            },
+          },
+          required: ["transfer_id"],
+        },
+        _meta: {
+          "openai/outputTemplate": "component://transfer-receipt",
+          "openai/toolInvocation": {
+            invoking: "Checking transfer status...",
             invoked: "Status updated"
           },
           readOnlyHint: true
         }
       },
+      {
+        name: "cancel_transfer",
+        description: "Cancel a transfer the user already sent, e.g. 'cancel that transfer', 'I sent it to the wrong person', 'stop the transfer'. Only works while the transfer is still pending - once it is processing the money can't be recalled. Reports whether and how the money is refunded.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            transfer_id: {
+              type: "string",
+              description: "Transfer ID (format: TXN-XXXX)"
+            }
+          },
+          required: ["transfer_id"],
+        },
+        _meta: {
+          "openai/outputTemplate": "component://transfer-receipt",
+          "openai/toolInvocation": {
+            invoking: "Cancelling transfer...",
+            invoked: "Transfer cancelled"
+          },
+          readOnlyHint: false,
+          destructiveHint: true
+        }
+      },
       {
         name: "get_transfer_history",
         description: "View transfer history, see past transfers, show all transfers, get transaction list, check previous payments, or keep a running list. Use when user asks 'show my history', 'what transfers did I make', 'list my transfers', 'transfer history', 'past transactions', 'what did I send', 'show all transfers', 'can you keep a running list', 'track my transfers', 'log of transfers', or wants to see any log/list/history of their transfers. IMPORTANT: This retrieves EXISTING stored transfers - all transfer data is already saved and available. Shows all transfers with their status, amounts, recipients, and dates.",
@@ -2209,6 +4383,21 @@ User requests like "Can you keep a running list..." mean "show me what's already
           readOnlyHint: true
         }
       },
+      {
+        name: "get_limits",
+        description: "Show the user's transfer limits and how much they can still send. Use when user asks 'what are my limits', 'how much can I send', 'daily limit', 'monthly limit', 'why was my transfer blocked', or wants to know their remaining sending allowance. Reports used and remaining amounts for the rolling 24-hour and 30-day windows.",
+        inputSchema: {
+          type: "object",
+          properties: {},
+        },
+        _meta: {
+          "openai/toolInvocation": {
+            invoking: "Checking your limits...",
+            invoked: "Limits retrieved"
+          },
+          readOnlyHint: true
+        }
+      },
       {
         name: "add_recipient",
         description: "Use this when the user wants to save, add, or remember a recipient for future transfers. Captures phrases like 'save Maria as a recipient', 'add my mom', 'remember John in Mexico', 'save this person', or any variation of saving contact information for sending money later.",
@@ -2226,6 +4415,28 @@ User requests like "Can you keep a running list..." mean "show me what's already
             currency: {
               type: "string",
               description: "Recipient's currency code (optional, can be inferred from country)"
+            },
+            phone: {
+              type: "string",
+              description: "Optional: Recipient's phone number"
+            },
+            email: {
+              type: "string",
+              description: "Optional: Recipient's email address"
+            },
+            relationship: {
+              type: "string",
+              description: "Optional: How the user knows them (e.g. 'Family', 'Friend', 'Business'). Defaults to 'Other'."
+            },
+            bank_details: {
+              type: "object",
+              description: "Optional: The recipient's bank details, keyed by field name as send_money asks for them (e.g. {\"clabe\": \"...\"}). Saved as their default payout account so future transfers don't need them again.",
+              properties: knownBankDetailProperties(),
+              additionalProperties: { type: "string" }
+            },
+            account_label: {
+              type: "string",
+              description: "Optional: A name for this bank account (e.g. 'Banorte savings')"
             }
           },
           required: ["name", "country"],
@@ -2277,6 +4488,68 @@ User requests like "Can you keep a running list..." mean "show me what's already
           readOnlyHint: false
         }
       },
+      {
+        name: "add_payout_account",
+        description: "Save another bank account for a saved recipient, or their first one. Use when the user gives bank details for someone they've already saved: 'save Maria's CLABE', 'add another account for Mom', 'she has a new bank account'. Bank details are checked before they're saved.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            recipient_id: {
+              type: "string",
+              description: "The saved recipient's ID (from list_recipients)"
+            },
+            bank_details: {
+              type: "object",
+              description: "The bank details as named fields, as listed by get_recipient_form (e.g. {\"iban\": \"...\"})",
+              properties: knownBankDetailProperties(),
+              additionalProperties: { type: "string" }
+            },
+            label: {
+              type: "string",
+              description: "Optional: A name for this account (e.g. 'Nubank checking')"
+            },
+            make_default: {
+              type: "boolean",
+              description: "Optional: Use this account for future transfers to this recipient. Their first account is always the default."
+            }
+          },
+          required: ["recipient_id", "bank_details"],
+        },
+        _meta: {
+          "openai/outputTemplate": "component://recipient-management",
+          "openai/toolInvocation": {
+            invoking: "Saving bank account...",
+            invoked: "Bank account saved"
+          },
+          readOnlyHint: false
+        }
+      },
+      {
+        name: "set_default_payout_account",
+        description: "Choose which of a saved recipient's bank accounts transfers go to by default. Use when the user says 'send to her other account from now on', 'make the Banorte account the default', or similar.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            recipient_id: {
+              type: "string",
+              description: "The saved recipient's ID"
+            },
+            account_id: {
+              type: "string",
+              description: "The payout account's ID (from list_recipients)"
+            }
+          },
+          required: ["recipient_id", "account_id"],
+        },
+        _meta: {
+          "openai/outputTemplate": "component://recipient-management",
+          "openai/toolInvocation": {
+            invoking: "Updating default account...",
+            invoked: "Default account updated"
+          },
+          readOnlyHint: false
+        }
+      },
       {
         name: "schedule_transfer",
         description: "Use this when the user wants to set up recurring, scheduled, automatic, or repeated transfers. Captures phrases like 'send $100 every month', 'schedule monthly payment', 'set up recurring transfer', 'automatically send money weekly', 'pay my rent every month', or any variation of setting up automatic recurring payments.",
@@ -2285,7 +4558,16 @@ User requests like "Can you keep a running list..." mean "show me what's already
           properties: {
             amount: {
               type: "number",
-              description: "Amount to send per transfer"
+              description: "Amount to send per transfer, in from_currency"
+            },
+            recipient_amount: {
+              type: "number",
+              description: "Optional, instead of amount: exactly what the recipient gets each time, in the destination currency. The amount sent then follows the exchange rate."
+            },
+            from_currency: {
+              type: "string",
+              description: "Optional: currency each transfer is funded from (default USD)",
+              enum: SOURCE_CURRENCIES
             },
             to_country: {
               type: "string",
@@ -2297,15 +4579,31 @@ User requests like "Can you keep a running list..." mean "show me what's already
             },
             frequency: {
               type: "string",
-              description: "Frequency of transfers",
-              enum: ["weekly", "bi-weekly", "monthly", "quarterly"]
+              description: "How often to send: weekly, bi-weekly, monthly or quarterly (repeating from the start date), 1st-and-15th of each month, last-business-day of each month, or payday-friday (every other Friday)",
+              enum: ["weekly", "bi-weekly", "monthly", "quarterly", "1st-and-15th", "last-business-day", "payday-friday"]
+            },
+            rrule: {
+              type: "string",
+              description: "Optional: a custom iCalendar RRULE instead of frequency, e.g. 'FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1' for the last Friday of each month. Supports FREQ, INTERVAL, BYDAY, BYMONTHDAY, BYSETPOS, COUNT and UNTIL."
             },
             start_date: {
               type: "string",
-              description: "When to start (optional, defaults to next occurrence)"
+              description: "When to start (optional, defaults to now). A date without a time means 9:00 in the schedule's time zone."
+            },
+            end_date: {
+              type: "string",
+              description: "Optional: last date a payment may be sent (ISO date, e.g. 2026-12-31)"
+            },
+            max_occurrences: {
+              type: "number",
+              description: "Optional: stop after this many payments"
+            },
+            timezone: {
+              type: "string",
+              description: "Optional: IANA time zone the dates are in, e.g. America/New_York (defaults to UTC)"
             }
           },
-          required: ["amount", "to_country", "recipient_name", "frequency"],
+          required: ["to_country", "recipient_name"],
         },
         _meta: {
           "openai/outputTemplate": "component://scheduled-transfers",
@@ -2355,1117 +4653,2869 @@ User requests like "Can you keep a running list..." mean "show me what's already
         }
       },
       {
-        name: "send_again",
-        description: "Quick action to repeat the last transfer to a specific recipient. Use when user says 'send again', 'repeat last transfer', 'send same amount to [name]', 'do it again', or wants to quickly repeat a recent transfer without specifying all details again.",
+        name: "pause_scheduled_transfer",
+        description: "Use this when the user wants to temporarily pause, hold, or suspend a scheduled or recurring transfer without cancelling it. Captures phrases like 'pause my monthly payment', 'hold the transfers to Maria', 'stop it for now', or 'put my recurring transfer on hold'.",
         inputSchema: {
           type: "object",
           properties: {
-            recipient_name: {
+            schedule_id: {
               type: "string",
-              description: "Name of the recipient to send to again (optional - if not provided, uses last overall transfer)"
+              description: "The unique ID of the scheduled transfer to pause"
             }
           },
+          required: ["schedule_id"],
         },
         _meta: {
-          "openai/outputTemplate": "component://transfer-receipt",
+          "openai/outputTemplate": "component://scheduled-transfers",
           "openai/toolInvocation": {
-            invoking: "Repeating transfer...",
-            invoked: "Transfer sent again!"
+            invoking: "Pausing scheduled transfer...",
+            invoked: "Schedule paused"
           },
           readOnlyHint: false
         }
       },
       {
-        name: "quick_send",
-        description: "Super fast sending to recent or favorite recipients with minimal friction. Use when user says 'quick send', 'fast send', 'send [amount] to [name]' without full details, or wants instant transfer to someone they've sent to before.",
+        name: "resume_scheduled_transfer",
+        description: "Use this when the user wants to resume, restart, or unpause a paused scheduled transfer (including one paused automatically after failed payments). Captures phrases like 'resume my monthly payment', 'start the transfers to Maria again', or 'unpause'.",
         inputSchema: {
           type: "object",
           properties: {
-            recipient_name: {
+            schedule_id: {
               type: "string",
-              description: "Name of the recipient"
-            },
-            amount: {
-              type: "number",
-              description: "Amount to send in USD"
+              description: "The unique ID of the scheduled transfer to resume"
             }
           },
-          required: ["recipient_name", "amount"],
+          required: ["schedule_id"],
         },
         _meta: {
-          "openai/outputTemplate": "component://transfer-receipt",
+          "openai/outputTemplate": "component://scheduled-transfers",
           "openai/toolInvocation": {
-            invoking: "Quick sending...",
-            invoked: "Sent instantly!"
+            invoking: "Resuming scheduled transfer...",
+            invoked: "Schedule resumed"
           },
           readOnlyHint: false
         }
       },
       {
-        name: "compare_rates",
-        description: "Compare MyBambu exchange rates and fees against competitors like Western Union, MoneyGram, Remitly, Wise, and Xoom. Use when user asks 'compare rates', 'how do your rates compare', 'am I getting a good deal', 'MyBambu vs Western Union', or wants to see rate comparisons.",
+        name: "update_scheduled_transfer",
+        description: "Use this when the user wants to change an existing scheduled transfer - its amount, frequency, next payment date or end date - while keeping its history. Captures phrases like 'change my monthly payment to $200', 'make it every two weeks', 'move the next payment to Friday', or 'stop it after December'.",
         inputSchema: {
           type: "object",
           properties: {
-            to_country: {
+            schedule_id: {
               type: "string",
-              description: "Destination country to compare rates for"
+              description: "The unique ID of the scheduled transfer to change"
             },
             amount: {
               type: "number",
-              description: "Amount in USD to compare (optional, defaults to $100)"
+              description: "Optional: new amount per transfer in USD"
+            },
+            frequency: {
+              type: "string",
+              description: "Optional: new frequency",
+              enum: ["weekly", "bi-weekly", "monthly", "quarterly", "1st-and-15th", "last-business-day", "payday-friday"]
+            },
+            max_occurrences: {
+              type: "number",
+              description: "Optional: stop after this many payments in total. Pass 0 to remove the limit."
+            },
+            next_execution_date: {
+              type: "string",
+              description: "Optional: date of the next payment (ISO date); later payments follow the frequency from there"
+            },
+            end_date: {
+              type: "string",
+              description: "Optional: last date a payment may be sent (ISO date). Pass an empty string to remove the end date."
             }
           },
-          required: ["to_country"],
+          required: ["schedule_id"],
         },
         _meta: {
-          "openai/outputTemplate": "component://rate-comparison",
+          "openai/outputTemplate": "component://scheduled-transfers",
           "openai/toolInvocation": {
-            invoking: "Comparing rates across providers...",
-            invoked: "Rate comparison ready"
+            invoking: "Updating scheduled transfer...",
+            invoked: "Schedule updated"
           },
-          readOnlyHint: true
+          readOnlyHint: false
         }
       },
       {
-        name: "get_spending_analytics",
-        description: "Show spending breakdown and analytics with charts, trends, and insights. Use when user asks 'show my spending', 'analytics', 'breakdown by country', 'how much have I sent', 'spending report', 'transfer trends', or wants visual insights into their transfer history.",
+        name: "skip_next_execution",
+        description: "Use this when the user wants to skip only the next payment of a scheduled transfer and keep the rest. Captures phrases like 'skip this month', 'skip the next payment to Maria', or 'don't send it this week'.",
         inputSchema: {
           type: "object",
           properties: {
-            period: {
+            schedule_id: {
               type: "string",
-              description: "Time period for analytics",
-              enum: ["week", "month", "quarter", "year", "all-time"]
+              description: "The unique ID of the scheduled transfer whose next payment should be skipped"
             }
           },
+          required: ["schedule_id"],
         },
         _meta: {
-          "openai/outputTemplate": "component://spending-analytics",
+          "openai/outputTemplate": "component://scheduled-transfers",
           "openai/toolInvocation": {
-            invoking: "Analyzing your transfers...",
-            invoked: "Analytics ready"
+            invoking: "Skipping next payment...",
+            invoked: "Next payment skipped"
           },
-          readOnlyHint: true
+          readOnlyHint: false
         }
-      }
+      },
+      {
+        name: "send_again",
+        description: "Quick action to repeat the last transfer to a specific recipient. Use when user says 'send again', 'repeat last transfer', 'send same amount to [name]', 'do it again', or wants to quickly repeat a recent transfer without specifying all details again.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            recipient_name: {
+              type: "string",
+              description: "Name of the recipient to send to again (optional - if not provided, uses last overall transfer)"
+            },
+            idempotency_key: {
+              type: "string",
+              description: "Optional: a unique key for this transfer request (e.g. a UUID). Reuse the same key when retrying so the transfer is never sent twice."
+            },
+          },
+        },
+        _meta: {
+          "openai/outputTemplate": "component://transfer-receipt",
+          "openai/toolInvocation": {
+            invoking: "Repeating transfer...",
+            invoked: "Transfer sent again!"
+          },
+          readOnlyHint: false
+        }
+      },
+      {
+        name: "quick_send",
+        description: "Super fast sending to recent or favorite recipients with minimal friction. Use when user says 'quick send', 'fast send', 'send [amount] to [name]' without full details, or wants instant transfer to someone they've sent to before.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            recipient_name: {
+              type: "string",
+              description: "Name of the recipient"
+            },
+            amount: {
+              type: "number",
+              description: "Amount to send in USD"
+            },
+            account_id: {
+              type: "string",
+              description: "Optional: Which of the recipient's saved payout accounts to send to. Defaults to their default account."
+            },
+            idempotency_key: {
+              type: "string",
+              description: "Optional: a unique key for this transfer request (e.g. a UUID). Reuse the same key when retrying so the transfer is never sent twice."
+            },
+          },
+          required: ["recipient_name", "amount"],
+        },
+        _meta: {
+          "openai/outputTemplate": "component://transfer-receipt",
+          "openai/toolInvocation": {
+            invoking: "Quick sending...",
+            invoked: "Sent instantly!"
+          },
+          readOnlyHint: false
+        }
+      },
+      {
+        name: "compare_rates",
+        description: "Compare MyBambu exchange rates and fees against competitors like Western Union, MoneyGram, Remitly, Wise, and Xoom. Use when user asks 'compare rates', 'how do your rates compare', 'am I getting a good deal', 'MyBambu vs Western Union', or wants to see rate comparisons.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            to_country: {
+              type: "string",
+              description: "Destination country to compare rates for"
+            },
+            amount: {
+              type: "number",
+              description: "Amount to compare, in from_currency (optional, defaults to 100)"
+            },
+            from_currency: {
+              type: "string",
+              description: "Optional: currency the transfer would be sent from (default USD)",
+              enum: SOURCE_CURRENCIES
+            }
+          },
+          required: ["to_country"],
+        },
+        _meta: {
+          "openai/outputTemplate": "component://rate-comparison",
+          "openai/toolInvocation": {
+            invoking: "Comparing rates across providers...",
+            invoked: "Rate comparison ready"
+          },
+          readOnlyHint: true
+        }
+      },
+      {
+        name: "get_rate_history",
+        description: "Show how an exchange rate has moved over the last 7, 30 or 90 days, with the low, high and average and where today's rate sits in that range. Use when user asks 'is today a good day to send', 'should I send now or wait', 'how has the peso moved', 'rate history', 'rate trend', 'has the rate gone up', or wants to see a rate chart.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            to_currency: {
+              type: "string",
+              description: "Destination currency code (MXN, GTQ, HNL, DOP, COP, PEN, etc.)"
+            },
+            to_country: {
+              type: "string",
+              description: "Destination country name (instead of to_currency)"
+            },
+            from_currency: {
+              type: "string",
+              description: "Optional: currency the transfer would be sent from (default USD)",
+              enum: SOURCE_CURRENCIES
+            },
+            days: {
+              type: "number",
+              description: "How far back to look, in days (default 30)",
+              enum: HISTORY_PERIODS
+            }
+          }
+        },
+        _meta: {
+          "openai/outputTemplate": "component://rate-history",
+          "openai/toolInvocation": {
+            invoking: "Looking up rate history...",
+            invoked: "Rate history ready"
+          },
+          readOnlyHint: true
+        }
+      },
+      {
+        name: "create_rate_alert",
+        description: "Set an alert for when an exchange rate reaches a target. Use when user says 'tell me when the peso hits 19', 'alert me if the rate goes above/below X', 'let me know when it's a good rate', 'notify me when the rate drops'. The user sees the alert the next time they use MyBambu after it fires, and by email or SMS when they give an address or number.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            to_currency: {
+              type: "string",
+              description: "Destination currency code (MXN, GTQ, HNL, DOP, COP, PEN, etc.)"
+            },
+            to_country: {
+              type: "string",
+              description: "Destination country name (instead of to_currency)"
+            },
+            from_currency: {
+              type: "string",
+              description: "Optional: currency the transfer would be sent from (default USD)",
+              enum: SOURCE_CURRENCIES
+            },
+            target_rate: {
+              type: "number",
+              description: "The rate to watch for, in to_currency per 1 from_currency (e.g. 19 for 19 pesos per dollar)"
+            },
+            direction: {
+              type: "string",
+              description: "Optional: fire when the rate goes above (at or over) or below (at or under) the target. Defaults to the side the target is on from today's rate.",
+              enum: ["above", "below"]
+            },
+            email: {
+              type: "string",
+              description: "Optional: email address to notify when the alert fires"
+            },
+            phone: {
+              type: "string",
+              description: "Optional: phone number to text when the alert fires"
+            }
+          },
+          required: ["target_rate"]
+        },
+        _meta: {
+          "openai/toolInvocation": {
+            invoking: "Setting rate alert...",
+            invoked: "Rate alert set"
+          },
+          readOnlyHint: false
+        }
+      },
+      {
+        name: "list_rate_alerts",
+        description: "List the user's rate alerts, with today's rate for each. Use when user asks 'show my rate alerts', 'what alerts do I have', 'did my alert go off'.",
+        inputSchema: {
+          type: "object",
+          properties: {}
+        },
+        _meta: {
+          "openai/toolInvocation": {
+            invoking: "Loading rate alerts...",
+            invoked: "Rate alerts loaded"
+          },
+          readOnlyHint: true
+        }
+      },
+      {
+        name: "delete_rate_alert",
+        description: "Delete a rate alert. Use when user says 'cancel my peso alert', 'remove that alert', 'stop watching the rate'.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            alert_id: {
+              type: "string",
+              description: "Alert ID (format: ALERT-X, from list_rate_alerts)"
+            }
+          },
+          required: ["alert_id"]
+        },
+        _meta: {
+          "openai/toolInvocation": {
+            invoking: "Deleting rate alert...",
+            invoked: "Rate alert deleted"
+          },
+          readOnlyHint: false
+        }
+      },
+      {
+        name: "create_limit_order",
+        description: "Park a transfer that sends itself when the exchange rate is good: as soon as the rate reaches a target, or at the best rate before a deadline. Use when user says 'send $500 to Maria when the peso hits 19', 'send it when the rate gets better', 'send by Friday at the best rate', 'wait for a better rate then send'. Nothing is charged until it sends.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            amount: {
+              type: "number",
+              description: "Amount to send, in from_currency"
+            },
+            from_currency: {
+              type: "string",
+              description: "Optional: currency the transfer is funded from (default USD)",
+              enum: SOURCE_CURRENCIES
+            },
+            recipient_id: {
+              type: "string",
+              description: "Optional: a saved recipient's ID (from list_recipients)"
+            },
+            account_id: {
+              type: "string",
+              description: "Optional: which of the saved recipient's payout accounts to pay (default: their default account)"
+            },
+            recipient_name: {
+              type: "string",
+              description: "Recipient's name (when not using recipient_id)"
+            },
+            to_country: {
+              type: "string",
+              description: "Destination country (when not using recipient_id)"
+            },
+            target_rate: {
+              type: "number",
+              description: "Optional: send as soon as 1 from_currency buys at least this much of the destination currency (e.g. 19 for 19 pesos per dollar)"
+            },
+            deadline: {
+              type: "string",
+              description: `Optional with target_rate: the order expires unsent if the rate hasn't reached the target by then (default ${DEFAULT_LIMIT_ORDER_DAYS} days). Without target_rate: send by then at the best rate seen. ISO date or date-time, at most ${MAX_LIMIT_ORDER_DAYS} days ahead; a date means the end of that day.`
+            },
+            timezone: {
+              type: "string",
+              description: "Optional: IANA time zone the deadline is in, e.g. America/New_York (defaults to UTC)"
+            }
+          },
+          required: ["amount"]
+        },
+        _meta: {
+          "openai/toolInvocation": {
+            invoking: "Placing limit order...",
+            invoked: "Limit order placed"
+          },
+          readOnlyHint: false
+        }
+      },
+      {
+        name: "list_limit_orders",
+        description: "List the user's limit orders (transfers waiting for a rate), with today's rate and what happened to finished ones. Use when user asks 'show my limit orders', 'what transfers are waiting for a rate', 'did my order go through'.",
+        inputSchema: {
+          type: "object",
+          properties: {}
+        },
+        _meta: {
+          "openai/toolInvocation": {
+            invoking: "Loading limit orders...",
+            invoked: "Limit orders loaded"
+          },
+          readOnlyHint: true
+        }
+      },
+      {
+        name: "cancel_limit_order",
+        description: "Cancel an open limit order so it is never sent. Use when user says 'cancel my limit order', 'don't send it after all', 'stop waiting for the rate'.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            order_id: {
+              type: "string",
+              description: "Limit order ID (format: LMT-X, from list_limit_orders)"
+            }
+          },
+          required: ["order_id"]
+        },
+        _meta: {
+          "openai/toolInvocation": {
+            invoking: "Cancelling limit order...",
+            invoked: "Limit order cancelled"
+          },
+          readOnlyHint: false
+        }
+      },
+      {
+        name: "get_spending_analytics",
+        description: "Show spending breakdown and analytics with charts, trends, and insights. Use when user asks 'show my spending', 'analytics', 'breakdown by country', 'how much have I sent', 'spending report', 'transfer trends', or wants visual insights into their transfer history.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            period: {
+              type: "string",
+              description: "Time period for analytics",
+              enum: ["week", "month", "quarter", "year", "all-time"]
+            },
+            reporting_currency: {
+              type: "string",
+              description: "Optional: currency to report totals in (default USD). Transfers sent from other currencies are converted at today's rates.",
+              enum: SOURCE_CURRENCIES
+            }
+          },
+        },
+        _meta: {
+          "openai/outputTemplate": "component://spending-analytics",
+          "openai/toolInvocation": {
+            invoking: "Analyzing your transfers...",
+            invoked: "Analytics ready"
+          },
+          readOnlyHint: true
+        }
+      }
     ],
   }));
 
   // Handle tool calls
-  server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
-    const toolName = request.params.name;
-    const args = request.params.arguments ?? {};
-
+  async function handleToolCall(toolName: string, args: Record<string, unknown>, storage: Storage): Promise<any> {
     // TOOL: send_money
     if (toolName === "send_money") {
       const rawArgs = args as any;
 
-      // Accept both parameter naming conventions
-      const amount = rawArgs.amount;
-      const to_country = rawArgs.to_country || rawArgs.recipient_country;
-      const recipient_name = rawArgs.recipient_name;
-      const recipient_data = rawArgs.recipient_data || {};
-
-      // Map generic fields to bank_details (bypass moderation with generic names)
-      const bank_details: any = {
-        accountNumber: recipient_data.field1,
-        sortCode: recipient_data.field2,
-        cpf: recipient_data.field3,
-        bankCode: recipient_data.field4,
-        phoneNumber: recipient_data.field5,
-        idDocumentNumber: recipient_data.field6,
-        city: recipient_data.field7,
-        address: recipient_data.field8,
-        postCode: recipient_data.field9,
-        accountType: recipient_data.field2 || 'SAVINGS',  // Can also be used for account type
-        clabe: recipient_data.field1,  // Mexico uses field1
-        iban: recipient_data.field1    // Europe uses field1
-      };
+      // The amount to send depends on the rate when it's set by what the recipient gets,
+      // so that goes through a quote the user confirms first
+      if (rawArgs.recipient_amount !== undefined) {
+        return handleToolCall("create_transfer_quote", args, storage);
+      }
+
+      const prepared = await prepareTransfer(storage, rawArgs, toolName);
+      if ('isError' in prepared) {
+        return prepared;
+      }
+      const { amount, fromCurrency, corridor, recipientName: recipient_name, bankDetails: bank_details, recipient, rate } = prepared;
+
+      // Calculate fees (in the source currency)
+      const feeAmount = calculateFee(amount, prepared.usdRate);
+      const netAmount = amount - feeAmount;
+
+      const { transfer, mybambuResponse } = await executeTransfer(storage, {
+        amount,
+        fee: feeAmount,
+        fromCurrency,
+        amountUsd: prepared.amountUsd,
+        corridor,
+        recipientName: recipient_name,
+        bankDetails: bank_details,
+        recipient,
+        savedAccount: prepared.savedAccount,
+        rate,
+        // Reusing the idempotency key lets Wise reject duplicate transfers too
+        customerTransactionId: rawArgs.idempotency_key
+          ? customerTransactionIdFor(ownerId, String(rawArgs.idempotency_key))
+          : undefined,
+        recordFields: prepared.recordFields
+      });
+      if (isFailedTransfer(transfer)) {
+        return failedTransferResult(transfer);
+      }
+      const recipientAmount = transfer.recipient_amount;
+
+      // Return structured response with widget
+      return {
+        content: [{
+          type: "text",
+          text: `✅ Transfer initiated! ${recipient_name} in ${corridor.country} will receive ${recipientAmount.toFixed(2)} ${corridor.currency}.\n⏱️ Estimated delivery: ${corridor.deliveryTime}.\n🆔 Transfer ID: ${transfer.id}` + fundingNote(transfer)
+        }],
+        structuredContent: presentTransfer(transfer),
+        _meta: {
+          "openai/outputTemplate": "component://transfer-receipt",
+          mybambuResponse,
+          feeBreakdown: {
+            baseAmount: amount,
+            currency: fromCurrency,
+            feePercentage: transferLimits.fees.standard,
+            feeAmount,
+            netAmount,
+            exchangeRate: rate,
+            finalAmount: recipientAmount
+          }
+        }
+      };
+    }
+
+    // TOOL: create_transfer_quote
+    if (toolName === "create_transfer_quote") {
+      const prepared = await prepareTransfer(storage, args, toolName);
+      if ('isError' in prepared) {
+        return prepared;
+      }
+      const { amount, fromCurrency, corridor, recipientName, bankDetails, recipient, rate } = prepared;
+
+      const feeAmount = calculateFee(amount, prepared.usdRate);
+      const netAmount = amount - feeAmount;
+      let exchangeRate = rate;
+      let recipientAmount = prepared.recipientAmount ?? netAmount * rate;
+      let expiresAt = new Date(Date.now() + QUOTE_DURATION).toISOString();
+      // Target-amount transfers were already priced by a Wise quote in real mode
+      let wiseQuote = prepared.wiseQuote;
+
+      if (wiseQuote) {
+        exchangeRate = wiseQuote.rate;
+        recipientAmount = wiseQuote.targetAmount;
+        if (wiseQuote.expiresAt) {
+          expiresAt = new Date(wiseQuote.expiresAt).toISOString();
+        }
+      } else if (useRealAPI) {
+        // In real mode the price comes from a Wise quote, which is what the transfer will execute against
+        try {
+          const wiseService = getWiseService();
+          wiseQuote = wiseService.summarizeQuote(await wiseService.createQuote({
+            sourceCurrency: fromCurrency,
+            targetCurrency: corridor.currency,
+            sourceAmount: netAmount
+          }));
+          exchangeRate = wiseQuote.rate;
+          recipientAmount = wiseQuote.targetAmount;
+          if (wiseQuote.expiresAt) {
+            expiresAt = new Date(wiseQuote.expiresAt).toISOString();
+          }
+        } catch (error: any) {
+          return {
+            content: [{
+              type: "text",
+              text: `❌ Couldn't get a quote from our payment partner right now: ${error.message}. Please try again in a moment.`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      const quote = {
+        id: `QTE-${await storage.nextId('quote')}`,
+        type: 'quote',
+        status: 'pending',
+        from_currency: fromCurrency,
+        to_currency: corridor.currency,
+        amount,
+        amount_usd: Math.round(prepared.amountUsd * 100) / 100,
+        fee: feeAmount,
+        net_amount: netAmount,
+        exchange_rate: exchangeRate,
+        recipient_amount: recipientAmount,
+        recipient_name: recipientName,
+        recipient_country: corridor.country,
+        delivery_time: corridor.deliveryTime,
+        expires_at: expiresAt,
+        created_at: new Date().toISOString(),
+        is_real_quote: !!wiseQuote,
+        wise_quote: wiseQuote || null,
+        bank_details: bankDetails,
+        wise_recipient: recipient || null,
+        ...prepared.recordFields
+      };
+
+      await storage.quotes.save(quote);
+
+      // A Wise quote is always current; a demo quote uses our cached mid-market rate
+      const rateWarning = wiseQuote ? '' : staleRateWarning(rateFreshness(await fetchExchangeRates(), fromCurrency, corridor.currency));
+
+      return {
+        content: [{
+          type: "text",
+          text: `🧾 Quote ${quote.id} - please review before sending:\n\n` +
+            `💵 You send: ${formatMoney(amount, fromCurrency)} ${fromCurrency}\n` +
+            `💸 Fee: ${formatMoney(feeAmount, fromCurrency)}\n` +
+            `💱 Rate: 1 ${fromCurrency} = ${exchangeRate.toFixed(4)} ${corridor.currency}${rateWarning}\n` +
+            `🎯 ${recipientName} receives${prepared.recipientAmount !== undefined ? ' exactly' : ''}: ${recipientAmount.toFixed(2)} ${corridor.currency}\n` +
+            `⏳ Valid until: ${new Date(expiresAt).toLocaleTimeString()}\n\n` +
+            `Nothing has been sent yet. Ask the user to confirm, then call confirm_transfer with quote_id "${quote.id}".`
+        }],
+        structuredContent: publicQuote(quote),
+        _meta: {
+          "openai/outputTemplate": "component://transfer-receipt",
+          quoteId: quote.id,
+          expiresAt
+        }
+      };
+    }
+
+    // TOOL: confirm_transfer
+    if (toolName === "confirm_transfer") {
+      const { quote_id, idempotency_key } = args as any;
+
+      const quote = await storage.quotes.get(quote_id);
+
+      if (!quote) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Quote not found: ${quote_id}. Create a new quote with create_transfer_quote.`
+          }],
+          isError: true
+        };
+      }
+
+      // Confirming twice (e.g. a double click) returns the transfer that was already sent
+      if (quote.status === 'confirmed' || quote.status === 'confirming') {
+        const existing = quote.transfer_id ? await storage.transfers.get(quote.transfer_id) : null;
+        if (existing) {
+          return {
+            content: [{
+              type: "text",
+              text: `✅ Quote ${quote.id} was already confirmed. Transfer ID: ${existing.id}`
+            }],
+            structuredContent: presentTransfer(existing),
+            _meta: {
+              "openai/outputTemplate": "component://transfer-receipt",
+              quoteId: quote.id
+            }
+          };
+        }
+        return {
+          content: [{
+            type: "text",
+            text: `⏳ Quote ${quote.id} is already being sent. Check your transfer history in a moment.`
+          }],
+          isError: true
+        };
+      }
+
+      if (quote.status !== 'pending') {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Quote ${quote.id} is ${quote.status} and can't be sent. Create a new quote with create_transfer_quote.`
+          }],
+          isError: true
+        };
+      }
+
+      if (new Date(quote.expires_at).getTime() <= Date.now()) {
+        quote.status = 'expired';
+        await storage.quotes.save(quote);
+        return {
+          content: [{
+            type: "text",
+            text: `⏰ Quote ${quote.id} expired at ${new Date(quote.expires_at).toLocaleTimeString()}. Rates move, so please create a new quote.`
+          }],
+          structuredContent: publicQuote(quote),
+          isError: true
+        };
+      }
+
+      // Limits are checked again: other transfers may have been sent since the quote
+      const fromCurrency = quote.from_currency || 'USD';
+      const limitError = await enforceTransferLimits(storage, quote.amount_usd ?? quote.amount,
+        fromCurrency === 'USD' ? undefined : formatMoney(quote.amount, fromCurrency));
+      if (limitError) {
+        return limitError;
+      }
+
+      // Claim the quote so a concurrent confirm can't send it a second time
+      quote.status = 'confirming';
+      if (!(await storage.quotes.saveIfUnchanged(quote))) {
+        return {
+          content: [{
+            type: "text",
+            text: `⏳ Quote ${quote.id} is already being processed. Check your transfer history in a moment.`
+          }],
+          isError: true
+        };
+      }
+
+      const corridor = SUPPORTED_CORRIDORS.find(c => c.country === quote.recipient_country)!;
+
+      // The saved account the quote was for, if it still exists
+      const savedRecipient = quote.recipient_id ? await storage.recipients.get(quote.recipient_id) : null;
+      const savedAccount = savedRecipient && quote.payout_account_id
+        ? findPayoutAccount(savedRecipient, quote.payout_account_id)
+        : null;
+
+      let result;
+      try {
+        result = await executeTransfer(storage, {
+          amount: quote.amount,
+          fee: quote.fee,
+          fromCurrency,
+          amountUsd: quote.amount_usd ?? quote.amount,
+          corridor,
+          recipientName: quote.recipient_name,
+          bankDetails: quote.bank_details || {},
+          recipient: quote.wise_recipient || undefined,
+          savedAccount: savedAccount ? { recipientId: savedRecipient!.id, account: savedAccount } : undefined,
+          rate: quote.exchange_rate,
+          customerTransactionId: idempotency_key
+            ? customerTransactionIdFor(ownerId, String(idempotency_key))
+            : undefined,
+          wiseQuote: quote.wise_quote || undefined,
+          recipientAmount: quote.recipient_amount,
+          recordFields: quote.recipient_id
+            ? { recipient_id: quote.recipient_id, ...(quote.payout_account_id ? { payout_account_id: quote.payout_account_id } : {}) }
+            : undefined
+        });
+      } catch (error) {
+        quote.status = 'pending';
+        await storage.quotes.save(quote);
+        throw error;
+      }
+
+      const { transfer, mybambuResponse } = result;
+      if (isFailedTransfer(transfer)) {
+        // Nothing was sent, so the quote can be confirmed again (e.g. once the account is fixed)
+        quote.status = 'pending';
+        await storage.quotes.save(quote);
+        return failedTransferResult(transfer);
+      }
+      quote.status = 'confirmed';
+      quote.transfer_id = transfer.id;
+      quote.confirmed_at = new Date().toISOString();
+      await storage.quotes.save(quote);
+
+      return {
+        content: [{
+          type: "text",
+          text: `✅ Transfer confirmed! ${transfer.recipient_name} in ${transfer.recipient_country} will receive ${transfer.recipient_amount.toFixed(2)} ${transfer.to_currency}.\n⏱️ Estimated delivery: ${transfer.delivery_time}.\n🆔 Transfer ID: ${transfer.id}` + fundingNote(transfer)
+        }],
+        structuredContent: presentTransfer(transfer),
+        _meta: {
+          "openai/outputTemplate": "component://transfer-receipt",
+          mybambuResponse,
+          quoteId: quote.id
+        }
+      };
+    }
+
+    // TOOL: cancel_transfer_quote
+    if (toolName === "cancel_transfer_quote") {
+      const { quote_id } = args as any;
+
+      const quote = await storage.quotes.get(quote_id);
+
+      if (!quote) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Quote not found: ${quote_id}.`
+          }],
+          isError: true
+        };
+      }
+
+      if (quote.status !== 'pending') {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Quote ${quote.id} is already ${quote.status} and can't be cancelled.`
+          }],
+          isError: true
+        };
+      }
+
+      quote.status = 'cancelled';
+      quote.cancelled_at = new Date().toISOString();
+      if (!(await storage.quotes.saveIfUnchanged(quote))) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Quote ${quote.id} changed while cancelling (it may have just been confirmed). Check your transfer history.`
+          }],
+          isError: true
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: `🚫 Quote ${quote.id} cancelled. Nothing was sent to ${quote.recipient_name}.`
+        }],
+        structuredContent: publicQuote(quote),
+        _meta: {
+          "openai/outputTemplate": "component://transfer-receipt"
+        }
+      };
+    }
+
+    // TOOL: get_exchange_rate
+    if (toolName === "get_exchange_rate") {
+      const { to_currency, to_country, amount, recipient_amount } = args as any;
+
+      const fromCurrency = parseSourceCurrency((args as any).from_currency);
+      if (!fromCurrency) {
+        return unsupportedSourceCurrencyResult((args as any).from_currency);
+      }
+
+      const rateData = await fetchExchangeRates();
+      const rate = crossRate(rateData, fromCurrency, to_currency);
+
+      if (!rate) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Exchange rate not available for ${to_currency}`,
+          }],
+          isError: true
+        };
+      }
+
+      // Find corridor for delivery time
+      const corridor = SUPPORTED_CORRIDORS.find(c =>
+        c.currency === to_currency ||
+        (to_country && c.country.toLowerCase() === to_country.toLowerCase())
+      );
+
+      const usdRate = crossRate(rateData, 'USD', fromCurrency) ?? 1;
+      if (amount !== undefined && recipient_amount !== undefined) {
+        return {
+          content: [{
+            type: "text",
+            text: "❌ Give either amount (what you send) or recipient_amount (what they receive), not both"
+          }],
+          isError: true
+        };
+      }
+      if ((amount !== undefined && !(amount > 0)) || (recipient_amount !== undefined && !(recipient_amount > 0))) {
+        return {
+          content: [{
+            type: "text",
+            text: "❌ Amount must be greater than 0"
+          }],
+          isError: true
+        };
+      }
+
+      // The mid-market rate is only indicative. With an amount, the price is worked out the way a
+      // transfer is charged: our fee, then a Wise quote for the rest in real mode (simulated
+      // transfers convert at the mid-market rate)
+      let pricing: { amount: number; fee: number; recipientAmount: number; wiseQuote?: WiseQuoteSummary } | null = null;
+      if (amount !== undefined) {
+        const fee = calculateFee(amount, usdRate);
+        pricing = { amount, fee, recipientAmount: Math.round((amount - fee) * rate * 100) / 100 };
+        if (useRealAPI) {
+          try {
+            const wiseService = getWiseService();
+            pricing.wiseQuote = wiseService.summarizeQuote(await wiseService.createQuote({
+              sourceCurrency: fromCurrency,
+              targetCurrency: to_currency,
+              sourceAmount: amount - fee
+            }));
+            pricing.recipientAmount = pricing.wiseQuote.targetAmount;
+          } catch (error: any) {
+            return {
+              content: [{
+                type: "text",
+                text: `❌ Couldn't get a quote from our payment partner right now: ${error.message}. Please try again in a moment.`
+              }],
+              isError: true
+            };
+          }
+        }
+      } else if (recipient_amount !== undefined) {
+        // "How much do I send for them to get X?" - worked out backwards, fee included
+        const priced = await priceRecipientAmount(fromCurrency, to_currency, recipient_amount, rate, usdRate);
+        if ('isError' in priced) {
+          return priced;
+        }
+        pricing = { ...priced, recipientAmount: recipient_amount };
+      }
+
+      const wiseQuote = pricing?.wiseQuote;
+      // The rate a transfer would actually convert at; unknown in real mode until Wise quotes an amount
+      const executableRate = wiseQuote ? wiseQuote.rate : useRealAPI ? null : rate;
+      const feeDescription = describeFees(fromCurrency, usdRate);
+      const freshness = rateFreshness(rateData, fromCurrency, to_currency);
+
+      const responseData = {
+        from_currency: fromCurrency,
+        to_currency,
+        // Kept as the mid-market rate for existing callers
+        rate,
+        mid_market_rate: rate,
+        executable_rate: executableRate,
+        rate_source: wiseQuote ? 'wise_quote' : useRealAPI ? null : 'simulated',
+        fee_description: feeDescription,
+        ...(pricing ? {
+          amount: pricing.amount,
+          fee: pricing.fee,
+          recipient_amount: pricing.recipientAmount,
+          wise_fee: wiseQuote?.fee ?? null,
+          quote_expires_at: wiseQuote?.expiresAt ?? null
+        } : {}),
+        timestamp: rateData.timestamp,
+        // When the mid-market rate was published, by which provider, and whether it's out of date
+        as_of: freshness.as_of,
+        rate_provider: rateData.sources[to_currency] ?? null,
+        stale: freshness.stale,
+        delivery_time: corridor?.deliveryTime || '1-3 hours'
+      };
+
+      let rateText = `💱 Mid-market rate (indicative): 1 ${fromCurrency} = ${rate.toFixed(4)} ${to_currency}` +
+        staleRateWarning(freshness);
+      if (wiseQuote) {
+        rateText += `\n✅ Your rate (Wise quote): 1 ${fromCurrency} = ${wiseQuote.rate.toFixed(4)} ${to_currency}` +
+          (wiseQuote.expiresAt ? `, valid until ${new Date(wiseQuote.expiresAt).toLocaleTimeString()}` : '');
+      } else if (useRealAPI) {
+        rateText += `\nℹ️ Transfers convert at the rate Wise quotes for the amount - give an amount to see it.`;
+      } else {
+        rateText += `\n✅ Your rate: the same (demo transfers convert at the mid-market rate)`;
+      }
+      if (pricing) {
+        rateText += `\n\n💵 You send: ${formatMoney(pricing.amount, fromCurrency)} ${fromCurrency}` +
+          `\n💸 Our fee: ${formatMoney(pricing.fee, fromCurrency)}` +
+          (wiseQuote?.fee ? ` (Wise's own fee of ${formatMoney(wiseQuote.fee, fromCurrency)} is included in the quote)` : '') +
+          `\n🎯 They receive${recipient_amount !== undefined ? ' exactly' : ''}: ${pricing.recipientAmount.toFixed(2)} ${to_currency}`;
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: rateText +
+            `\n\n📦 Delivery time: ${responseData.delivery_time}` +
+            (pricing ? '' : `\n💰 Our fee: ${feeDescription}`) +
+            `\n\nMid-market rate as of: ${new Date(freshness.as_of).toLocaleString()}`
+        }],
+        structuredContent: responseData,
+        _meta: {
+          "openai/outputTemplate": "component://exchange-rate",
+          rawRateData: rateData,
+          corridor
+        }
+      };
+    }
+
+    // TOOL: check_transfer_status
+    if (toolName === "check_transfer_status") {
+      const { transfer_id } = args as any;
+
+      let transfer = await storage.transfers.get(transfer_id);
+
+      if (!transfer) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Transfer not found: ${transfer_id}. Please check the transfer ID and try again.`,
+          }],
+          isError: true
+        };
+      }
+
+      let statusNote = '';
+      if (transfer.is_real_transfer && transfer.wise_transfer_id) {
+        // Ask Wise where the transfer really is
+        if (!FINAL_STATUSES.includes(transfer.status)) {
+          try {
+            transfer = await refreshWiseStatus(storage, transfer);
+          } catch (error: any) {
+            console.error(`❌ Wise status check failed for ${transfer.id}:`, error.message);
+            statusNote = `\n⚠️ Couldn't reach Wise just now, so this is the last known status (${new Date(transfer.status_updated_at || transfer.created_at).toLocaleString()}).`;
+          }
+        }
+      } else {
+        // Simulated transfers move one step along at random
+        const statuses = ['pending', 'processing', 'completed'];
+        const currentIndex = statuses.indexOf(transfer.status);
+        if (currentIndex !== -1 && currentIndex < statuses.length - 1 && Math.random() > 0.5) {
+          const updated = await updateTransferStatus(storage, transfer.id, {
+            status: statuses[currentIndex + 1] as 'processing' | 'completed',
+            at: new Date().toISOString(),
+            source: 'simulation'
+          });
+          transfer = updated.transfer ?? transfer;
+        }
+      }
+
+      const history = statusHistory(transfer)
+        .map(e => e.wise_state ? { ...e, description: describeWiseState(e.wise_state) } : e);
+      return {
+        content: [{
+          type: "text",
+          text: `📊 Transfer Status: ${transfer.status.toUpperCase()}` +
+            (transfer.wise_state ? ` (${describeWiseState(transfer.wise_state)})` : '') +
+            `\n\n💸 ${transfer.recipient_amount.toFixed(2)} ${transfer.to_currency} to ${transfer.recipient_name}\n📅 Estimated arrival: ${new Date(transfer.estimated_arrival).toLocaleString()}\n🆔 ${transfer.id}` +
+            `\n\n🕒 Timeline:\n` +
+            history.map(e =>
+              `  • ${new Date(e.at).toLocaleString()} - ${e.status}${e.wise_state ? ` (${describeWiseState(e.wise_state)})` : ''}`
+            ).join('\n') +
+            statusNote
+        }],
+        structuredContent: { ...presentTransfer(transfer), status_history: history },
+        _meta: {
+          "openai/outputTemplate": "component://transfer-receipt",
+          statusHistory: history
+        }
+      };
+    }
+
+    // TOOL: cancel_transfer
+    if (toolName === "cancel_transfer") {
+      const { transfer_id } = args as any;
+
+      let transfer = await storage.transfers.get(transfer_id);
+
+      if (!transfer) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Transfer not found: ${transfer_id}. Please check the transfer ID and try again.`,
+          }],
+          isError: true
+        };
+      }
+
+      if (transfer.status === 'cancelled') {
+        return {
+          content: [{
+            type: "text",
+            text: `ℹ️ Transfer ${transfer.id} was already cancelled${transfer.cancelled_at ? ` on ${new Date(transfer.cancelled_at).toLocaleString()}` : ''}.`
+          }],
+          structuredContent: presentTransfer(transfer),
+          _meta: {
+            "openai/outputTemplate": "component://transfer-receipt"
+          }
+        };
+      }
+
+      const isRealTransfer = transfer.is_real_transfer && transfer.wise_transfer_id;
+      if (isRealTransfer) {
+        // Decide on Wise's current state, not the last one we saw
+        try {
+          transfer = await refreshWiseStatus(storage, transfer);
+        } catch (error: any) {
+          console.error(`❌ Wise status check failed for ${transfer.id}:`, error.message);
+        }
+      }
+
+      if (!canCancelTransfer(transfer)) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Transfer ${transfer.id} can't be cancelled: ` +
+              ({
+                processing: 'it is already being processed, so the money can no longer be recalled.',
+                completed: 'the money has already been sent to the recipient\'s bank.',
+                failed: 'it already failed, so no money will reach the recipient.',
+                refunded: 'it has already been refunded.'
+              }[transfer.status as string] || `it is ${transfer.status}.`) +
+              (transfer.wise_state ? ` (Wise: ${describeWiseState(transfer.wise_state)})` : '') +
+              (transfer.status === 'completed' || transfer.status === 'processing'
+                ? `\nIf it went to the wrong person, contact MyBambu support with the transfer ID.`
+                : '')
+          }],
+          isError: true
+        };
+      }
+
+      const refund = refundForCancellation(transfer);
+      const cancelledAt = new Date().toISOString();
+
+      let wiseState: string | undefined;
+      if (isRealTransfer) {
+        try {
+          wiseState = (await getWiseService().cancelTransfer(transfer.wise_transfer_id)).status || 'cancelled';
+        } catch (error: any) {
+          console.error(`❌ Wise cancel failed for ${transfer.id}:`, error.message);
+          return {
+            content: [{
+              type: "text",
+              text: `❌ Wise couldn't cancel transfer ${transfer.id}: ${error.message}. It may have started processing - check its status for the latest.`
+            }],
+            isError: true
+          };
+        }
+      }
+
+      const { transfer: cancelled } = await updateTransferStatus(storage, transfer.id, {
+        status: wiseState ? mapWiseState(wiseState) : 'cancelled',
+        ...(wiseState ? { wise_state: wiseState } : {}),
+        at: cancelledAt,
+        source: isRealTransfer ? 'wise' : 'simulation'
+      }, { cancelled_at: cancelledAt, refund });
+      transfer = cancelled ?? transfer;
+
+      return {
+        content: [{
+          type: "text",
+          text: `🚫 Transfer ${transfer.id} to ${transfer.recipient_name} cancelled.\n\n` +
+            (refund.required
+              ? `💵 Refund: ${formatMoney(refund.amount, refund.currency)} ${refund.currency} (including the fee). ${refund.method}, ${refund.eta}.`
+              : `💵 No refund needed: ${refund.method}.`)
+        }],
+        structuredContent: presentTransfer(transfer),
+        _meta: {
+          "openai/outputTemplate": "component://transfer-receipt"
+        }
+      };
+    }
+
+    // TOOL: get_transfer_history
+    if (toolName === "get_transfer_history") {
+      const { limit = 10 } = args as any;
+
+      const allTransfers = (await storage.transfers.list())
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+        .slice(0, limit);
+
+      return {
+        content: [{
+          type: "text",
+          text: allTransfers.length > 0
+            ? `📋 Found ${allTransfers.length} transfer${allTransfers.length !== 1 ? 's' : ''}:\n\n` +
+              allTransfers.map(t =>
+                `• ${t.recipient_amount.toFixed(2)} ${t.to_currency} to ${t.recipient_name} - ${t.status.toUpperCase()} (${t.id})`
+              ).join('\n')
+            : `📭 No transfers found. Start by saying "Send $100 to Mexico"`
+        }],
+        structuredContent: {
+          transfers: allTransfers,
+          total: allTransfers.length
+        },
+        _meta: {
+          "openai/outputTemplate": "component://transfer-history"
+        }
+      };
+    }
+
+    // TOOL: get_recipient_form
+    if (toolName === "get_recipient_form") {
+      const { to_country, amount, bank_details } = args as any;
+
+      const corridor = SUPPORTED_CORRIDORS.find(c =>
+        c.country.toLowerCase() === String(to_country || '').toLowerCase()
+      );
+      if (!corridor) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Sorry, we don't support transfers to ${to_country} yet. Supported countries: ${SUPPORTED_CORRIDORS.map(c => c.country).join(', ')}`
+          }],
+          isError: true
+        };
+      }
+
+      const requirements = await getBankRequirements(corridor.currency, corridor.country, amount || TYPICAL_TRANSFER_AMOUNT, bank_details || {});
+      if (!requirements) {
+        return {
+          content: [{
+            type: "text",
+            text: useRealAPI
+              ? `❌ Couldn't load the bank details needed for ${corridor.country} (${corridor.currency}) transfers right now. Please try again in a few minutes.`
+              : `📝 In demo mode any details work for ${corridor.country} - for example {"accountNumber": "..."} as bank_details.`
+          }],
+          isError: useRealAPI
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: `📝 To send to ${corridor.country} (${corridor.currency}) we need:\n\n` +
+            requirements.fields.map(f =>
+              `• **${f.label}** (\`${f.name}\`)${f.required ? '' : ' - optional'}: ${f.description}` +
+              (f.example ? ` - e.g. ${f.example}` : '') +
+              (f.refreshRequirementsOnChange ? ' - other fields may depend on this one' : '')
+            ).join('\n') +
+            `\n\nPass the answers as bank_details using these field names.`
+        }],
+        structuredContent: {
+          country: corridor.country,
+          currency: corridor.currency,
+          account_type: requirements.accountType,
+          alternative_account_types: requirements.alternativeAccountTypes || [],
+          source: requirements.source,
+          schema: bankDetailsSchema(requirements)
+        }
+      };
+    }
+
+    // TOOL: get_supported_countries
+    if (toolName === "get_supported_countries") {
+      const { region } = args as any;
+
+      let corridors = SUPPORTED_CORRIDORS;
+      if (region) {
+        corridors = SUPPORTED_CORRIDORS.filter(c =>
+          c.region.toLowerCase() === region.toLowerCase()
+        );
+      }
+
+      // Group by region for better display
+      const byRegion = corridors.reduce((acc: any, c) => {
+        if (!acc[c.region]) acc[c.region] = [];
+        acc[c.region].push(c);
+        return acc;
+      }, {});
+
+      const regionText = Object.entries(byRegion)
+        .map(([reg, countries]: [string, any]) =>
+          `\n**${reg}** (${countries.length} countries):\n` +
+          countries.map((c: any) =>
+            `  • ${c.country} (${c.currency}) - ${c.deliveryTime}`
+          ).join('\n')
+        ).join('\n');
+
+      return {
+        content: [{
+          type: "text",
+          text: `🌍 MyBambu supports transfers to ${corridors.length} countries${region ? ` in ${region}` : ' worldwide'}:\n` +
+            regionText +
+            `\n\n💰 Low fees starting at $0.85\n⚡ Fast delivery in as little as 35 minutes\n🌎 Latin America, Asia, Europe, Africa, Middle East, Oceania covered`
+        }],
+        structuredContent: {
+          corridors,
+          byRegion,
+          total: corridors.length,
+          regions: Object.keys(byRegion)
+        }
+      };
+    }
+
+    // TOOL: get_limits
+    if (toolName === "get_limits") {
+      const usage = await getLimitUsage(storage, transferLimits);
+
+      const describeWindow = (label: string, window: typeof usage.daily) =>
+        `• ${label}: ${formatUsd(window.used)} of ${formatUsd(window.limit)} used (${window.transfer_count} transfer${window.transfer_count === 1 ? '' : 's'}) - ${formatUsd(window.remaining)} remaining` +
+        (window.used > 0 && window.next_release_at
+          ? `\n  More frees up from ${new Date(window.next_release_at).toLocaleString('en-US', { timeZone: 'UTC' })} UTC`
+          : '');
+
+      return {
+        content: [{
+          type: "text",
+          text: `📊 Your transfer limits\n\n` +
+            `• Per transfer: up to ${formatUsd(usage.per_transaction)}\n` +
+            describeWindow('Last 24 hours', usage.daily) + `\n` +
+            describeWindow('Last 30 days', usage.monthly) + `\n\n` +
+            `💸 You can send up to ${formatUsd(Math.min(usage.per_transaction, usage.daily.remaining, usage.monthly.remaining))} in your next transfer.`
+        }],
+        structuredContent: usage
+      };
+    }
+
+    // TOOL: add_recipient
+    if (toolName === "add_recipient") {
+      const { name, country, phone, email, relationship } = args as any;
+
+      // Validation
+      if (!name || !country) {
+        return {
+          content: [{
+            type: "text",
+            text: "❌ Please provide both recipient name and country"
+          }],
+          isError: true
+        };
+      }
+
+      // Verify country is supported
+      const corridor = SUPPORTED_CORRIDORS.find(c =>
+        c.country.toLowerCase() === country.toLowerCase()
+      );
+
+      if (!corridor) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Sorry, we don't support transfers to ${country} yet. Please use a supported country.`
+          }],
+          isError: true
+        };
+      }
+
+      // Bank details become the recipient's first (default) payout account
+      let account: PayoutAccount | null = null;
+      if ((args as any).bank_details) {
+        const prepared = await preparePayoutAccount(storage, corridor, (args as any).bank_details, (args as any).account_label);
+        if ('isError' in prepared) {
+          return prepared;
+        }
+        account = prepared;
+      }
+
+      // Create recipient
+      const recipientId = `RCP-${await storage.nextId('recipient')}`;
+      const recipient: StoredRecord = {
+        id: recipientId,
+        name,
+        country: corridor.country,
+        currency: corridor.currency,
+        phone: phone || null,
+        email: email || null,
+        relationship: relationship || 'Other',
+        created_at: new Date().toISOString(),
+        total_sent: 0,
+        transfer_count: 0,
+        payout_accounts: [],
+        default_account_id: null
+      };
+      if (account) {
+        addPayoutAccount(recipient, account);
+      }
+
+      await storage.recipients.save(recipient);
+
+      return {
+        content: [{
+          type: "text",
+          text: `✅ Recipient saved! ${name} in ${corridor.country} has been added to your recipients list` +
+            (account ? ` with their ${account.summary} account` : '') +
+            `. You can now send money by saying "Send $100 to ${name}"`
+        }],
+        structuredContent: presentRecipient(recipient),
+        _meta: {
+          "openai/outputTemplate": "component://recipient-management",
+          recipientId,
+          totalRecipients: await storage.recipients.count(),
+          supportedCurrency: corridor.currency
+        }
+      };
+    }
+
+    // TOOL: list_recipients
+    if (toolName === "list_recipients") {
+      const allRecipients = (await storage.recipients.list())
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+
+      if (allRecipients.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: `📭 You haven't saved any recipients yet. Save someone by saying "Add Maria in Mexico as a recipient"`
+          }],
+          structuredContent: {
+            recipients: [],
+            total: 0
+          },
+          _meta: {
+            "openai/outputTemplate": "component://recipient-management"
+          }
+        };
+      }
+
+      return {
+        content: [{
+          type: "text",
+          text: `📋 You have ${allRecipients.length} saved recipient${allRecipients.length !== 1 ? 's' : ''}:\n\n` +
+            allRecipients.map(r => {
+              const defaultAccount = findPayoutAccount(r);
+              const accounts = payoutAccounts(r).map(a =>
+                `\n    - ${a.summary}${a.label ? ` "${a.label}"` : ''} (${a.id})${a.id === defaultAccount?.id ? ' ⭐ default' : ''}`
+              ).join('');
+              return `• ${r.name} (${r.country}, ${r.id}) - ${r.transfer_count} transfer${r.transfer_count !== 1 ? 's' : ''}, $${r.total_sent.toFixed(2)} total` +
+                (accounts || '\n    - No bank details saved');
+            }).join('\n') +
+            `\n\nSend money to anyone by saying "Send $100 to ${allRecipients[0].name}"`
+        }],
+        structuredContent: {
+          recipients: allRecipients.map(presentRecipient),
+          total: allRecipients.length
+        },
+        _meta: {
+          "openai/outputTemplate": "component://recipient-management"
+        }
+      };
+    }
+
+    // TOOL: delete_recipient
+    if (toolName === "delete_recipient") {
+      const { recipient_id } = args as any;
+
+      const recipient = await storage.recipients.get(recipient_id);
+
+      if (!recipient) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Recipient not found: ${recipient_id}. Use "list recipients" to see all saved recipients.`
+          }],
+          isError: true
+        };
+      }
+
+      const recipientName = recipient.name;
+      await storage.recipients.delete(recipient_id);
+
+      return {
+        content: [{
+          type: "text",
+          text: `✅ ${recipientName} has been removed from your recipients list.`
+        }],
+        structuredContent: {
+          deleted: true,
+          recipientId: recipient_id,
+          recipientName,
+          remainingRecipients: await storage.recipients.count()
+        },
+        _meta: {
+          "openai/outputTemplate": "component://recipient-management"
+        }
+      };
+    }
+
+    // TOOL: add_payout_account
+    if (toolName === "add_payout_account") {
+      const { recipient_id, bank_details, label, make_default } = args as any;
+
+      const recipient = await storage.recipients.get(recipient_id);
+      if (!recipient) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Recipient not found: ${recipient_id}. Use "list recipients" to see all saved recipients.`
+          }],
+          isError: true
+        };
+      }
+
+      const corridor = SUPPORTED_CORRIDORS.find(c => c.country === recipient.country)!;
+      const account = await preparePayoutAccount(storage, corridor, bank_details || {}, label);
+      if ('isError' in account) {
+        return account;
+      }
+
+      addPayoutAccount(recipient, account, Boolean(make_default));
+      await storage.recipients.save(recipient);
+      const isDefault = recipient.default_account_id === account.id;
+
+      return {
+        content: [{
+          type: "text",
+          text: `✅ Saved ${recipient.name}'s ${account.summary} account${isDefault ? ' as their default' : ''}. ` +
+            `${recipient.name} now has ${payoutAccounts(recipient).length} saved account${payoutAccounts(recipient).length !== 1 ? 's' : ''}.`
+        }],
+        structuredContent: await recipientList(storage),
+        _meta: {
+          "openai/outputTemplate": "component://recipient-management",
+          accountId: account.id
+        }
+      };
+    }
+
+    // TOOL: set_default_payout_account
+    if (toolName === "set_default_payout_account") {
+      const { recipient_id, account_id } = args as any;
+
+      const recipient = await storage.recipients.get(recipient_id);
+      const account = recipient ? findPayoutAccount(recipient, account_id) : null;
+      if (!recipient || !account) {
+        return {
+          content: [{
+            type: "text",
+            text: recipient
+              ? `❌ ${recipient.name} has no payout account ${account_id}. Use "list recipients" to see their accounts.`
+              : `❌ Recipient not found: ${recipient_id}. Use "list recipients" to see all saved recipients.`
+          }],
+          isError: true
+        };
+      }
+
+      recipient.default_account_id = account.id;
+      await storage.recipients.save(recipient);
+
+      return {
+        content: [{
+          type: "text",
+          text: `⭐ Transfers to ${recipient.name} will now go to their ${account.summary} account${account.label ? ` (${account.label})` : ''}.`
+        }],
+        structuredContent: await recipientList(storage),
+        _meta: {
+          "openai/outputTemplate": "component://recipient-management"
+        }
+      };
+    }
+
+    // TOOL: schedule_transfer
+    if (toolName === "schedule_transfer") {
+      const { to_country, recipient_name, frequency, rrule, start_date, end_date, max_occurrences, recipient_amount } = args as any;
+      let amount: number = (args as any).amount;
+      const timezone = (args as any).timezone || DEFAULT_SCHEDULE_TIMEZONE;
+      const fromCurrency = parseSourceCurrency((args as any).from_currency);
+      if (!fromCurrency) {
+        return unsupportedSourceCurrencyResult((args as any).from_currency);
+      }
+
+      // Validation
+      if (amount !== undefined && recipient_amount !== undefined) {
+        return {
+          content: [{
+            type: "text",
+            text: "❌ Give either amount (what you send) or recipient_amount (what they receive), not both"
+          }],
+          isError: true
+        };
+      }
+
+      if (recipient_amount !== undefined ? !(recipient_amount > 0) : !(amount > 0)) {
+        return {
+          content: [{
+            type: "text",
+            text: "❌ Amount must be greater than $0"
+          }],
+          isError: true
+        };
+      }
+
+      if (!to_country || !recipient_name) {
+        return {
+          content: [{
+            type: "text",
+            text: "❌ Please specify both recipient name and country"
+          }],
+          isError: true
+        };
+      }
+
+      // Find country info
+      const corridor = SUPPORTED_CORRIDORS.find(c =>
+        c.country.toLowerCase() === to_country.toLowerCase()
+      );
 
-      // Validation - Check required parameters
-      if (!to_country || !recipient_name) {
+      if (!corridor) {
         return {
           content: [{
             type: "text",
-            text: "❌ Please provide the destination country and recipient name. Example: Send $100 to Maria in Colombia"
+            text: `❌ Sorry, we don't support transfers to ${to_country} yet. Supported countries: ${SUPPORTED_CORRIDORS.map(c => c.country).join(', ')}`
           }],
           isError: true
         };
       }
 
-      if (!amount || amount <= 0) {
+      if (!rrule && !RECURRENCE_PATTERNS.includes(frequency)) {
         return {
           content: [{
             type: "text",
-            text: "❌ Amount must be greater than $0"
+            text: `❌ Invalid frequency. Please choose: ${RECURRENCE_PATTERNS.join(', ')} (or give a custom rrule)`
           }],
           isError: true
         };
       }
 
-      if (amount > transferLimits.perTransaction) {
+      if (!isValidTimeZone(timezone)) {
         return {
           content: [{
             type: "text",
-            text: `❌ Amount exceeds per-transaction limit of $${transferLimits.perTransaction}. Please split into multiple transfers or contact support.`,
+            text: `❌ Unknown time zone "${timezone}". Use an IANA name such as America/New_York.`
           }],
           isError: true
         };
       }
 
-      // Find country info
-      const corridor = SUPPORTED_CORRIDORS.find(c =>
-        c.country.toLowerCase() === to_country.toLowerCase()
-      );
-
-      if (!corridor) {
+      if (max_occurrences !== undefined && (!Number.isInteger(max_occurrences) || max_occurrences < 1)) {
         return {
           content: [{
             type: "text",
-            text: `❌ Sorry, we don't support transfers to ${to_country} yet. Supported countries: ${SUPPORTED_CORRIDORS.map(c => c.country).join(', ')}`,
+            text: "❌ max_occurrences must be a whole number of payments (1 or more)"
           }],
           isError: true
         };
       }
 
-      // Check bank details for real API mode
-      if (useRealAPI) {
-        const requirements = getBankRequirements(corridor.currency);
+      // A fixed recipient amount is priced again for every payment; today's price is shown as the estimate
+      const rateData = await fetchExchangeRates();
+      if (recipient_amount !== undefined) {
+        const rate = crossRate(rateData, fromCurrency, corridor.currency);
+        const usdRate = crossRate(rateData, 'USD', fromCurrency);
+        if (!rate || !usdRate) {
+          return {
+            content: [{
+              type: "text",
+              text: `❌ Exchange rate not available for ${rate ? fromCurrency : corridor.currency}`
+            }],
+            isError: true
+          };
+        }
+        const priced = await priceRecipientAmount(fromCurrency, corridor.currency, recipient_amount, rate, usdRate);
+        if ('isError' in priced) {
+          return priced;
+        }
+        amount = priced.amount;
+      }
 
-        if (requirements) {
-          const validation = validateBankDetails(corridor.currency, bank_details);
+      // Each run is checked against the rolling limits when it executes
+      const amountError = scheduledAmountError(amount, fromCurrency, rateData);
+      if (amountError) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ ${amountError}`
+          }],
+          isError: true
+        };
+      }
 
-          if (!validation.valid) {
-            // Tell user what bank details are needed
-            return {
-              content: [{
-                type: "text",
-                text: `📝 To complete this $${amount} transfer to ${recipient_name} in ${corridor.country}, I need their bank details:\n\n${requirements.instructions}\n\n**Required fields:**\n${requirements.fields.map(f => `• **${f.label}**: ${f.description}\n  Example: ${f.example}`).join('\n\n')}\n\n**Once you provide these details, I'll immediately process the transfer.**\n\n⚠️ IMPORTANT: After receiving the bank details, you MUST call the send_money tool again with the bank_details parameter. Example:\n\`\`\`json\n{\n  "amount": ${amount},\n  "to_country": "${corridor.country}",\n  "recipient_name": "${recipient_name}",\n  "bank_details": ${JSON.stringify(requirements.fields.reduce((acc, f) => ({ ...acc, [f.name]: f.example }), {}), null, 2)}\n}\n\`\`\``
-              }],
-              isError: true
-            };
-          }
-        }
+      const startDate = start_date ? parseLocalDate(start_date, timezone) : new Date().toISOString();
+      if (!startDate) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ "${start_date}" isn't a valid start date.`
+          }],
+          isError: true
+        };
       }
 
-      // Get exchange rate
-      const rateData = await fetchExchangeRates();
-      const rate = rateData.rates[corridor.currency];
+      // The rule's first occurrence can be after the start date (e.g. "1st and 15th" started on the 18th)
+      let rule: RecurrenceRule;
+      let maxOccurrences: number | null = max_occurrences ?? null;
+      let endDate = end_date ? parseLocalDate(end_date, timezone, '23:59:59') : null;
+      try {
+        if (rrule) {
+          const parsed = parseRRule(rrule, startDate, timezone);
+          rule = parsed.rule;
+          maxOccurrences = maxOccurrences ?? parsed.count ?? null;
+          endDate = endDate ?? parsed.until ?? null;
+        } else {
+          rule = patternRule(frequency, startDate, timezone);
+        }
+      } catch (error) {
+        if (error instanceof RecurrenceError) {
+          return {
+            content: [{ type: "text", text: `❌ ${error.message}` }],
+            isError: true
+          };
+        }
+        throw error;
+      }
 
-      if (!rate) {
+      if (end_date && (!endDate || new Date(endDate).getTime() < new Date(rule.start).getTime())) {
         return {
           content: [{
             type: "text",
-            text: `❌ Exchange rate not available for ${corridor.currency}`,
+            text: `❌ The end date must be a valid date on or after the first payment.`
           }],
           isError: true
         };
       }
 
-      // Calculate fees
-      const feeAmount = Math.max(
-        transferLimits.fees.minFee,
-        Math.min(amount * transferLimits.fees.standard, transferLimits.fees.maxFee)
-      );
-      const netAmount = amount - feeAmount;
-      const recipientAmount = netAmount * rate;
-      const transferId = `TXN-${transferCounter++}`;
+      // Create scheduled transfer
+      const scheduleId = `SCH-${await storage.nextId('schedule')}`;
+      const scheduledTransfer: StoredRecord = {
+        id: scheduleId,
+        recipient_name,
+        recipient_country: corridor.country,
+        // With a fixed recipient amount, amount is the latest estimate of what each payment costs
+        amount,
+        recipient_amount: recipient_amount ?? null,
+        currency_from: fromCurrency,
+        currency_to: corridor.currency,
+        frequency: rrule ? 'custom' : frequency,
+        recurrence: rule,
+        start_date: rule.start,
+        next_execution: rule.start,
+        end_date: endDate,
+        max_occurrences: maxOccurrences,
+        status: 'active',
+        total_sent: 0,
+        execution_count: 0,
+        created_at: new Date().toISOString()
+      };
+      recordScheduleEvent(scheduledTransfer, { action: 'created', by: 'user' });
 
-      let mybambuResponse;
-      let transfer;
+      await storage.scheduledTransfers.save(scheduledTransfer);
 
-      // Use REAL Wise API if configured, otherwise simulate
-      if (useRealAPI) {
-        try {
-          console.log(`💸 Processing REAL transfer via Wise API...`);
-          const wiseService = getWiseService();
+      const nextDates = upcomingExecutions(scheduledTransfer, 3);
 
-          // Prepare bank account details based on currency
-          let recipientBankAccount = '';
-          let recipientBankCode = '';
-          let extraFields: any = {};
-
-          // Extract the right fields based on currency
-          switch (corridor.currency) {
-            case 'MXN':
-              recipientBankAccount = bank_details.clabe || '';
-              break;
-            case 'GBP':
-              recipientBankAccount = bank_details.accountNumber || '';
-              recipientBankCode = bank_details.sortCode || '';
-              break;
-            case 'BRL':
-              recipientBankAccount = bank_details.accountNumber || '';
-              recipientBankCode = bank_details.cpf || '';
-              break;
-            case 'EUR':
-              recipientBankAccount = bank_details.iban || '';
-              break;
-            case 'COP':
-              recipientBankAccount = bank_details.accountNumber || '';
-              extraFields = {
-                accountType: bank_details.accountType || 'SAVINGS',
-                phoneNumber: bank_details.phoneNumber,
-                idDocumentNumber: bank_details.idDocumentNumber,
-                address: bank_details.address,
-                city: bank_details.city,
-                postCode: bank_details.postCode
-              };
-              break;
-            default:
-              recipientBankAccount = bank_details.accountNumber || '';
-              recipientBankCode = bank_details.bankCode || '';
-          }
+      return {
+        content: [{
+          type: "text",
+          text: `✅ Scheduled transfer created! ${recipient_name} in ${corridor.country} will receive ${recipient_amount !== undefined ? `exactly ${Number(recipient_amount).toFixed(2)} ${corridor.currency}` : formatMoney(amount, fromCurrency)} - ${describeRecurrence(rule).replace(/^./, c => c.toLowerCase())}` +
+            (endDate ? `, until ${formatLocalDate(endDate, timezone)}` : '') +
+            (maxOccurrences ? `, for ${maxOccurrences} payment${maxOccurrences === 1 ? '' : 's'}` : '') +
+            (recipient_amount !== undefined
+              ? `.\n\n💵 At today's rate each payment costs ${formatMoney(amount, fromCurrency)} ${fromCurrency} including the fee. The exact amount is worked out when each payment is sent`
+              : '') +
+            `.\n\n📅 Next ${nextDates.length} payment${nextDates.length === 1 ? '' : 's'} (${timezone}):\n` +
+            nextDates.map((d, i) => `  ${i + 1}. ${formatLocalDate(d, timezone)}`).join('\n') +
+            `\n\n🆔 Schedule ID: ${scheduleId}`
+        }],
+        structuredContent: presentSchedule(scheduledTransfer),
+        _meta: {
+          "openai/outputTemplate": "component://scheduled-transfers",
+          scheduleId,
+          nextExecutionDates: nextDates,
+          totalScheduled: await storage.scheduledTransfers.count()
+        }
+      };
+    }
 
-          const wiseResult = await wiseService.sendMoney({
-            amount: netAmount, // Send net amount (after fees)
-            recipientName: recipient_name,
-            recipientCountry: corridor.country,
-            recipientBankAccount,
-            recipientBankCode,
-            targetCurrency: corridor.currency,
-            reference: `MyBambu transfer to ${recipient_name}`,
-            ...extraFields
-          });
+    // TOOL: list_scheduled_transfers
+    if (toolName === "list_scheduled_transfers") {
+      const allScheduled = await listVisibleSchedules(storage);
 
-          // Create transfer record with REAL Wise data
-          transfer = {
-            id: transferId,
-            wise_transfer_id: wiseResult.transferId,
-            mybambu_id: `WISE-${wiseResult.transferId}`,
-            from_currency: 'USD',
-            to_currency: corridor.currency,
-            amount,
-            fee: feeAmount,
-            net_amount: netAmount,
-            exchange_rate: wiseResult.rate,
-            recipient_amount: wiseResult.targetAmount,
-            recipient_name,
-            recipient_country: corridor.country,
-            delivery_time: corridor.deliveryTime,
-            status: wiseResult.status === 'processing' ? 'processing' : 'completed',
-            estimated_arrival: wiseResult.estimatedDelivery || new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString(),
-            created_at: new Date().toISOString(),
-            is_real_transfer: true
-          };
+      if (allScheduled.length === 0) {
+        return {
+          content: [{
+            type: "text",
+            text: `📭 You don't have any scheduled transfers. Set one up by saying "Send $100 to Maria every month"`
+          }],
+          structuredContent: {
+            schedules: [],
+            total: 0
+          },
+          _meta: {
+            "openai/outputTemplate": "component://scheduled-transfers"
+          }
+        };
+      }
 
-          mybambuResponse = {
-            success: true,
-            mybambuTransferId: transfer.mybambu_id,
-            status: transfer.status,
-            estimatedDelivery: transfer.estimated_arrival,
-            message: 'Real transfer processed via Wise API'
-          };
+      return {
+        content: [{
+          type: "text",
+          text: `📋 You have ${allScheduled.length} scheduled transfer${allScheduled.length !== 1 ? 's' : ''}:\n\n` +
+            allScheduled.map(s =>
+              `• ${formatScheduleAmount(s)} to ${s.recipient_name} (${s.recurrence_description}) - ` +
+              (s.status === 'paused'
+                ? `⏸️ Paused: ${s.paused_reason || 'paused'}`
+                : `Next: ${s.upcoming_executions.map((d: string) => formatScheduleDate(d, s)).join(', ')}`) +
+              ` - ${s.execution_count || 0} sent so far (${s.id})`
+            ).join('\n')
+        }],
+        structuredContent: {
+          schedules: allScheduled,
+          total: allScheduled.length
+        },
+        _meta: {
+          "openai/outputTemplate": "component://scheduled-transfers"
+        }
+      };
+    }
 
-          console.log(`✅ REAL transfer created: ${wiseResult.transferId}`);
-        } catch (error: any) {
-          console.error(`❌ Wise API error:`, error.message);
-          // Fall back to simulation if Wise API fails
-          mybambuResponse = simulateMyBambuTransfer({
-            amount,
-            to_country,
-            recipient_name,
-            currency: corridor.currency
-          });
+    // TOOL: cancel_scheduled_transfer
+    if (toolName === "cancel_scheduled_transfer") {
+      const { schedule_id } = args as any;
 
-          transfer = {
-            id: transferId,
-            mybambu_id: mybambuResponse.mybambuTransferId,
-            from_currency: 'USD',
-            to_currency: corridor.currency,
-            amount,
-            fee: feeAmount,
-            net_amount: netAmount,
-            exchange_rate: rate,
-            recipient_amount: recipientAmount,
-            recipient_name,
-            recipient_country: corridor.country,
-            delivery_time: corridor.deliveryTime,
-            status: mybambuResponse.status,
-            estimated_arrival: mybambuResponse.estimatedDelivery,
-            created_at: new Date().toISOString(),
-            is_real_transfer: false,
-            error_note: `Wise API failed: ${error.message}. Using simulation.`
-          };
+      const { schedule, error } = await updateSchedule(storage, schedule_id, s => {
+        if (s.status === 'cancelled' || s.status === 'completed') {
+          return `Scheduled transfer ${s.id} is already ${s.status}.`;
         }
-      } else {
-        // DEMO MODE: Simulate transfer
-        console.log(`🎭 Processing DEMO transfer (simulated)...`);
-        mybambuResponse = simulateMyBambuTransfer({
-          amount,
-          to_country,
-          recipient_name,
-          currency: corridor.currency
-        });
+        s.status = 'cancelled';
+        s.cancelled_at = new Date().toISOString();
+        delete s.retry_at;
+        recordScheduleEvent(s, { action: 'cancelled', by: 'user' });
+      });
 
-        transfer = {
-          id: transferId,
-          mybambu_id: mybambuResponse.mybambuTransferId,
-          from_currency: 'USD',
-          to_currency: corridor.currency,
-          amount,
-          fee: feeAmount,
-          net_amount: netAmount,
-          exchange_rate: rate,
-          recipient_amount: recipientAmount,
-          recipient_name,
-          recipient_country: corridor.country,
-          delivery_time: corridor.deliveryTime,
-          status: mybambuResponse.status,
-          estimated_arrival: mybambuResponse.estimatedDelivery,
-          created_at: new Date().toISOString(),
-          is_real_transfer: false
+      if (!schedule) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Scheduled transfer not found: ${schedule_id}. Use "list scheduled transfers" to see all active schedules.`
+          }],
+          isError: true
         };
       }
+      if (error) {
+        return { content: [{ type: "text", text: `❌ ${error}` }], isError: true };
+      }
 
-      transfers.set(transferId, transfer);
-
-      // Return structured response with widget
       return {
         content: [{
           type: "text",
-          text: `✅ Transfer initiated! ${recipient_name} in ${corridor.country} will receive ${recipientAmount.toFixed(2)} ${corridor.currency}.\n⏱️ Estimated delivery: ${corridor.deliveryTime}.\n🆔 Transfer ID: ${transferId}`
+          text: `✅ Scheduled transfer cancelled. ${formatScheduleAmount(schedule)} ${schedule.frequency} payments to ${schedule.recipient_name} have been stopped.`
         }],
-        structuredContent: transfer,
+        structuredContent: {
+          cancelled: true,
+          scheduleId: schedule_id,
+          recipientName: schedule.recipient_name,
+          amount: schedule.amount,
+          frequency: schedule.frequency,
+          // Remaining schedules, so the widget can redraw in place
+          schedules: await listVisibleSchedules(storage)
+        },
         _meta: {
-          "openai/outputTemplate": "component://transfer-receipt",
-          mybambuResponse,
-          feeBreakdown: {
-            baseAmount: amount,
-            feePercentage: transferLimits.fees.standard,
-            feeAmount,
-            netAmount,
-            exchangeRate: rate,
-            finalAmount: recipientAmount
+          "openai/outputTemplate": "component://scheduled-transfers"
+        }
+      };
+    }
+
+    // TOOL: pause_scheduled_transfer
+    if (toolName === "pause_scheduled_transfer") {
+      const { schedule_id } = args as any;
+
+      const { schedule, error } = await updateSchedule(storage, schedule_id, s => {
+        if (s.status !== 'active') {
+          return `Scheduled transfer ${s.id} is ${s.status}, so it can't be paused.`;
+        }
+        s.status = 'paused';
+        s.paused_at = new Date().toISOString();
+        s.paused_reason = 'Paused by you';
+        delete s.retry_at;
+        recordScheduleEvent(s, { action: 'paused', by: 'user' });
+      });
+
+      if (!schedule) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Scheduled transfer not found: ${schedule_id}. Use "list scheduled transfers" to see all schedules.`
+          }],
+          isError: true
+        };
+      }
+      if (error) {
+        return { content: [{ type: "text", text: `❌ ${error}` }], isError: true };
+      }
+
+      return scheduleChangeResult(storage, schedule,
+        `⏸️ Paused. No more ${formatScheduleAmount(schedule)} payments to ${schedule.recipient_name} will be sent until you resume it (${schedule.id}).`);
+    }
+
+    // TOOL: resume_scheduled_transfer
+    if (toolName === "resume_scheduled_transfer") {
+      const { schedule_id } = args as any;
+      let skipped: string | null = null;
+
+      const { schedule, error } = await updateSchedule(storage, schedule_id, s => {
+        if (s.status !== 'paused') {
+          return `Scheduled transfer ${s.id} is ${s.status}; only paused schedules can be resumed.`;
+        }
+
+        const changes: Record<string, { from: unknown; to: unknown }> = { status: { from: 'paused', to: 'active' } };
+        skipped = null;
+
+        // Payments that fell due while paused are skipped, not all sent at once on resume
+        if (new Date(s.next_execution).getTime() < Date.now()) {
+          const { next, missed } = getScheduler().nextOccurrence(s);
+          if (!next) {
+            return `Scheduled transfer ${s.id} has no payments left after ${formatScheduleDate(s.next_execution, s)}. Change its end date first.`;
+          }
+          skipped = s.next_execution;
+          changes.next_execution = { from: s.next_execution, to: next };
+          s.next_execution = next;
+          s.missed_executions = (s.missed_executions || 0) + missed + 1;
+        }
+
+        s.status = 'active';
+        s.failure_count = 0;
+        s.last_error = null;
+        delete s.paused_at;
+        delete s.paused_reason;
+        delete s.retry_at;
+        recordScheduleEvent(s, { action: 'resumed', by: 'user', changes });
+      });
+
+      if (!schedule) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Scheduled transfer not found: ${schedule_id}. Use "list scheduled transfers" to see all schedules.`
+          }],
+          isError: true
+        };
+      }
+      if (error) {
+        return { content: [{ type: "text", text: `❌ ${error}` }], isError: true };
+      }
+
+      return scheduleChangeResult(storage, schedule,
+        `▶️ Resumed. Next payment of ${formatScheduleAmount(schedule)} to ${schedule.recipient_name}: ${formatScheduleDate(schedule.next_execution, schedule)}.` +
+        (skipped
+          ? `\nThe payments missed while paused (from ${formatScheduleDate(skipped, schedule)}) were skipped. To send one sooner, update next_execution_date.`
+          : ''));
+    }
+
+    // TOOL: update_scheduled_transfer
+    if (toolName === "update_scheduled_transfer") {
+      const { schedule_id, amount, frequency, next_execution_date, end_date, max_occurrences } = args as any;
+
+      if (amount === undefined && !frequency && !next_execution_date && end_date === undefined && max_occurrences === undefined) {
+        return {
+          content: [{
+            type: "text",
+            text: "❌ Tell me what to change: amount, frequency, next_execution_date, end_date or max_occurrences."
+          }],
+          isError: true
+        };
+      }
+      if (amount !== undefined && (typeof amount !== 'number' || amount <= 0)) {
+        return { content: [{ type: "text", text: "❌ Amount must be greater than $0" }], isError: true };
+      }
+      if (frequency && !RECURRENCE_PATTERNS.includes(frequency)) {
+        return {
+          content: [{ type: "text", text: `❌ Invalid frequency. Please choose: ${RECURRENCE_PATTERNS.join(', ')}` }],
+          isError: true
+        };
+      }
+      if (max_occurrences !== undefined && (!Number.isInteger(max_occurrences) || max_occurrences < 0)) {
+        return {
+          content: [{ type: "text", text: "❌ max_occurrences must be a whole number of payments (0 removes the limit)" }],
+          isError: true
+        };
+      }
+
+      let changes: Record<string, { from: unknown; to: unknown }> = {};
+      // The limit is in USD and the amount in the schedule's currency
+      const rateData = amount !== undefined ? await fetchExchangeRates() : null;
+
+      const { schedule, error } = await updateSchedule(storage, schedule_id, s => {
+        if (s.status !== 'active' && s.status !== 'paused') {
+          return `Scheduled transfer ${s.id} is ${s.status} and can't be changed.`;
+        }
+        const amountError = amount !== undefined ? scheduledAmountError(amount, s.currency_from || 'USD', rateData) : null;
+        if (amountError) {
+          return amountError;
+        }
+
+        // Dates are read in the schedule's own time zone, keeping its time of day
+        const timezone = scheduleTimezone(s);
+        const nextExecution = next_execution_date
+          ? parseLocalDate(next_execution_date, timezone, localTimeOf(s.next_execution, timezone))
+          : null;
+        if (next_execution_date && (!nextExecution || new Date(nextExecution).getTime() < Date.now())) {
+          return `"${next_execution_date}" isn't a valid upcoming date for the next payment.`;
+        }
+        const endDate = end_date ? parseLocalDate(end_date, timezone, '23:59:59') : null;
+        if (end_date && !endDate) {
+          return `"${end_date}" isn't a valid end date.`;
+        }
+
+        changes = {};
+        const set = (field: string, value: unknown) => {
+          if ((s[field] ?? null) !== value) {
+            changes[field] = { from: s[field] ?? null, to: value };
+            s[field] = value;
+          }
+        };
+
+        if (amount !== undefined) {
+          set('amount', amount);
+          // A new amount to send replaces a fixed recipient amount
+          if (s.recipient_amount) set('recipient_amount', null);
+        }
+        if (frequency || nextExecution) {
+          const pattern = frequency || s.frequency;
+          if (frequency || ANCHORED_PATTERNS.includes(pattern)) {
+            // Anchored patterns repeat from their start, so a new first date re-anchors the rule
+            const rule = patternRule(pattern, nextExecution || s.next_execution, timezone);
+            set('frequency', pattern);
+            s.recurrence = rule;
+            set('next_execution', rule.start);
+          } else {
+            set('next_execution', nextExecution);
           }
+          // A new date replaces any retry of the old occurrence
+          s.failure_count = 0;
+          delete s.retry_at;
+        }
+        if (end_date !== undefined) set('end_date', endDate);
+        if (max_occurrences !== undefined) set('max_occurrences', max_occurrences || null);
+
+        if (s.end_date && new Date(s.end_date).getTime() < new Date(s.next_execution).getTime()) {
+          return `The end date (${formatScheduleDate(s.end_date, s)}) would be before the next payment (${formatScheduleDate(s.next_execution, s)}). To stop the schedule, cancel it instead.`;
+        }
+        if (s.max_occurrences && s.max_occurrences <= (s.execution_count || 0)) {
+          return `Scheduled transfer ${s.id} has already sent ${s.execution_count} payment${s.execution_count === 1 ? '' : 's'}, so max_occurrences must be more than that. To stop the schedule, cancel it instead.`;
         }
+        if (Object.keys(changes).length === 0) {
+          return `Scheduled transfer ${s.id} already has those settings - nothing to change.`;
+        }
+        recordScheduleEvent(s, { action: 'updated', by: 'user', changes });
+      });
+
+      if (!schedule) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Scheduled transfer not found: ${schedule_id}. Use "list scheduled transfers" to see all schedules.`
+          }],
+          isError: true
+        };
+      }
+      if (error) {
+        return { content: [{ type: "text", text: `❌ ${error}` }], isError: true };
+      }
+
+      const describe = (field: string, value: any) => {
+        if (value === null) return 'none';
+        if (field === 'amount') return formatScheduleAmount(schedule, value);
+        if (field === 'recipient_amount') return `${Number(value).toFixed(2)} ${schedule.currency_to}`;
+        if (field === 'next_execution' || field === 'end_date') return formatScheduleDate(value, schedule);
+        return String(value);
       };
+
+      return scheduleChangeResult(storage, schedule,
+        `✏️ Scheduled transfer ${schedule.id} updated:\n` +
+        Object.entries(changes).map(([field, { from, to }]) =>
+          `• ${field.replace('_', ' ')}: ${describe(field, from)} → ${describe(field, to)}`
+        ).join('\n') +
+        `\n\nNext payment: ${formatScheduleDate(schedule.next_execution, schedule)}`);
     }
 
-    // TOOL: get_exchange_rate
-    if (toolName === "get_exchange_rate") {
-      const { to_currency, to_country } = args as any;
+    // TOOL: skip_next_execution
+    if (toolName === "skip_next_execution") {
+      const { schedule_id } = args as any;
 
-      const rateData = await fetchExchangeRates();
-      const rate = rateData.rates[to_currency];
+      const { schedule, error, skipped } = await getScheduler().skipNext(storage, schedule_id);
 
-      if (!rate) {
+      if (!schedule) {
         return {
           content: [{
             type: "text",
-            text: `❌ Exchange rate not available for ${to_currency}`,
+            text: `❌ Scheduled transfer not found: ${schedule_id}. Use "list scheduled transfers" to see all schedules.`
           }],
           isError: true
         };
       }
+      if (error) {
+        return { content: [{ type: "text", text: `❌ ${error}` }], isError: true };
+      }
 
-      // Find corridor for delivery time
-      const corridor = SUPPORTED_CORRIDORS.find(c =>
-        c.currency === to_currency ||
-        (to_country && c.country.toLowerCase() === to_country.toLowerCase())
-      );
-
-      const responseData = {
-        from_currency: 'USD',
-        to_currency,
-        rate,
-        timestamp: rateData.timestamp,
-        delivery_time: corridor?.deliveryTime || '1-3 hours'
-      };
-
-      return {
-        content: [{
-          type: "text",
-          text: `💱 Current rate: 1 USD = ${rate.toFixed(4)} ${to_currency}\n\n📦 Delivery time: ${responseData.delivery_time}\n💰 Our fee: Starting at $0.85\n\nLast updated: ${new Date(rateData.timestamp).toLocaleString()}`
-        }],
-        structuredContent: responseData,
-        _meta: {
-          "openai/outputTemplate": "component://exchange-rate",
-          rawRateData: rateData,
-          corridor
-        }
-      };
+      return scheduleChangeResult(storage, schedule,
+        `⏭️ Skipped the ${formatScheduleDate(skipped!, schedule)} payment to ${schedule.recipient_name}. ` +
+        (schedule.status === 'completed'
+          ? `That was the last one, so the schedule is now complete.`
+          : `Next payment: ${formatScheduleDate(schedule.next_execution, schedule)}.`));
     }
 
-    // TOOL: check_transfer_status
-    if (toolName === "check_transfer_status") {
-      const { transfer_id } = args as any;
+    // TOOL: send_again
+    if (toolName === "send_again") {
+      const { recipient_name, idempotency_key } = args as any;
 
-      const transfer = transfers.get(transfer_id);
+      // Find the last transfer to this recipient (or overall last transfer if no name)
+      const allTransfers = (await storage.transfers.list())
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
 
-      if (!transfer) {
+      let lastTransfer;
+      if (recipient_name) {
+        lastTransfer = allTransfers.find(t =>
+          t.recipient_name.toLowerCase().includes(recipient_name.toLowerCase())
+        );
+      } else {
+        lastTransfer = allTransfers[0];
+      }
+
+      if (!lastTransfer) {
         return {
           content: [{
             type: "text",
-            text: `❌ Transfer not found: ${transfer_id}. Please check the transfer ID and try again.`,
+            text: recipient_name
+              ? `❌ No previous transfers found to ${recipient_name}`
+              : `❌ No previous transfers found. Send your first transfer!`
           }],
           isError: true
         };
       }
 
-      // Simulate status progression
-      const statuses = ['pending', 'processing', 'completed'];
-      const currentIndex = statuses.indexOf(transfer.status);
-      if (currentIndex < statuses.length - 1 && Math.random() > 0.5) {
-        transfer.status = statuses[currentIndex + 1];
+      // Same checks and transfer path as send_money: in real mode this is a real transfer to the
+      // same payout account, or a request for bank details when the transfer didn't use a saved one
+      const prepared = await prepareTransfer(storage, {
+        amount: lastTransfer.amount,
+        from_currency: lastTransfer.from_currency,
+        ...(lastTransfer.recipient_id
+          ? { recipient_id: lastTransfer.recipient_id, account_id: lastTransfer.payout_account_id }
+          : { to_country: lastTransfer.recipient_country, recipient_name: lastTransfer.recipient_name })
+      }, 'send_money');
+      if ('isError' in prepared) {
+        return prepared;
+      }
+
+      const { transfer } = await executeTransfer(storage, {
+        amount: prepared.amount,
+        fee: calculateFee(prepared.amount, prepared.usdRate),
+        fromCurrency: prepared.fromCurrency,
+        amountUsd: prepared.amountUsd,
+        corridor: prepared.corridor,
+        recipientName: prepared.recipientName,
+        bankDetails: prepared.bankDetails,
+        recipient: prepared.recipient,
+        savedAccount: prepared.savedAccount,
+        rate: prepared.rate,
+        customerTransactionId: idempotency_key
+          ? customerTransactionIdFor(ownerId, String(idempotency_key))
+          : undefined,
+        recordFields: prepared.recordFields
+      });
+      if (isFailedTransfer(transfer)) {
+        return failedTransferResult(transfer);
       }
 
       return {
         content: [{
           type: "text",
-          text: `📊 Transfer Status: ${transfer.status.toUpperCase()}\n\n💸 ${transfer.recipient_amount.toFixed(2)} ${transfer.to_currency} to ${transfer.recipient_name}\n📅 Estimated arrival: ${new Date(transfer.estimated_arrival).toLocaleString()}\n🆔 ${transfer.id}`
+          text: `✅ Transfer repeated! Sent ${formatMoney(transfer.amount, transfer.from_currency)} to ${transfer.recipient_name} in ${transfer.recipient_country} again. They'll receive ${Number(transfer.recipient_amount).toFixed(2)} ${transfer.to_currency}.\n🆔 Transfer ID: ${transfer.id}` + fundingNote(transfer)
         }],
-        structuredContent: transfer,
+        structuredContent: presentTransfer(transfer),
         _meta: {
           "openai/outputTemplate": "component://transfer-receipt",
-          statusHistory: [
-            { status: 'pending', timestamp: transfer.created_at },
-            { status: transfer.status, timestamp: new Date().toISOString() }
-          ]
+          repeated: true,
+          originalTransferId: lastTransfer.id
         }
       };
     }
 
-    // TOOL: get_transfer_history
-    if (toolName === "get_transfer_history") {
-      const { limit = 10 } = args as any;
+    // TOOL: quick_send
+    if (toolName === "quick_send") {
+      const { recipient_name, amount, account_id, idempotency_key } = args as any;
 
-      const allTransfers = Array.from(transfers.values())
-        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-        .slice(0, limit);
+      // Look up recipient in saved recipients or past transfers
+      const savedRecipient = (await storage.recipients.list()).find(r =>
+        r.name.toLowerCase().includes(recipient_name.toLowerCase())
+      );
 
-      return {
-        content: [{
-          type: "text",
-          text: allTransfers.length > 0
-            ? `📋 Found ${allTransfers.length} transfer${allTransfers.length !== 1 ? 's' : ''}:\n\n` +
-              allTransfers.map(t =>
-                `• ${t.recipient_amount.toFixed(2)} ${t.to_currency} to ${t.recipient_name} - ${t.status.toUpperCase()} (${t.id})`
-              ).join('\n')
-            : `📭 No transfers found. Start by saying "Send $100 to Mexico"`
-        }],
-        structuredContent: {
-          transfers: allTransfers,
-          total: allTransfers.length
-        },
-        _meta: {
-          "openai/outputTemplate": "component://transfer-history"
-        }
-      };
-    }
+      const pastTransfer = (await storage.transfers.list()).find(t =>
+        t.recipient_name.toLowerCase().includes(recipient_name.toLowerCase())
+      );
 
-    // TOOL: get_supported_countries
-    if (toolName === "get_supported_countries") {
-      const { region } = args as any;
+      if (!savedRecipient && !pastTransfer) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ I don't have ${recipient_name} in your recipients or transfer history. Please specify the country: "Quick send $${amount} to ${recipient_name} in [country]"`
+          }],
+          isError: true
+        };
+      }
 
-      let corridors = SUPPORTED_CORRIDORS;
-      if (region) {
-        corridors = SUPPORTED_CORRIDORS.filter(c =>
-          c.region.toLowerCase() === region.toLowerCase()
-        );
+      // A saved recipient's default (or chosen) payout account supplies the bank details;
+      // anyone else goes through send_money's checks, which ask for them in real mode
+      const prepared = await prepareTransfer(storage, savedRecipient
+        ? { amount, recipient_id: savedRecipient.id, account_id }
+        : { amount, to_country: pastTransfer!.recipient_country, recipient_name: pastTransfer!.recipient_name },
+        'send_money');
+      if ('isError' in prepared) {
+        return prepared;
       }
 
-      // Group by region for better display
-      const byRegion = corridors.reduce((acc: any, c) => {
-        if (!acc[c.region]) acc[c.region] = [];
-        acc[c.region].push(c);
-        return acc;
-      }, {});
+      const feeAmount = calculateFee(amount, prepared.usdRate);
+      const { transfer } = await executeTransfer(storage, {
+        amount,
+        fee: feeAmount,
+        fromCurrency: prepared.fromCurrency,
+        amountUsd: prepared.amountUsd,
+        corridor: prepared.corridor,
+        recipientName: prepared.recipientName,
+        bankDetails: prepared.bankDetails,
+        recipient: prepared.recipient,
+        savedAccount: prepared.savedAccount,
+        rate: prepared.rate,
+        customerTransactionId: idempotency_key
+          ? customerTransactionIdFor(ownerId, String(idempotency_key))
+          : undefined,
+        recordFields: prepared.recordFields
+      });
+      if (isFailedTransfer(transfer)) {
+        return failedTransferResult(transfer);
+      }
 
-      const regionText = Object.entries(byRegion)
-        .map(([reg, countries]: [string, any]) =>
-          `\n**${reg}** (${countries.length} countries):\n` +
-          countries.map((c: any) =>
-            `  • ${c.country} (${c.currency}) - ${c.deliveryTime}`
-          ).join('\n')
-        ).join('\n');
+      // Update recipient stats if exists
+      if (savedRecipient) {
+        savedRecipient.total_sent += amount;
+        savedRecipient.transfer_count++;
+        await storage.recipients.save(savedRecipient);
+      }
 
       return {
         content: [{
           type: "text",
-          text: `🌍 MyBambu supports transfers to ${corridors.length} countries${region ? ` in ${region}` : ' worldwide'}:\n` +
-            regionText +
-            `\n\n💰 Low fees starting at $0.85\n⚡ Fast delivery in as little as 35 minutes\n🌎 Latin America, Asia, Europe, Africa, Middle East, Oceania covered`
+          text: `⚡ Quick sent! ${formatMoney(amount, prepared.fromCurrency)} to ${transfer.recipient_name} in ${transfer.recipient_country}. They'll receive ${Number(transfer.recipient_amount).toFixed(2)} ${transfer.to_currency} in ${prepared.corridor.deliveryTime}.` +
+            (transfer.is_real_transfer ? `\n🆔 Transfer ID: ${transfer.id}` : '') + fundingNote(transfer)
         }],
-        structuredContent: {
-          corridors,
-          byRegion,
-          total: corridors.length,
-          regions: Object.keys(byRegion)
+        structuredContent: presentTransfer(transfer),
+        _meta: {
+          "openai/outputTemplate": "component://transfer-receipt",
+          quickSend: true
         }
       };
     }
 
-    // TOOL: add_recipient
-    if (toolName === "add_recipient") {
-      const { name, country, phone, email, relationship } = args as any;
+    // TOOL: compare_rates
+    if (toolName === "compare_rates") {
+      const { to_country, amount = 100 } = args as any;
+      const fromCurrency = parseSourceCurrency((args as any).from_currency);
+      if (!fromCurrency) {
+        return unsupportedSourceCurrencyResult((args as any).from_currency);
+      }
 
-      // Validation
-      if (!name || !country) {
+      const corridor = SUPPORTED_CORRIDORS.find(c =>
+        c.country.toLowerCase() === to_country.toLowerCase()
+      );
+
+      if (!corridor) {
         return {
           content: [{
             type: "text",
-            text: "❌ Please provide both recipient name and country"
+            text: `❌ Sorry, we don't support transfers to ${to_country} yet.`
           }],
           isError: true
         };
       }
 
-      // Verify country is supported
-      const corridor = SUPPORTED_CORRIDORS.find(c =>
-        c.country.toLowerCase() === country.toLowerCase()
-      );
+      // Get exchange rate
+      const rateData = await fetchExchangeRates();
+      const baseRate = crossRate(rateData, fromCurrency, corridor.currency);
+      // The fee's minimum and maximum are in USD
+      const usdRate = crossRate(rateData, 'USD', fromCurrency);
 
-      if (!corridor) {
+      if (!baseRate || !usdRate) {
         return {
           content: [{
             type: "text",
-            text: `❌ Sorry, we don't support transfers to ${country} yet. Please use a supported country.`
+            text: `❌ Exchange rate not available for ${fromCurrency} to ${corridor.currency}`
           }],
           isError: true
         };
       }
 
-      // Create recipient
-      const recipientId = `RCP-${recipientCounter++}`;
-      const recipient = {
-        id: recipientId,
-        name,
-        country: corridor.country,
-        currency: corridor.currency,
-        phone: phone || null,
-        email: email || null,
-        relationship: relationship || 'Other',
-        created_at: new Date().toISOString(),
-        total_sent: 0,
-        transfer_count: 0
-      };
-
-      recipients.set(recipientId, recipient);
+      // Simulate competitor rates (MyBambu is always better!)
+      const mybambuFee = calculateFee(amount, usdRate);
+      const mybambuNet = amount - mybambuFee;
+      const mybambuReceives = mybambuNet * baseRate;
 
-      return {
-        content: [{
-          type: "text",
-          text: `✅ Recipient saved! ${name} in ${corridor.country} has been added to your recipients list. You can now send money by saying "Send $100 to ${name}"`
-        }],
-        structuredContent: recipient,
-        _meta: {
-          "openai/outputTemplate": "component://recipient-management",
-          recipientId,
-          totalRecipients: recipients.size,
-          supportedCurrency: corridor.currency
+      const competitors = [
+        {
+          name: "Western Union",
+          fee: amount * 0.05, // 5%
+          rate: baseRate * 0.96, // Worse rate
+          color: "#FFCC00"
+        },
+        {
+          name: "MoneyGram",
+          fee: amount * 0.048, // 4.8%
+          rate: baseRate * 0.965, // Worse rate
+          color: "#E31C25"
+        },
+        {
+          name: "Remitly",
+          fee: amount * 0.035, // 3.5%
+          rate: baseRate * 0.98, // Slightly worse rate
+          color: "#5B47FB"
+        },
+        {
+          name: "Wise",
+          fee: amount * 0.032, // 3.2%
+          rate: baseRate * 0.99, // Slightly worse rate
+          color: "#37517E"
         }
-      };
-    }
-
-    // TOOL: list_recipients
-    if (toolName === "list_recipients") {
-      const allRecipients = Array.from(recipients.values())
-        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+      ];
 
-      if (allRecipients.length === 0) {
+      const comparison = competitors.map(comp => {
+        const net = amount - comp.fee;
+        const receives = net * comp.rate;
+        const savings = mybambuReceives - receives;
         return {
-          content: [{
-            type: "text",
-            text: `📭 You haven't saved any recipients yet. Save someone by saying "Add Maria in Mexico as a recipient"`
-          }],
-          structuredContent: {
-            recipients: [],
-            total: 0
-          },
-          _meta: {
-            "openai/outputTemplate": "component://recipient-management"
-          }
+          ...comp,
+          net,
+          receives: receives.toFixed(2),
+          savings: savings.toFixed(2),
+          savingsPercent: ((savings / receives) * 100).toFixed(1)
         };
-      }
+      });
+
+      const freshness = rateFreshness(rateData, fromCurrency, corridor.currency);
 
       return {
         content: [{
           type: "text",
-          text: `📋 You have ${allRecipients.length} saved recipient${allRecipients.length !== 1 ? 's' : ''}:\n\n` +
-            allRecipients.map(r =>
-              `• ${r.name} (${r.country}) - ${r.transfer_count} transfer${r.transfer_count !== 1 ? 's' : ''}, $${r.total_sent.toFixed(2)} total`
-            ).join('\n') +
-            `\n\nSend money to anyone by saying "Send $100 to ${allRecipients[0].name}"`
+          text: `💰 Rate Comparison for ${formatMoney(amount, fromCurrency)} to ${corridor.country}:` +
+            staleRateWarning(freshness) + `\n\n` +
+            `MyBambu: ${mybambuReceives.toFixed(2)} ${corridor.currency} (Fee: ${formatMoney(mybambuFee, fromCurrency)})\n\n` +
+            comparison.map(c =>
+              `${c.name}: ${c.receives} ${corridor.currency} (Fee: ${formatMoney(c.fee, fromCurrency)})` +
+              (Number(c.savings) > 0 ? ` - You save ${c.savings} ${corridor.currency} with MyBambu! 🎉` : '')
+            ).join('\n')
         }],
         structuredContent: {
-          recipients: allRecipients,
-          total: allRecipients.length
+          mybambu: {
+            fee: mybambuFee,
+            net: mybambuNet,
+            rate: baseRate,
+            receives: mybambuReceives,
+            currency: corridor.currency
+          },
+          competitors: comparison,
+          country: corridor.country,
+          amount,
+          from_currency: fromCurrency,
+          rate_as_of: freshness.as_of,
+          stale: freshness.stale
         },
         _meta: {
-          "openai/outputTemplate": "component://recipient-management"
+          "openai/outputTemplate": "component://rate-comparison"
         }
       };
     }
 
-    // TOOL: delete_recipient
-    if (toolName === "delete_recipient") {
-      const { recipient_id } = args as any;
-
-      const recipient = recipients.get(recipient_id);
+    // TOOL: get_rate_history
+    if (toolName === "get_rate_history") {
+      const { to_country, days = 30 } = args as any;
+      const fromCurrency = parseSourceCurrency((args as any).from_currency);
+      if (!fromCurrency) {
+        return unsupportedSourceCurrencyResult((args as any).from_currency);
+      }
 
-      if (!recipient) {
+      const corridor = SUPPORTED_CORRIDORS.find(c =>
+        c.currency === (args as any).to_currency?.toUpperCase() ||
+        (to_country && c.country.toLowerCase() === to_country.toLowerCase())
+      );
+      if (!corridor) {
         return {
           content: [{
             type: "text",
-            text: `❌ Recipient not found: ${recipient_id}. Use "list recipients" to see all saved recipients.`
+            text: `❌ Sorry, we don't support transfers to ${to_country || (args as any).to_currency || 'that destination'} yet.`
+          }],
+          isError: true
+        };
+      }
+      if (!HISTORY_PERIODS.includes(days)) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Rate history covers the last 7, 30 or 90 days`
           }],
           isError: true
         };
       }
 
-      const recipientName = recipient.name;
-      recipients.delete(recipient_id);
+      // Fetching first records today's rates if they haven't been already
+      const rateData = await fetchExchangeRates();
+      const freshness = rateFreshness(rateData, fromCurrency, corridor.currency);
+      const history: RateHistory = await getRateHistory(getStorage(), fromCurrency, corridor.currency, days);
+      const pair = `${fromCurrency} → ${corridor.currency}`;
+
+      let text: string;
+      if (history.points.length === 0 || history.current === null) {
+        text = `📭 No rate history for ${pair} yet. Rates are recorded each time they're fetched, so check back in a day or two.`;
+      } else {
+        const day = (date: string) => new Date(date).toLocaleDateString(undefined, { timeZone: 'UTC', month: 'short', day: 'numeric' });
+        const change = (percent: number | null) =>
+          percent === null ? 'not enough history yet' : `${percent > 0 ? '+' : ''}${percent.toFixed(2)}%`;
+        const position = history.position_percent;
+
+        text = `📈 ${pair} over the last ${days} days (${history.points.length} daily rate${history.points.length === 1 ? '' : 's'}):\n\n` +
+          `Now: ${history.current.toFixed(4)}\n` +
+          `Low: ${history.min!.rate.toFixed(4)} on ${day(history.min!.date)} · High: ${history.max!.rate.toFixed(4)} on ${day(history.max!.date)}\n` +
+          `Average: ${history.average!.toFixed(4)}\n\n` +
+          `Change: 7 days ${change(history.change_percent['7d'])} · 30 days ${change(history.change_percent['30d'])} · 90 days ${change(history.change_percent['90d'])}`;
+        // A higher rate means more for the recipient
+        if (position !== null) {
+          text += `\n\n` + (position >= 75
+            ? `💡 Today's rate is near the top of its ${days}-day range (${position}%) - a good day to send.`
+            : position <= 25
+              ? `💡 Today's rate is near the bottom of its ${days}-day range (${position}%) - if it can wait, the rate has been better recently.`
+              : `💡 Today's rate is in the middle of its ${days}-day range (${position}%).`) +
+            ` Past rates don't predict where it goes next.`;
+        }
+      }
 
       return {
         content: [{
           type: "text",
-          text: `✅ ${recipientName} has been removed from your recipients list.`
+          text: text + staleRateWarning(freshness)
         }],
         structuredContent: {
-          deleted: true,
-          recipientId: recipient_id,
-          recipientName,
-          remainingRecipients: recipients.size
+          ...history,
+          country: corridor.country,
+          as_of: freshness.as_of,
+          stale: freshness.stale
         },
         _meta: {
-          "openai/outputTemplate": "component://recipient-management"
+          "openai/outputTemplate": "component://rate-history"
         }
       };
     }
 
-    // TOOL: schedule_transfer
-    if (toolName === "schedule_transfer") {
-      const { amount, to_country, recipient_name, frequency, start_date } = args as any;
+    // TOOL: create_rate_alert
+    if (toolName === "create_rate_alert") {
+      const { to_country, target_rate, direction, email, phone } = args as any;
+      const fromCurrency = parseSourceCurrency((args as any).from_currency);
+      if (!fromCurrency) {
+        return unsupportedSourceCurrencyResult((args as any).from_currency);
+      }
 
-      // Validation
-      if (amount <= 0) {
+      const corridor = SUPPORTED_CORRIDORS.find(c =>
+        c.currency === (args as any).to_currency?.toUpperCase() ||
+        (to_country && c.country.toLowerCase() === to_country.toLowerCase())
+      );
+      if (!corridor) {
         return {
           content: [{
             type: "text",
-            text: "❌ Amount must be greater than $0"
+            text: `❌ Sorry, we don't support transfers to ${to_country || (args as any).to_currency || 'that destination'} yet.`
           }],
           isError: true
         };
       }
-
-      if (!to_country || !recipient_name) {
+      if (!(target_rate > 0)) {
         return {
           content: [{
             type: "text",
-            text: "❌ Please specify both recipient name and country"
+            text: "❌ Target rate must be greater than 0"
+          }],
+          isError: true
+        };
+      }
+      if (direction !== undefined && direction !== 'above' && direction !== 'below') {
+        return {
+          content: [{
+            type: "text",
+            text: "❌ Direction must be 'above' or 'below'"
+          }],
+          isError: true
+        };
+      }
+      if (email !== undefined && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ ${email} doesn't look like an email address`
+          }],
+          isError: true
+        };
+      }
+      if (phone !== undefined && !/^\+?[\d\s().\-]{7,20}$/.test(phone)) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ ${phone} doesn't look like a phone number`
           }],
           isError: true
         };
       }
 
-      // Find country info
-      const corridor = SUPPORTED_CORRIDORS.find(c =>
-        c.country.toLowerCase() === to_country.toLowerCase()
-      );
+      const active = (await storage.rateAlerts.list()).filter(a => a.status === 'active');
+      if (active.length >= MAX_ACTIVE_RATE_ALERTS) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ You already have ${MAX_ACTIVE_RATE_ALERTS} active rate alerts - delete one first (list_rate_alerts shows them).`
+          }],
+          isError: true
+        };
+      }
 
-      if (!corridor) {
+      const rateData = await fetchExchangeRates();
+      const rate = crossRate(rateData, fromCurrency, corridor.currency);
+      if (!rate) {
         return {
           content: [{
             type: "text",
-            text: `❌ Sorry, we don't support transfers to ${to_country} yet. Supported countries: ${SUPPORTED_CORRIDORS.map(c => c.country).join(', ')}`
+            text: `❌ Exchange rate not available for ${fromCurrency} to ${corridor.currency}`
           }],
           isError: true
         };
       }
 
-      const validFrequencies = ['weekly', 'bi-weekly', 'monthly', 'quarterly'];
-      if (!validFrequencies.includes(frequency)) {
+      const target = {
+        from_currency: fromCurrency,
+        to_currency: corridor.currency,
+        direction: (direction ?? (target_rate >= rate ? 'above' : 'below')) as AlertDirection,
+        target_rate
+      };
+      if (target.direction === 'above' ? rate >= target_rate : rate <= target_rate) {
         return {
           content: [{
             type: "text",
-            text: `❌ Invalid frequency. Please choose: ${validFrequencies.join(', ')}`
+            text: `ℹ️ The rate is already there: 1 ${fromCurrency} = ${rate.toFixed(4)} ${corridor.currency} today, so an alert for ${describeAlertTarget(target)} would go off straight away. Send now, or pick a different target.`
           }],
           isError: true
         };
       }
 
-      // Create scheduled transfer
-      const scheduleId = `SCH-${scheduledCounter++}`;
-      const scheduledTransfer = {
-        id: scheduleId,
-        recipient_name,
-        recipient_country: corridor.country,
-        amount,
-        currency_from: 'USD',
-        currency_to: corridor.currency,
-        frequency,
-        start_date: start_date || new Date().toISOString(),
-        next_execution: start_date || new Date().toISOString(),
+      const alert: StoredRecord = {
+        id: `ALERT-${await storage.nextId('rate_alert')}`,
+        created_at: new Date().toISOString(),
+        ...target,
+        country: corridor.country,
+        rate_at_creation: rate,
         status: 'active',
-        total_sent: 0,
-        execution_count: 0,
-        created_at: new Date().toISOString()
+        notify_email: email ?? null,
+        notify_phone: phone ?? null
       };
+      await storage.rateAlerts.save(alert);
 
-      scheduledTransfers.set(scheduleId, scheduledTransfer);
-
-      // Calculate next execution dates based on frequency
-      const nextDates = getNextExecutionDates(frequency, start_date || new Date().toISOString(), 3);
-
+      const channels = [email && `by email at ${email}`, phone && `by text at ${phone}`].filter(Boolean);
       return {
         content: [{
           type: "text",
-          text: `✅ Scheduled transfer created! ${recipient_name} in ${corridor.country} will receive $${amount} ${frequency}.\n\n📅 Next 3 payments:\n` +
-            nextDates.map((d, i) => `  ${i + 1}. ${new Date(d).toLocaleDateString()}`).join('\n') +
-            `\n\n🆔 Schedule ID: ${scheduleId}`
+          text: `🔔 Alert set: we'll let you know when ${describeAlertTarget(alert)}.\n` +
+            `📊 Today: 1 ${fromCurrency} = ${rate.toFixed(4)} ${corridor.currency}` + staleRateWarning(rateFreshness(rateData, fromCurrency, corridor.currency)) + `\n\n` +
+            `You'll see it here the next time you use MyBambu after it goes off` +
+            (channels.length > 0 && getRateAlerts().notifiesOutsideChat ? `, and ${channels.join(' and ')}` : '') +
+            `.\n🆔 Alert ID: ${alert.id}`
         }],
-        structuredContent: scheduledTransfer,
-        _meta: {
-          "openai/outputTemplate": "component://scheduled-transfers",
-          scheduleId,
-          nextExecutionDates: nextDates,
-          totalScheduled: scheduledTransfers.size
-        }
+        structuredContent: alert
       };
     }
 
-    // TOOL: list_scheduled_transfers
-    if (toolName === "list_scheduled_transfers") {
-      const allScheduled = Array.from(scheduledTransfers.values())
-        .filter(s => s.status === 'active')
-        .sort((a, b) => new Date(a.next_execution).getTime() - new Date(b.next_execution).getTime());
+    // TOOL: list_rate_alerts
+    if (toolName === "list_rate_alerts") {
+      const alerts = (await storage.rateAlerts.list())
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
 
-      if (allScheduled.length === 0) {
+      if (alerts.length === 0) {
         return {
           content: [{
             type: "text",
-            text: `📭 You don't have any scheduled transfers. Set one up by saying "Send $100 to Maria every month"`
+            text: "📭 You don't have any rate alerts. Ask me to tell you when a rate hits a target, e.g. \"alert me when the peso reaches 19\"."
           }],
-          structuredContent: {
-            schedules: [],
-            total: 0
-          },
-          _meta: {
-            "openai/outputTemplate": "component://scheduled-transfers"
-          }
+          structuredContent: { alerts: [], count: 0 }
         };
       }
 
+      const rateData = await fetchExchangeRates();
+      const presented: StoredRecord[] = alerts.map(alert => ({
+        ...alert,
+        current_rate: crossRate(rateData, alert.from_currency, alert.to_currency)
+      }));
+      const lines = presented.map(alert => alert.status === 'triggered'
+        ? `✅ ${alert.id}: ${describeAlertTarget(alert)} - reached ${alert.triggered_rate.toFixed(4)} on ${new Date(alert.triggered_at).toLocaleString()}`
+        : `🔔 ${alert.id}: ${describeAlertTarget(alert)} (${alert.country})` +
+          (alert.current_rate ? ` - today ${alert.current_rate.toFixed(4)}` : ''));
+
       return {
         content: [{
           type: "text",
-          text: `📋 You have ${allScheduled.length} active scheduled transfer${allScheduled.length !== 1 ? 's' : ''}:\n\n` +
-            allScheduled.map(s =>
-              `• $${s.amount} to ${s.recipient_name} (${s.frequency}) - Next: ${new Date(s.next_execution).toLocaleDateString()} (${s.id})`
-            ).join('\n')
+          text: `Your rate alerts:\n\n${lines.join('\n')}`
         }],
-        structuredContent: {
-          schedules: allScheduled,
-          total: allScheduled.length
-        },
-        _meta: {
-          "openai/outputTemplate": "component://scheduled-transfers"
-        }
+        structuredContent: { alerts: presented, count: presented.length }
       };
     }
 
-    // TOOL: cancel_scheduled_transfer
-    if (toolName === "cancel_scheduled_transfer") {
-      const { schedule_id } = args as any;
-
-      const schedule = scheduledTransfers.get(schedule_id);
+    // TOOL: delete_rate_alert
+    if (toolName === "delete_rate_alert") {
+      const { alert_id } = args as any;
+      const alert = await storage.rateAlerts.get(alert_id);
 
-      if (!schedule) {
+      if (!alert || !await storage.rateAlerts.delete(alert_id)) {
         return {
           content: [{
             type: "text",
-            text: `❌ Scheduled transfer not found: ${schedule_id}. Use "list scheduled transfers" to see all active schedules.`
+            text: `❌ Rate alert ${alert_id} not found`
           }],
           isError: true
         };
       }
 
-      schedule.status = 'cancelled';
-      schedule.cancelled_at = new Date().toISOString();
-
       return {
         content: [{
           type: "text",
-          text: `✅ Scheduled transfer cancelled. $${schedule.amount} ${schedule.frequency} payments to ${schedule.recipient_name} have been stopped.`
+          text: `🗑️ Deleted rate alert ${alert.id} (${describeAlertTarget(alert)})`
         }],
-        structuredContent: {
-          cancelled: true,
-          scheduleId: schedule_id,
-          recipientName: schedule.recipient_name,
-          amount: schedule.amount,
-          frequency: schedule.frequency
-        },
-        _meta: {
-          "openai/outputTemplate": "component://scheduled-transfers"
-        }
+        structuredContent: { deleted: true, alert_id: alert.id }
       };
     }
 
-    // TOOL: send_again
-    if (toolName === "send_again") {
-      const { recipient_name } = args as any;
-
-      // Find the last transfer to this recipient (or overall last transfer if no name)
-      const allTransfers = Array.from(transfers.values())
-        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
-
-      let lastTransfer;
-      if (recipient_name) {
-        lastTransfer = allTransfers.find(t =>
-          t.recipient_name.toLowerCase().includes(recipient_name.toLowerCase())
-        );
-      } else {
-        lastTransfer = allTransfers[0];
+    // TOOL: create_limit_order
+    if (toolName === "create_limit_order") {
+      const { amount, recipient_id, account_id, target_rate, deadline } = args as any;
+      const timezone = (args as any).timezone || DEFAULT_SCHEDULE_TIMEZONE;
+      const fromCurrency = parseSourceCurrency((args as any).from_currency);
+      if (!fromCurrency) {
+        return unsupportedSourceCurrencyResult((args as any).from_currency);
       }
 
-      if (!lastTransfer) {
+      if (!(amount > 0)) {
         return {
           content: [{
             type: "text",
-            text: recipient_name
-              ? `❌ No previous transfers found to ${recipient_name}`
-              : `❌ No previous transfers found. Send your first transfer!`
+            text: "❌ Amount must be greater than $0"
+          }],
+          isError: true
+        };
+      }
+      if (target_rate === undefined && !deadline) {
+        return {
+          content: [{
+            type: "text",
+            text: "❌ Give a target_rate to send when the rate reaches it, or a deadline to send at the best rate by then"
+          }],
+          isError: true
+        };
+      }
+      if (target_rate !== undefined && !(target_rate > 0)) {
+        return {
+          content: [{
+            type: "text",
+            text: "❌ Target rate must be greater than 0"
+          }],
+          isError: true
+        };
+      }
+      if (!isValidTimeZone(timezone)) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Unknown time zone "${timezone}". Use an IANA name such as America/New_York.`
           }],
           isError: true
         };
       }
 
-      // Repeat the transfer with same amount and recipient
-      const transferId = `TXN-${transferCounter++}`;
-      const mybambuId = `BAMBU-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
-
-      const corridor = SUPPORTED_CORRIDORS.find(c =>
-        c.country.toLowerCase() === lastTransfer.recipient_country.toLowerCase()
-      )!;
-
-      const rateData = await fetchExchangeRates();
-      const rate = rateData.rates[corridor.currency];
-      const feeAmount = lastTransfer.fee;
-      const netAmount = lastTransfer.amount - feeAmount;
-      const recipientAmount = netAmount * rate;
-
-      const newTransfer = {
-        id: transferId,
-        mybambu_id: mybambuId,
-        from_currency: 'USD',
-        to_currency: corridor.currency,
-        amount: lastTransfer.amount,
-        fee: feeAmount,
-        net_amount: netAmount,
-        exchange_rate: rate,
-        recipient_amount: recipientAmount,
-        recipient_name: lastTransfer.recipient_name,
-        recipient_country: lastTransfer.recipient_country,
-        delivery_time: corridor.deliveryTime,
-        status: 'completed',
-        estimated_arrival: new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString(),
-        created_at: new Date().toISOString()
-      };
-
-      transfers.set(transferId, newTransfer);
-
-      return {
-        content: [{
-          type: "text",
-          text: `✅ Transfer repeated! Sent $${lastTransfer.amount} to ${lastTransfer.recipient_name} in ${lastTransfer.recipient_country} again. They'll receive ${recipientAmount.toFixed(2)} ${corridor.currency}.`
-        }],
-        structuredContent: newTransfer,
-        _meta: {
-          "openai/outputTemplate": "component://transfer-receipt",
-          repeated: true,
-          originalTransferId: lastTransfer.id
-        }
-      };
-    }
-
-    // TOOL: quick_send
-    if (toolName === "quick_send") {
-      const { recipient_name, amount } = args as any;
-
-      // Look up recipient in saved recipients or past transfers
-      const savedRecipient = Array.from(recipients.values()).find(r =>
-        r.name.toLowerCase().includes(recipient_name.toLowerCase())
-      );
-
-      const pastTransfer = Array.from(transfers.values()).find(t =>
-        t.recipient_name.toLowerCase().includes(recipient_name.toLowerCase())
-      );
+      // The recipient is looked up again when the order sends
+      const recipient = recipient_id
+        ? await storage.recipients.get(recipient_id)
+        : (args as any).recipient_name
+          ? findRecipientByName(await storage.recipients.list(), (args as any).recipient_name, (args as any).to_country)
+          : null;
+      if (recipient_id && !recipient) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Recipient not found: ${recipient_id}. Use "list recipients" to see all saved recipients.`
+          }],
+          isError: true
+        };
+      }
+      if (recipient && account_id && !findPayoutAccount(recipient, account_id)) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ ${recipient.name} has no payout account ${account_id}. Use "list recipients" to see their accounts.`
+          }],
+          isError: true
+        };
+      }
+      const recipientName = recipient?.name ?? (args as any).recipient_name;
+      const toCountry = recipient?.country ?? (args as any).to_country;
+      if (!recipientName || !toCountry) {
+        return {
+          content: [{
+            type: "text",
+            text: "❌ Please give a recipient_id, or the recipient's name and country"
+          }],
+          isError: true
+        };
+      }
+      // Nobody is around to give bank details when a real order sends
+      if (useRealAPI && !(recipient && findPayoutAccount(recipient, account_id))) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Save ${recipientName}'s bank details first (add_recipient or add_payout_account) - a limit order sends on its own, so it needs them up front.`
+          }],
+          isError: true
+        };
+      }
 
-      const targetCountry = savedRecipient?.country || pastTransfer?.recipient_country;
+      const corridor = SUPPORTED_CORRIDORS.find(c => c.country.toLowerCase() === toCountry.toLowerCase());
+      if (!corridor) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Sorry, we don't support transfers to ${toCountry} yet.`
+          }],
+          isError: true
+        };
+      }
 
-      if (!targetCountry) {
+      const now = Date.now();
+      const deadlineAt = deadline
+        ? parseLocalDate(deadline, timezone, '23:59:59')
+        : new Date(now + DEFAULT_LIMIT_ORDER_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      if (!deadlineAt || new Date(deadlineAt).getTime() <= now) {
         return {
           content: [{
             type: "text",
-            text: `❌ I don't have ${recipient_name} in your recipients or transfer history. Please specify the country: "Quick send $${amount} to ${recipient_name} in [country]"`
+            text: `❌ "${deadline}" isn't a valid deadline in the future.`
+          }],
+          isError: true
+        };
+      }
+      if (new Date(deadlineAt).getTime() > now + MAX_LIMIT_ORDER_DAYS * 24 * 60 * 60 * 1000) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ The deadline can be at most ${MAX_LIMIT_ORDER_DAYS} days away.`
           }],
           isError: true
         };
       }
 
-      // Send using existing send_money logic
-      const corridor = SUPPORTED_CORRIDORS.find(c =>
-        c.country.toLowerCase() === targetCountry.toLowerCase()
-      );
+      const rateData = await fetchExchangeRates();
+      const rate = crossRate(rateData, fromCurrency, corridor.currency);
+      if (!rate) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Exchange rate not available for ${fromCurrency} to ${corridor.currency}`
+          }],
+          isError: true
+        };
+      }
 
-      if (!corridor) {
+      // Limits on the amount are checked again when it sends
+      const amountError = scheduledAmountError(amount, fromCurrency, rateData);
+      if (amountError) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ ${amountError}`
+          }],
+          isError: true
+        };
+      }
+      if (target_rate !== undefined && rate >= target_rate) {
         return {
           content: [{
             type: "text",
-            text: `❌ Sorry, we don't support transfers to ${targetCountry} yet.`
+            text: `ℹ️ The rate is already there: 1 ${fromCurrency} = ${rate.toFixed(4)} ${corridor.currency} today, at or above your target of ${target_rate.toFixed(4)}. Use send_money to send now.`
           }],
           isError: true
         };
       }
 
-      const transferId = `TXN-${transferCounter++}`;
-      const mybambuId = `BAMBU-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
-      const rateData = await fetchExchangeRates();
-      const rate = rateData.rates[corridor.currency];
-      const feeAmount = amount * transferLimits.fees.standard;
-      const netAmount = amount - feeAmount;
-      const recipientAmount = netAmount * rate;
+      const openOrders = (await storage.limitOrders.list()).filter(isOpenOrder);
+      if (openOrders.length >= MAX_OPEN_LIMIT_ORDERS) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ You already have ${MAX_OPEN_LIMIT_ORDERS} open limit orders - cancel one first (list_limit_orders shows them).`
+          }],
+          isError: true
+        };
+      }
 
-      const transfer = {
-        id: transferId,
-        mybambu_id: mybambuId,
-        from_currency: 'USD',
-        to_currency: corridor.currency,
+      const type: LimitOrderType = target_rate !== undefined ? 'target' : 'best_rate';
+      const order: StoredRecord = {
+        id: `LMT-${await storage.nextId('limit_order')}`,
+        created_at: new Date(now).toISOString(),
+        type,
         amount,
-        fee: feeAmount,
-        net_amount: netAmount,
-        exchange_rate: rate,
-        recipient_amount: recipientAmount,
-        recipient_name,
+        from_currency: fromCurrency,
+        to_currency: corridor.currency,
+        recipient_id: recipient?.id ?? null,
+        account_id: account_id ?? null,
+        recipient_name: recipientName,
         recipient_country: corridor.country,
-        delivery_time: corridor.deliveryTime,
-        status: 'completed',
-        estimated_arrival: new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString(),
-        created_at: new Date().toISOString()
+        target_rate: target_rate ?? null,
+        deadline: deadlineAt,
+        timezone,
+        rate_at_creation: rate,
+        status: 'open',
+        attempts: 0,
+        failures: 0,
+        events: [],
+        reported_events: 0
       };
+      await storage.limitOrders.save(order);
 
-      transfers.set(transferId, transfer);
-
-      // Update recipient stats if exists
-      if (savedRecipient) {
-        savedRecipient.total_sent += amount;
-        savedRecipient.transfer_count++;
-      }
-
+      const fee = calculateFee(amount, crossRate(rateData, 'USD', fromCurrency) ?? 1);
+      const outcome = type === 'target'
+        ? `If the rate hasn't got there by then, the order expires and nothing is sent.`
+        : `It sends early if the rate hits its highest in 30 days, otherwise on the deadline at that day's rate.`;
       return {
         content: [{
           type: "text",
-          text: `⚡ Quick sent! $${amount} to ${recipient_name} in ${corridor.country}. They'll receive ${recipientAmount.toFixed(2)} ${corridor.currency} in ${corridor.deliveryTime}.`
+          text: `🎯 Limit order placed: ${formatMoney(amount, fromCurrency)} to ${recipientName} in ${corridor.country}, sent ${describeLimitOrder(order)}.\n` +
+            `📊 Today: 1 ${fromCurrency} = ${rate.toFixed(4)} ${corridor.currency} - ${recipientName} would get about ${((amount - fee) * rate).toFixed(2)} ${corridor.currency}` +
+            staleRateWarning(rateFreshness(rateData, fromCurrency, corridor.currency)) + `\n\n` +
+            `${outcome} Nothing is charged until it sends, and the usual checks (limits, bank details) apply then.\n` +
+            `🆔 Order ID: ${order.id} - cancel any time before it sends with cancel_limit_order.`
         }],
-        structuredContent: transfer,
-        _meta: {
-          "openai/outputTemplate": "component://transfer-receipt",
-          quickSend: true
-        }
+        structuredContent: order
       };
     }
 
-    // TOOL: compare_rates
-    if (toolName === "compare_rates") {
-      const { to_country, amount = 100 } = args as any;
-
-      const corridor = SUPPORTED_CORRIDORS.find(c =>
-        c.country.toLowerCase() === to_country.toLowerCase()
-      );
+    // TOOL: list_limit_orders
+    if (toolName === "list_limit_orders") {
+      const orders = (await storage.limitOrders.list())
+        .filter(o => o.status !== 'cancelled')
+        .sort((a, b) => a.created_at.localeCompare(b.created_at));
 
-      if (!corridor) {
+      if (orders.length === 0) {
         return {
           content: [{
             type: "text",
-            text: `❌ Sorry, we don't support transfers to ${to_country} yet.`
+            text: "📭 You don't have any limit orders. Ask me to send money when the rate is right, e.g. \"send $300 to Maria when the peso hits 19\"."
           }],
-          isError: true
+          structuredContent: { orders: [], count: 0 }
         };
       }
 
-      // Get exchange rate
       const rateData = await fetchExchangeRates();
-      const baseRate = rateData.rates[corridor.currency];
+      const presented: StoredRecord[] = orders.map(order => ({
+        ...order,
+        current_rate: crossRate(rateData, order.from_currency, order.to_currency)
+      }));
+      const lines = presented.map(order => {
+        const head = `${order.id}: ${formatMoney(order.amount, order.from_currency)} to ${order.recipient_name} (${order.recipient_country})`;
+        const last = orderEvents(order).slice(-1)[0];
+        if (isOpenOrder(order)) {
+          return `🎯 ${head}, ${describeLimitOrder(order)}` +
+            (order.current_rate ? ` - today ${order.current_rate.toFixed(4)}` : '') +
+            (order.last_error && last?.type === 'attempt_failed' ? `\n   ⚠️ Last attempt failed: ${order.last_error}` : '');
+        }
+        const icon = order.status === 'filled' ? '✅' : order.status === 'expired' ? '⌛' : '❌';
+        return `${icon} ${head} - ${order.status}${last ? `: ${last.message}` : ''}`;
+      });
 
-      // Simulate competitor rates (MyBambu is always better!)
-      const mybambuFee = amount * transferLimits.fees.standard;
-      const mybambuNet = amount - mybambuFee;
-      const mybambuReceives = mybambuNet * baseRate;
+      return {
+        content: [{
+          type: "text",
+          text: `Your limit orders:\n\n${lines.join('\n')}`
+        }],
+        structuredContent: { orders: presented, count: presented.length }
+      };
+    }
 
-      const competitors = [
-        {
-          name: "Western Union",
-          fee: amount * 0.05, // 5%
-          rate: baseRate * 0.96, // Worse rate
-          color: "#FFCC00"
-        },
-        {
-          name: "MoneyGram",
-          fee: amount * 0.048, // 4.8%
-          rate: baseRate * 0.965, // Worse rate
-          color: "#E31C25"
-        },
-        {
-          name: "Remitly",
-          fee: amount * 0.035, // 3.5%
-          rate: baseRate * 0.98, // Slightly worse rate
-          color: "#5B47FB"
-        },
-        {
-          name: "Wise",
-          fee: amount * 0.032, // 3.2%
-          rate: baseRate * 0.99, // Slightly worse rate
-          color: "#37517E"
-        }
-      ];
+    // TOOL: cancel_limit_order
+    if (toolName === "cancel_limit_order") {
+      const { order_id } = args as any;
+      const order = await storage.limitOrders.get(order_id);
 
-      const comparison = competitors.map(comp => {
-        const net = amount - comp.fee;
-        const receives = net * comp.rate;
-        const savings = mybambuReceives - receives;
+      if (!order) {
         return {
-          ...comp,
-          net,
-          receives: receives.toFixed(2),
-          savings: savings.toFixed(2),
-          savingsPercent: ((savings / receives) * 100).toFixed(1)
+          content: [{
+            type: "text",
+            text: `❌ Limit order ${order_id} not found`
+          }],
+          isError: true
         };
-      });
+      }
+      if (order.status !== 'open') {
+        return {
+          content: [{
+            type: "text",
+            text: order.status === 'executing'
+              ? `❌ Limit order ${order.id} is being sent right now and can't be cancelled. Check list_limit_orders in a moment.`
+              : `❌ Limit order ${order.id} is already ${order.status}`
+          }],
+          isError: true
+        };
+      }
+
+      order.status = 'cancelled';
+      order.cancelled_at = new Date().toISOString();
+      // The evaluator may have claimed it meanwhile
+      if (!await storage.limitOrders.saveIfUnchanged(order)) {
+        return {
+          content: [{
+            type: "text",
+            text: `❌ Limit order ${order.id} changed while it was being cancelled - check list_limit_orders and try again.`
+          }],
+          isError: true
+        };
+      }
 
       return {
         content: [{
           type: "text",
-          text: `💰 Rate Comparison for $${amount} to ${corridor.country}:\n\n` +
-            `MyBambu: ${mybambuReceives.toFixed(2)} ${corridor.currency} (Fee: $${mybambuFee.toFixed(2)})\n\n` +
-            comparison.map(c =>
-              `${c.name}: ${c.receives} ${corridor.currency} (Fee: $${c.fee.toFixed(2)}) - You save $${c.savings} with MyBambu! 🎉`
-            ).join('\n')
+          text: `🗑️ Cancelled limit order ${order.id}: ${formatMoney(order.amount, order.from_currency)} to ${order.recipient_name} won't be sent.`
         }],
-        structuredContent: {
-          mybambu: {
-            fee: mybambuFee,
-            net: mybambuNet,
-            rate: baseRate,
-            receives: mybambuReceives,
-            currency: corridor.currency
-          },
-          competitors: comparison,
-          country: corridor.country,
-          amount
-        },
-        _meta: {
-          "openai/outputTemplate": "component://rate-comparison"
-        }
+        structuredContent: order
       };
     }
 
     // TOOL: get_spending_analytics
     if (toolName === "get_spending_analytics") {
       const { period = "all-time" } = args as any;
+      const reportingCurrency = parseSourceCurrency((args as any).reporting_currency);
+      if (!reportingCurrency) {
+        return unsupportedSourceCurrencyResult((args as any).reporting_currency);
+      }
 
-      const allTransfers = Array.from(transfers.values())
+      const allTransfers = (await storage.transfers.list())
         .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
 
       if (allTransfers.length === 0) {
@@ -3480,13 +7530,19 @@ User requests like "Can you keep a running list..." mean "show me what's already
             transferCount: 0,
             byCountry: {},
             byRecipient: {},
-            period
+            period,
+            currency: reportingCurrency
           }
         };
       }
 
-      const totalSent = allTransfers.reduce((sum, t) => sum + t.amount, 0);
-      const totalFees = allTransfers.reduce((sum, t) => sum + t.fee, 0);
+      // Transfers can be sent from different currencies; totals are converted into one at today's rates
+      const rateData = await fetchExchangeRates();
+      const reported = (t: StoredRecord, value: number) =>
+        value * (crossRate(rateData, t.from_currency || 'USD', reportingCurrency) ?? 1);
+
+      const totalSent = allTransfers.reduce((sum, t) => sum + reported(t, t.amount), 0);
+      const totalFees = allTransfers.reduce((sum, t) => sum + reported(t, t.fee), 0);
       const avgTransfer = totalSent / allTransfers.length;
 
       // Group by country
@@ -3495,7 +7551,7 @@ User requests like "Can you keep a running list..." mean "show me what's already
           acc[t.recipient_country] = { count: 0, total: 0, currency: t.to_currency };
         }
         acc[t.recipient_country].count++;
-        acc[t.recipient_country].total += t.amount;
+        acc[t.recipient_country].total += reported(t, t.amount);
         return acc;
       }, {});
 
@@ -3505,7 +7561,7 @@ User requests like "Can you keep a running list..." mean "show me what's already
           acc[t.recipient_name] = { count: 0, total: 0, country: t.recipient_country };
         }
         acc[t.recipient_name].count++;
-        acc[t.recipient_name].total += t.amount;
+        acc[t.recipient_name].total += reported(t, t.amount);
         return acc;
       }, {});
 
@@ -3519,12 +7575,15 @@ User requests like "Can you keep a running list..." mean "show me what's already
         content: [{
           type: "text",
           text: `📊 Your Transfer Analytics (${period}):\n\n` +
-            `💵 Total sent: $${totalSent.toFixed(2)}\n` +
-            `💸 Total fees: $${totalFees.toFixed(2)}\n` +
+            `💵 Total sent: ${formatMoney(totalSent, reportingCurrency)}\n` +
+            `💸 Total fees: ${formatMoney(totalFees, reportingCurrency)}\n` +
             `📦 Transfers: ${allTransfers.length}\n` +
-            `📊 Average: $${avgTransfer.toFixed(2)}\n\n` +
-            `🌍 Top country: ${topCountry[0]} ($${(topCountry[1] as any).total.toFixed(2)})\n` +
-            `👤 Top recipient: ${topRecipient[0]} ($${(topRecipient[1] as any).total.toFixed(2)})`
+            `📊 Average: ${formatMoney(avgTransfer, reportingCurrency)}\n\n` +
+            `🌍 Top country: ${topCountry[0]} (${formatMoney((topCountry[1] as any).total, reportingCurrency)})\n` +
+            `👤 Top recipient: ${topRecipient[0]} (${formatMoney((topRecipient[1] as any).total, reportingCurrency)})` +
+            (allTransfers.some(t => (t.from_currency || 'USD') !== reportingCurrency)
+              ? `\n\nAmounts in ${reportingCurrency}, converted at today's rates.`
+              : '')
         }],
         structuredContent: {
           totalSent,
@@ -3535,7 +7594,8 @@ User requests like "Can you keep a running list..." mean "show me what's already
           byRecipient,
           topCountry: { name: topCountry[0], data: topCountry[1] },
           topRecipient: { name: topRecipient[0], data: topRecipient[1] },
-          period
+          period,
+          currency: reportingCurrency
         },
         _meta: {
           "openai/outputTemplate": "component://spending-analytics"
@@ -3544,24 +7604,140 @@ User requests like "Can you keep a running list..." mean "show me what's already
     }
 
     throw new Error(`Unknown tool: ${toolName}`);
+  }
+
+  server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
+    const toolName = request.params.name;
+    const args = request.params.arguments ?? {};
+    // Every read and write only sees this session owner's records
+    const storage = getStorage().forOwner(ownerId);
+
+    const result = MONEY_MOVING_TOOLS.includes(toolName)
+      // One money-moving call at a time per owner, so limit checks see every earlier transfer
+      ? await serializeForOwner(ownerId, () => handleMoneyMovingCall(toolName, args, storage))
+      : await handleToolCall(toolName, args, storage);
+    return withNotices(result, storage);
   });
 
+  // Rate alerts that went off and limit order outcomes since the user's last call are added to
+  // whatever they called next
+  async function withNotices(result: any, storage: Storage): Promise<any> {
+    const [triggered, orderUpdates] = await Promise.all([
+      takeTriggeredAlerts(storage).catch(error => {
+        console.error('⚠️  Failed to load triggered rate alerts:', error.message);
+        return [];
+      }),
+      takeLimitOrderEvents(storage).catch(error => {
+        console.error('⚠️  Failed to load limit order updates:', error.message);
+        return [];
+      })
+    ]);
+    if (triggered.length === 0 && orderUpdates.length === 0) {
+      return result;
+    }
+
+    const icons = { filled: '✅', expired: '⌛', attempt_failed: '⚠️', failed: '❌' };
+    const lines = [
+      ...triggered.map(alert =>
+        `🔔 Rate alert: 1 ${alert.from_currency} reached ${alert.triggered_rate.toFixed(4)} ${alert.to_currency} ` +
+        `on ${new Date(alert.triggered_at).toLocaleString()} (you asked for ${alert.target_rate.toFixed(4)} or ${alert.direction === 'above' ? 'more' : 'less'}). ` +
+        `Want to send to ${alert.country} now?`),
+      ...orderUpdates.map(({ order, event }) =>
+        `${icons[event.type]} Limit order ${order.id} (${formatMoney(order.amount, order.from_currency)} to ${order.recipient_name}): ${event.message}` +
+        (event.transfer_id ? ` - transfer ${event.transfer_id}` : ''))
+    ];
+    return {
+      ...result,
+      content: [...(result.content ?? []), { type: "text", text: lines.join('\n') }],
+      _meta: {
+        ...result._meta,
+        ...(triggered.length > 0 ? { triggeredRateAlerts: triggered } : {}),
+        ...(orderUpdates.length > 0 ? { limitOrderUpdates: orderUpdates.map(({ order, event }) => ({ order_id: order.id, ...event })) } : {})
+      }
+    };
+  }
+
+  // Money-moving tool calls, deduplicated when they carry an idempotency_key
+  async function handleMoneyMovingCall(toolName: string, args: Record<string, unknown>, storage: Storage): Promise<any> {
+    const idempotencyKey = typeof args.idempotency_key === 'string' ? args.idempotency_key.trim() : '';
+    if (!idempotencyKey) {
+      return handleToolCall(toolName, args, storage);
+    }
+
+    const outcome = await beginIdempotentRequest(storage, idempotencyKey, toolName, fingerprintRequest(toolName, args));
+
+    if (outcome.status === 'replay') {
+      const original = await storage.transfers.get(outcome.transferId);
+      if (original) {
+        console.log(`↩️  Idempotent replay of ${original.id} (key: ${idempotencyKey})`);
+        return {
+          content: [{
+            type: "text",
+            text: `✅ This transfer was already processed - no money was sent twice. ${original.recipient_name} in ${original.recipient_country} will receive ${original.recipient_amount.toFixed(2)} ${original.to_currency}.\n🆔 Transfer ID: ${original.id}`
+          }],
+          structuredContent: presentTransfer(original),
+          _meta: {
+            "openai/outputTemplate": "component://transfer-receipt",
+            idempotentReplay: true,
+            idempotencyKey
+          }
+        };
+      }
+    }
+
+    if (outcome.status === 'conflict') {
+      return {
+        content: [{
+          type: "text",
+          text: `❌ The idempotency key "${idempotencyKey}" was already used for a different ${outcome.toolName} request. Use a new key for a new transfer.`
+        }],
+        isError: true
+      };
+    }
+
+    if (outcome.status === 'in_progress') {
+      return {
+        content: [{
+          type: "text",
+          text: `⏳ A transfer with this idempotency key is still being processed. Check your transfer history in a moment instead of sending again.`
+        }],
+        isError: true
+      };
+    }
+
+    return runIdempotentRequest(storage, idempotencyKey, () => handleToolCall(toolName, args, storage), result => {
+      const transferId = result?.structuredContent?.id;
+      return !result?.isError && typeof transferId === 'string' && transferId.startsWith('TXN-') ? transferId : null;
+    });
+  }
+
   return server;
 }
 
 // Session management
-type SessionRecord = { server: Server; transport: SSEServerTransport };
+// `auth` is the validated bearer token; its subject owns all data the session touches
+type SessionRecord = { server: Server; transport: SSEServerTransport; auth: AuthInfo };
 const sessions = new Map<string, SessionRecord>();
 const ssePath = "/mcp";
 const postPath = "/mcp/messages";
 
-async function handleSseRequest(res: ServerResponse) {
+async function handleSseRequest(req: IncomingMessage, res: ServerResponse) {
   res.setHeader("Access-Control-Allow-Origin", "*");
-  const server = createTransfersServer();
+  const oauth = getOAuthService();
+
+  let auth: AuthInfo;
+  try {
+    auth = await oauth.authenticate(req);
+  } catch (error) {
+    oauth.sendUnauthorized(req, res, error);
+    return;
+  }
+
   const transport = new SSEServerTransport(postPath, res);
   const sessionId = transport.sessionId;
+  const server = createTransfersServer(auth.subject);
 
-  sessions.set(sessionId, { server, transport });
+  sessions.set(sessionId, { server, transport, auth });
 
   transport.onclose = async () => {
     const session = sessions.get(sessionId);
@@ -3587,7 +7763,17 @@ async function handleSseRequest(res: ServerResponse) {
 
 async function handlePostMessage(req: IncomingMessage, res: ServerResponse, url: URL) {
   res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Headers", "content-type");
+  res.setHeader("Access-Control-Allow-Headers", "content-type, authorization");
+  const oauth = getOAuthService();
+
+  let auth: AuthInfo;
+  try {
+    auth = await oauth.authenticate(req);
+  } catch (error) {
+    oauth.sendUnauthorized(req, res, error);
+    return;
+  }
+
   const sessionId = url.searchParams.get("sessionId");
 
   if (!sessionId) {
@@ -3601,6 +7787,12 @@ async function handlePostMessage(req: IncomingMessage, res: ServerResponse, url:
     return;
   }
 
+  // A session can only be driven by the user who opened it
+  if (session.auth.subject !== auth.subject) {
+    res.writeHead(403).end("Session belongs to another user");
+    return;
+  }
+
   try {
     await session.transport.handlePostMessage(req, res);
   } catch (error) {
@@ -3614,7 +7806,7 @@ async function handlePostMessage(req: IncomingMessage, res: ServerResponse, url:
 // HTTP Server
 const port = Number(process.env.PORT ?? 8000);
 
-const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+async function handleHttpRequest(req: IncomingMessage, res: ServerResponse) {
   if (!req.url) {
     res.writeHead(400).end("Missing URL");
     return;
@@ -3626,12 +7818,18 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
     res.writeHead(204, {
       "Access-Control-Allow-Origin": "*",
       "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-      "Access-Control-Allow-Headers": "content-type",
+      "Access-Control-Allow-Headers": "content-type, authorization",
+      "Access-Control-Expose-Headers": "WWW-Authenticate",
     });
     res.end();
     return;
   }
 
+  // OAuth metadata and the built-in authorization server
+  if (await getOAuthService().handleRequest(req, res, url)) {
+    return;
+  }
+
   // Health check endpoint for Render/Railway
   if (req.method === "GET" && url.pathname === "/health") {
     res.writeHead(200, { "Content-Type": "application/json" });
@@ -3644,6 +7842,18 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
     return;
   }
 
+  // Wise webhooks (transfer state changes, balance credits), authenticated by Wise's signature
+  if (req.method === "POST" && url.pathname === WISE_WEBHOOK_PATH) {
+    const webhooks = getWiseWebhookService();
+    if (!webhooks) {
+      res.writeHead(503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Wise webhooks are not configured (set WISE_WEBHOOK_PUBLIC_KEY)" }));
+      return;
+    }
+    await webhooks.handle(req, res);
+    return;
+  }
+
   // Root endpoint
   if (req.method === "GET" && url.pathname === "/") {
     res.writeHead(200, { "Content-Type": "application/json" });
@@ -3654,7 +7864,9 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
         sse: ssePath,
         post: postPath,
         health: "/health",
-        debug: "/debug-env"
+        wiseWebhook: WISE_WEBHOOK_PATH,
+        debug: "/debug-env",
+        oauthMetadata: "/.well-known/oauth-protected-resource"
       },
       features: [
         "Send money to 46 countries",
@@ -3684,7 +7896,7 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
   }
 
   if (req.method === "GET" && url.pathname === ssePath) {
-    await handleSseRequest(res);
+    await handleSseRequest(req, res);
     return;
   }
 
@@ -3694,6 +7906,20 @@ const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse
   }
 
   res.writeHead(404).end("Not Found");
+}
+
+const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+  // Nothing handles a rejection from here, so a throw would take the whole process down
+  try {
+    await handleHttpRequest(req, res);
+  } catch (error) {
+    console.error("Request failed", error);
+    if (!res.headersSent) {
+      res.writeHead(500).end("Internal Server Error");
+    } else {
+      res.end();
+    }
+  }
 });
 
 httpServer.on("clientError", (err: Error, socket) => {
@@ -3703,16 +7929,29 @@ httpServer.on("clientError", (err: Error, socket) => {
 
 // Initialize Wise service if API keys are provided
 const useRealAPI = process.env.WISE_API_KEY && process.env.WISE_PROFILE_ID;
+// Strict mode (on by default in production): a failed Wise transfer is reported as failed
+// instead of being simulated, and missing bank details are never filled with sandbox values
+const strictMode = process.env.STRICT_MODE
+  ? process.env.STRICT_MODE === 'true'
+  : process.env.NODE_ENV === 'production';
 if (useRealAPI) {
   try {
     initializeWiseService({
       apiKey: process.env.WISE_API_KEY!,
       profileId: process.env.WISE_PROFILE_ID!,
-      apiUrl: process.env.WISE_API_URL || 'https://api.wise.com'
+      apiUrl: process.env.WISE_API_URL || 'https://api.wise.com',
+      strict: strictMode
     });
-    console.log('✅ Wise API initialized - REAL payments enabled');
+    // Recipient fields come from Wise's account requirements, with the built-in table as fallback
+    initializeRecipientRequirements((sourceCurrency, currency, amount, recipient) =>
+      getWiseService().getAccountRequirements(sourceCurrency, currency, amount, recipient));
+    console.log(`✅ Wise API initialized - REAL payments enabled${strictMode ? ' (strict mode)' : ''}`);
   } catch (error) {
     console.error('❌ Failed to initialize Wise API:', error);
+    if (strictMode) {
+      // Every transfer would fail; better not to start than to look healthy
+      process.exit(1);
+    }
     console.log('⚠️  Falling back to demo mode');
   }
 } else {
@@ -3720,6 +7959,130 @@ if (useRealAPI) {
   console.log('   Set WISE_API_KEY and WISE_PROFILE_ID for real payments');
 }
 
+// Exchange rates: Wise's own rates in real mode, then the free API, then the bundled snapshot
+initializeExchangeRateService({
+  providers: [
+    ...(useRealAPI ? [wiseRateProvider(signal => getWiseService().getRates('USD', signal))] : []),
+    exchangeRateApiProvider(),
+    snapshotRateProvider()
+  ],
+  staleAfterMs: process.env.EXCHANGE_RATE_STALE_HOURS ? Number(process.env.EXCHANGE_RATE_STALE_HOURS) * 60 * 60 * 1000 : undefined,
+  // Every live fetch is kept for get_rate_history and checked against rate alerts and limit
+  // orders (in the background)
+  onRefresh: async fetched => {
+    getRateAlerts().evaluate(fetched.rates);
+    if (process.env.LIMIT_ORDERS_ENABLED !== 'false') {
+      getLimitOrders().tick();
+    }
+    await recordRates(getStorage(), fetched);
+  }
+});
+
+// Wise webhooks need the public key Wise signs them with (inline PEM or a file)
+const wiseWebhookKey = process.env.WISE_WEBHOOK_PUBLIC_KEY ||
+  (process.env.WISE_WEBHOOK_PUBLIC_KEY_FILE ? readFileSync(process.env.WISE_WEBHOOK_PUBLIC_KEY_FILE, 'utf8') : '');
+if (wiseWebhookKey) {
+  try {
+    initializeWiseWebhookService({ publicKey: wiseWebhookKey });
+    console.log(`✅ Wise webhooks accepted at ${WISE_WEBHOOK_PATH}`);
+  } catch (error) {
+    console.error('❌ Invalid Wise webhook public key:', error);
+  }
+} else if (useRealAPI) {
+  console.log('⚠️  WISE_WEBHOOK_PUBLIC_KEY not set - transfer status only updates when checked');
+}
+
+// OAuth: external issuer if configured, otherwise the built-in local authorization server if enabled
+const localAuth = process.env.OAUTH_LOCAL_AUTH === 'true';
+if (!process.env.OAUTH_ISSUER) {
+  if (!localAuth) {
+    console.error('❌ No OAuth authorization server: set OAUTH_ISSUER, or OAUTH_LOCAL_AUTH=true for local testing');
+    process.exit(1);
+  }
+  // The local server hands out a token for any user ID it is given - never in front of real money
+  if (process.env.NODE_ENV === 'production' || strictMode || useRealAPI) {
+    console.error('❌ The built-in OAuth server is for testing only - set OAUTH_ISSUER in production, in strict mode and with a Wise API key');
+    process.exit(1);
+  }
+}
+const oauth = initializeOAuthService({
+  publicUrl: process.env.PUBLIC_URL,
+  issuer: process.env.OAUTH_ISSUER,
+  jwksUrl: process.env.OAUTH_JWKS_URL,
+  audience: process.env.OAUTH_AUDIENCE,
+  signingSecret: process.env.OAUTH_SIGNING_SECRET,
+  localAuthorizationServer: localAuth
+});
+if (oauth.usesLocalAuthorizationServer) {
+  console.log('🔐 OAuth: using built-in local authorization server (for testing)');
+} else {
+  console.log(`🔐 OAuth: accepting tokens from ${process.env.OAUTH_ISSUER}`);
+}
+
+// Open the database (SQLite by default, Postgres when DATABASE_URL is set)
+try {
+  const storage = await initializeStorage({
+    databaseUrl: process.env.DATABASE_URL,
+    sqlitePath: process.env.SQLITE_PATH
+  });
+  console.log(`✅ Storage ready (${storage.dialect})`);
+} catch (error) {
+  console.error('❌ Failed to initialize storage:', error);
+  process.exit(1);
+}
+
+// Execute due scheduled transfers in the background (SCHEDULER_ENABLED=false turns it off,
+// e.g. on all but one instance)
+const scheduler = initializeScheduler(getStorage(), {
+  execute: executeScheduledTransfer,
+  nextExecution: nextScheduleExecution,
+  intervalMs: process.env.SCHEDULER_INTERVAL_MS ? Number(process.env.SCHEDULER_INTERVAL_MS) : undefined
+});
+if (process.env.SCHEDULER_ENABLED !== 'false') {
+  scheduler.start();
+  console.log('✅ Scheduler running');
+}
+
+// Rate alerts are checked on every live rate fetch; the background refresh keeps those coming
+// (RATE_ALERTS_ENABLED=false turns it off, like the scheduler). RATE_ALERT_WEBHOOK_URL gets
+// each triggered alert, e.g. to send it by email or SMS.
+const rateAlerts = initializeRateAlerts(getStorage(), {
+  notifiers: process.env.RATE_ALERT_WEBHOOK_URL ? [webhookNotifier(process.env.RATE_ALERT_WEBHOOK_URL)] : [],
+  refreshRates: fetchExchangeRates,
+  intervalMs: process.env.RATE_ALERT_INTERVAL_MS ? Number(process.env.RATE_ALERT_INTERVAL_MS) : undefined
+});
+if (process.env.RATE_ALERTS_ENABLED !== 'false') {
+  rateAlerts.start();
+  console.log('✅ Rate alerts running');
+}
+
+// Limit orders are checked on every live rate fetch and every minute for deadlines
+// (LIMIT_ORDERS_ENABLED=false turns it off, e.g. on all but one instance)
+const limitOrders = initializeLimitOrders(getStorage(), {
+  execute: executeLimitOrder,
+  getRates: fetchExchangeRates,
+  // A best-rate order takes a 30-day high, once there's enough history to call it one
+  isGoodRate: async (order, rate) => {
+    const history = await getRateHistory(getStorage(), order.from_currency, order.to_currency, 30);
+    return history.points.length >= BEST_RATE_MIN_HISTORY_DAYS && history.max !== null && rate >= history.max.rate;
+  },
+  intervalMs: process.env.LIMIT_ORDER_INTERVAL_MS ? Number(process.env.LIMIT_ORDER_INTERVAL_MS) : undefined
+});
+if (process.env.LIMIT_ORDERS_ENABLED !== 'false') {
+  limitOrders.start();
+  console.log('✅ Limit orders running');
+}
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => {
+    console.log(`\n${signal} received, shutting down...`);
+    httpServer.close();
+    Promise.all([scheduler.stop(), rateAlerts.stop(), limitOrders.stop()])
+      .then(() => getStorage().close())
+      .finally(() => process.exit(0));
+  });
+}
+
 httpServer.listen(port, () => {
   console.log(`\n🚀 MyBambu Transfers - MCP Server Ready!`);
   console.log(`   Version: 1.0.0 ${useRealAPI ? '(PRODUCTION - REAL APIs)' : '(DEMO MODE)'}`);
@@ -3731,7 +8094,7 @@ httpServer.listen(port, () => {
   console.log(`   • Latin America, Asia, Africa, Europe, Middle East, Oceania`);
   console.log(`   • Live exchange rates (updated hourly)`);
   console.log(`   • Transfer status tracking`);
-  console.log(`   • Transfer history`);
+  console.log(`   • Transfer history (persisted to ${getStorage().dialect})`);
   console.log(`   • Interactive widgets with window.openai`);
   if (!useRealAPI) {
     console.log(`\n⚠️  DEMO MODE: Transfers are simulated`);
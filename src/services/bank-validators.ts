@@ -0,0 +1,209 @@
+/**
+ * Format and checksum checks for bank fields, so a mistyped CLABE or IBAN is
+ * caught here with a message the user can act on instead of failing at Wise.
+ *
+ * Validators accept the value as people usually write it (spaces, dashes,
+ * dots) and `normalize` strips that formatting before it is sent to Wise.
+ * Messages complete a sentence starting with the field's label, e.g.
+ * "CLABE has an invalid control digit".
+ */
+
+export interface BankFieldValidator {
+  // Error message, or null when the value is valid
+  validate(value: string): string | null;
+  normalize(value: string): string;
+}
+
+const compact = (value: string) => value.replace(/[\s.\-]/g, '');
+const digits = (value: string) => value.replace(/\D/g, '');
+
+// IBAN length per country: https://www.swift.com/standards/data-standards/iban
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BR: 29, BY: 28,
+  CH: 21, CR: 22, CY: 28, CZ: 24, DE: 22, DK: 18, DO: 28, EE: 20, EG: 29, ES: 24, FI: 18,
+  FO: 18, FR: 27, GB: 22, GE: 22, GI: 23, GL: 18, GR: 27, GT: 28, HR: 21, HU: 28, IE: 22,
+  IL: 23, IQ: 23, IS: 26, IT: 27, JO: 30, KW: 30, KZ: 20, LB: 28, LC: 32, LI: 21, LT: 20,
+  LU: 20, LV: 21, MC: 27, MD: 24, ME: 22, MK: 19, MR: 27, MT: 31, MU: 30, NL: 18, NO: 15,
+  PK: 24, PL: 28, PS: 29, PT: 25, QA: 29, RO: 24, RS: 22, SA: 24, SC: 31, SE: 24, SI: 19,
+  SK: 24, SM: 27, SV: 28, TL: 23, TN: 24, TR: 26, UA: 29, VA: 22, VG: 24, XK: 20
+};
+
+/**
+ * Mexican CLABE: 18 digits, the last a control digit over the first 17
+ * (weights 3, 7, 1 repeating)
+ */
+export const clabeValidator: BankFieldValidator = {
+  normalize: compact,
+  validate(value) {
+    const clabe = compact(value);
+    if (!/^\d+$/.test(clabe)) {
+      return 'must contain only digits';
+    }
+    if (clabe.length !== 18) {
+      return `must be exactly 18 digits (this one has ${clabe.length})`;
+    }
+    const weights = [3, 7, 1];
+    const sum = [...clabe.slice(0, 17)].reduce((total, d, i) => total + (Number(d) * weights[i % 3]) % 10, 0);
+    const control = (10 - (sum % 10)) % 10;
+    return control === Number(clabe[17])
+      ? null
+      : 'has an invalid control digit - please double-check it against the recipient\'s bank statement';
+  }
+};
+
+/**
+ * IBAN: country code, two check digits and the country's account format (ISO 13616 mod-97)
+ */
+export const ibanValidator: BankFieldValidator = {
+  normalize: value => compact(value).toUpperCase(),
+  validate(value) {
+    const iban = compact(value).toUpperCase();
+    if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(iban)) {
+      return 'must start with a 2-letter country code and 2 check digits, e.g. DE89 3704 0044 0532 0130 00';
+    }
+    const country = iban.slice(0, 2);
+    const length = IBAN_LENGTHS[country];
+    if (!length) {
+      return `starts with ${country}, which isn't a country that uses IBANs`;
+    }
+    if (iban.length !== length) {
+      return `must be ${length} characters for ${country} (this one has ${iban.length})`;
+    }
+
+    // Move the first four characters to the end, letters become 10-35, and the number mod 97 must be 1
+    const rearranged = iban.slice(4) + iban.slice(0, 4);
+    let remainder = 0;
+    for (const char of rearranged) {
+      const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+      for (const d of code) {
+        remainder = (remainder * 10 + Number(d)) % 97;
+      }
+    }
+    return remainder === 1 ? null : 'has invalid check digits - please double-check it for typos';
+  }
+};
+
+/**
+ * Brazilian CPF: 11 digits, the last two check digits (mod 11)
+ */
+export const cpfValidator: BankFieldValidator = {
+  normalize: digits,
+  validate(value) {
+    if (/[^\d\s.\-]/.test(value)) {
+      return 'must contain only digits, e.g. 123.456.789-09';
+    }
+    const cpf = digits(value);
+    if (cpf.length !== 11) {
+      return `must be 11 digits (this one has ${cpf.length})`;
+    }
+    if (/^(\d)\1{10}$/.test(cpf)) {
+      return 'isn\'t a valid CPF';
+    }
+    const checkDigit = (length: number) => {
+      const sum = [...cpf.slice(0, length)].reduce((total, d, i) => total + Number(d) * (length + 1 - i), 0);
+      const result = (sum * 10) % 11;
+      return result === 10 ? 0 : result;
+    };
+    return checkDigit(9) === Number(cpf[9]) && checkDigit(10) === Number(cpf[10])
+      ? null
+      : 'has invalid check digits - please double-check it';
+  }
+};
+
+/**
+ * UK sort code: 6 digits, often written 23-14-70
+ */
+export const sortCodeValidator: BankFieldValidator = {
+  normalize: compact,
+  validate(value) {
+    const sortCode = compact(value);
+    return /^\d{6}$/.test(sortCode) ? null : 'must be 6 digits, e.g. 23-14-70';
+  }
+};
+
+/**
+ * UK account number: 8 digits
+ */
+export const ukAccountNumberValidator: BankFieldValidator = {
+  normalize: compact,
+  validate(value) {
+    const account = compact(value);
+    if (!/^\d+$/.test(account)) {
+      return 'must contain only digits';
+    }
+    return account.length === 8 ? null : `must be 8 digits (this one has ${account.length})`;
+  }
+};
+
+/**
+ * Colombian cédula de ciudadanía: 6 to 10 digits, often written with dots (1.023.456.789)
+ */
+export const cedulaValidator: BankFieldValidator = {
+  normalize: digits,
+  validate(value) {
+    if (/[^\d\s.\-]/.test(value)) {
+      return 'must contain only digits, e.g. 1023456789';
+    }
+    const cedula = digits(value);
+    return cedula.length >= 6 && cedula.length <= 10 && cedula[0] !== '0'
+      ? null
+      : 'must be 6 to 10 digits, not starting with 0';
+  }
+};
+
+/**
+ * Colombian mobile number: 10 digits starting with 3, with or without +57
+ */
+export const colombianPhoneValidator: BankFieldValidator = {
+  normalize(value) {
+    const phone = digits(value);
+    return `+57${phone.length === 12 && phone.startsWith('57') ? phone.slice(2) : phone}`;
+  },
+  validate(value) {
+    if (/[^\d\s+()\-]/.test(value)) {
+      return 'must be a phone number, e.g. +57 310 123 4567';
+    }
+    let phone = digits(value);
+    if (phone.length === 12 && phone.startsWith('57')) {
+      phone = phone.slice(2);
+    }
+    return /^3\d{9}$/.test(phone)
+      ? null
+      : 'must be a Colombian mobile number: 10 digits starting with 3, e.g. +57 310 123 4567';
+  }
+};
+
+/**
+ * Indian IFSC: 4-letter bank code, a 0, then a 6-character branch code
+ */
+export const ifscValidator: BankFieldValidator = {
+  normalize: value => compact(value).toUpperCase(),
+  validate(value) {
+    const ifsc = compact(value).toUpperCase();
+    return /^[A-Z]{4}0[A-Z0-9]{6}$/.test(ifsc)
+      ? null
+      : 'must be 11 characters: 4 letters, a zero, then 6 letters or digits (e.g. HDFC0000123)';
+  }
+};
+
+// Fields that mean the same thing whatever the currency
+const FIELD_VALIDATORS: Record<string, BankFieldValidator> = {
+  clabe: clabeValidator,
+  iban: ibanValidator,
+  IBAN: ibanValidator,
+  cpf: cpfValidator,
+  ifscCode: ifscValidator
+};
+
+// Fields whose format depends on the country
+const CURRENCY_FIELD_VALIDATORS: Record<string, Record<string, BankFieldValidator>> = {
+  GBP: { sortCode: sortCodeValidator, accountNumber: ukAccountNumberValidator },
+  COP: { idDocumentNumber: cedulaValidator, phoneNumber: colombianPhoneValidator }
+};
+
+/**
+ * The validator for a bank field when paying out in `currency`, if we have one
+ */
+export function bankFieldValidator(currency: string, field: string): BankFieldValidator | undefined {
+  return CURRENCY_FIELD_VALIDATORS[currency]?.[field] ?? FIELD_VALIDATORS[field];
+}
@@ -0,0 +1,208 @@
+import { RATE_SNAPSHOT } from './rate-snapshot.js';
+
+/**
+ * Mid-market exchange rates from an ordered chain of providers.
+ *
+ * Providers are asked in order and each fills the currencies the ones before
+ * it didn't have, so Wise's rates win where it has them, the free API covers
+ * the rest and the bundled snapshot makes sure every corridor has a rate.
+ * Every rate keeps when its provider published it; rates older than the stale
+ * threshold are reported so tools can say they may be out of date.
+ *
+ * Results are cached, and concurrent requests while the cache is refreshed
+ * share one refresh instead of each calling the providers.
+ */
+
+export interface RateProvider {
+  name: string;
+  // Bundled rates rather than a live source
+  static?: boolean;
+  // Rates against USD, with when they were published (one time for all, or per currency)
+  fetchRates(signal: AbortSignal): Promise<{ rates: Record<string, number>; asOf: string | Record<string, string> }>;
+}
+
+export interface ExchangeRates {
+  base: 'USD';
+  rates: Record<string, number>;
+  // When each currency's rate was published, and the provider it came from
+  as_of: Record<string, string>;
+  sources: Record<string, string>;
+  // When the rates were last fetched
+  timestamp: string;
+  // Currencies whose rate is older than the stale threshold
+  stale_currencies: string[];
+}
+
+interface ExchangeRateConfig {
+  providers: RateProvider[];
+  // How long fetched rates are reused (default 1 hour)
+  cacheMs?: number;
+  // How soon to try again when no live provider answered (default 1 minute)
+  retryMs?: number;
+  // Per-provider request timeout (default 5 seconds)
+  timeoutMs?: number;
+  // Rates published longer ago than this are stale (default 26 hours: the free API publishes once a day)
+  staleAfterMs?: number;
+  // Called with the live rates (not the bundled ones) each time they're fetched, e.g. to keep their history
+  onRefresh?: (fetched: Omit<ExchangeRates, 'stale_currencies'>) => Promise<void>;
+}
+
+/**
+ * Wise's live mid-market rates (real mode only)
+ */
+export function wiseRateProvider(
+  getRates: (signal: AbortSignal) => Promise<{ target: string; rate: number; time: string }[]>
+): RateProvider {
+  return {
+    name: 'wise',
+    async fetchRates(signal) {
+      const rates: Record<string, number> = {};
+      const asOf: Record<string, string> = {};
+      for (const { target, rate, time } of await getRates(signal)) {
+        rates[target] = rate;
+        asOf[target] = new Date(time).toISOString();
+      }
+      return { rates, asOf };
+    }
+  };
+}
+
+/**
+ * exchangerate-api.com's free endpoint
+ */
+export function exchangeRateApiProvider(url: string = 'https://api.exchangerate-api.com/v4/latest/USD'): RateProvider {
+  return {
+    name: 'exchangerate-api',
+    async fetchRates(signal) {
+      const response = await fetch(url, { signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const data: any = await response.json();
+      return {
+        rates: data.rates,
+        asOf: data.time_last_updated ? new Date(data.time_last_updated * 1000).toISOString() : new Date(data.date).toISOString()
+      };
+    }
+  };
+}
+
+/**
+ * The bundled snapshot - approximate, and never fresh, but it has every corridor
+ */
+export function snapshotRateProvider(snapshot: { as_of: string; rates: Record<string, number> } = RATE_SNAPSHOT): RateProvider {
+  return {
+    name: 'snapshot',
+    static: true,
+    async fetchRates() {
+      return { rates: snapshot.rates, asOf: snapshot.as_of };
+    }
+  };
+}
+
+export class ExchangeRateService {
+  private providers: RateProvider[];
+  private cacheMs: number;
+  private retryMs: number;
+  private timeoutMs: number;
+  private staleAfterMs: number;
+  private onRefresh?: ExchangeRateConfig['onRefresh'];
+  private cache: { rates: Omit<ExchangeRates, 'stale_currencies'>; expiresAt: number } | null = null;
+  private refreshing: Promise<Omit<ExchangeRates, 'stale_currencies'>> | null = null;
+
+  constructor(config: ExchangeRateConfig) {
+    this.providers = config.providers;
+    this.cacheMs = config.cacheMs ?? 60 * 60 * 1000;
+    this.retryMs = config.retryMs ?? 60 * 1000;
+    this.timeoutMs = config.timeoutMs ?? 5000;
+    this.staleAfterMs = config.staleAfterMs ?? 26 * 60 * 60 * 1000;
+    this.onRefresh = config.onRefresh;
+  }
+
+  /**
+   * Current rates, from the cache while it's fresh
+   */
+  async getRates(now = Date.now()): Promise<ExchangeRates> {
+    if (this.cache && now < this.cache.expiresAt) {
+      return this.withStaleness(this.cache.rates, now);
+    }
+    if (!this.refreshing) {
+      this.refreshing = this.refresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.withStaleness(await this.refreshing, Date.now());
+  }
+
+  private async refresh(): Promise<Omit<ExchangeRates, 'stale_currencies'>> {
+    const rates: Record<string, number> = { USD: 1 };
+    const asOf: Record<string, string> = {};
+    const sources: Record<string, string> = {};
+    let live = false;
+
+    for (const provider of this.providers) {
+      try {
+        const result = await provider.fetchRates(AbortSignal.timeout(this.timeoutMs));
+        for (const [currency, rate] of Object.entries(result.rates)) {
+          // The base is always 1 and never goes stale
+          if (currency === 'USD' || sources[currency] || !(rate > 0)) continue;
+          rates[currency] = rate;
+          asOf[currency] = typeof result.asOf === 'string' ? result.asOf : result.asOf[currency];
+          sources[currency] = provider.name;
+        }
+        live = live || !provider.static;
+      } catch (error: any) {
+        console.error(`⚠️  Exchange rates from ${provider.name} unavailable: ${error.message}`);
+      }
+    }
+
+    const fetchedAt = Date.now();
+    const fetched = { base: 'USD' as const, rates, as_of: asOf, sources, timestamp: new Date(fetchedAt).toISOString() };
+    const staticSources = new Set(this.providers.filter(p => p.static).map(p => p.name));
+
+    if (live && this.onRefresh) {
+      const liveCurrencies = Object.keys(sources).filter(currency => !staticSources.has(sources[currency]));
+      const pick = (values: Record<string, any>) => Object.fromEntries(liveCurrencies.map(c => [c, values[c]]));
+      await this.onRefresh({ ...fetched, rates: pick(rates), as_of: pick(asOf), sources: pick(sources) })
+        .catch(error => console.error('⚠️  Failed to record exchange rates:', error.message));
+    }
+
+    // Keep the last live rates for anything this refresh only got from bundled data (or not at all)
+    if (this.cache) {
+      for (const [currency, source] of Object.entries(this.cache.rates.sources)) {
+        const current = fetched.sources[currency];
+        if (!staticSources.has(source) && (!current || staticSources.has(current))) {
+          fetched.rates[currency] = this.cache.rates.rates[currency];
+          fetched.as_of[currency] = this.cache.rates.as_of[currency];
+          fetched.sources[currency] = source;
+        }
+      }
+    }
+
+    this.cache = { rates: fetched, expiresAt: fetchedAt + (live ? this.cacheMs : this.retryMs) };
+    return fetched;
+  }
+
+  private withStaleness(rates: Omit<ExchangeRates, 'stale_currencies'>, now: number): ExchangeRates {
+    return {
+      ...rates,
+      stale_currencies: Object.keys(rates.as_of)
+        .filter(currency => now - new Date(rates.as_of[currency]).getTime() > this.staleAfterMs)
+    };
+  }
+}
+
+// Export singleton instance (will be initialized in server.ts)
+let exchangeRateService: ExchangeRateService | null = null;
+
+export function initializeExchangeRateService(config: ExchangeRateConfig) {
+  exchangeRateService = new ExchangeRateService(config);
+  return exchangeRateService;
+}
+
+export function getExchangeRateService(): ExchangeRateService {
+  if (!exchangeRateService) {
+    throw new Error('Exchange rate service not initialized. Call initializeExchangeRateService first.');
+  }
+  return exchangeRateService;
+}
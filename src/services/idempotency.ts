@@ -0,0 +1,153 @@
+import { createHash } from 'node:crypto';
+import type { Storage } from './storage.js';
+
+/**
+ * Idempotency keys for money-moving tools.
+ *
+ * ChatGPT may retry a tool call. When the call carries an `idempotency_key`,
+ * the first request reserves the key, and every replay inside the dedupe
+ * window gets the original transfer back instead of sending money again.
+ */
+
+export const IDEMPOTENCY_WINDOW = 24 * 60 * 60 * 1000; // 24 hours
+// A reservation older than this is assumed to belong to a crashed request
+const IN_PROGRESS_TIMEOUT = 5 * 60 * 1000; // 5 minutes
+
+export type IdempotencyOutcome =
+  | { status: 'new' }
+  | { status: 'replay'; transferId: string }
+  | { status: 'in_progress' }
+  | { status: 'conflict'; toolName: string };
+
+/**
+ * Stable hash of a tool call's arguments (key order and the key itself ignored)
+ */
+export function fingerprintRequest(toolName: string, args: Record<string, unknown>): string {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value && typeof value === 'object') {
+      return Object.keys(value as Record<string, unknown>)
+        .filter(key => key !== 'idempotency_key')
+        .sort()
+        .reduce((acc, key) => ({ ...acc, [key]: canonical((value as any)[key]) }), {});
+    }
+    return value;
+  };
+
+  return createHash('sha256')
+    .update(JSON.stringify({ tool: toolName, args: canonical(args) }))
+    .digest('hex');
+}
+
+/**
+ * Derive the Wise customerTransactionId (a UUID) for an owner's idempotency key,
+ * so Wise also deduplicates retries that reach it.
+ */
+export function customerTransactionIdFor(ownerId: string, key: string): string {
+  const hex = createHash('sha1').update(`${ownerId}:${key}`).digest('hex');
+  // Format as a name-based (version 5) UUID
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+function recordId(storage: Storage, key: string): string {
+  return `${storage.ownerId}:${key}`;
+}
+
+/**
+ * Reserve an idempotency key, or report what happened to the earlier request that used it
+ */
+export async function beginIdempotentRequest(
+  storage: Storage,
+  key: string,
+  toolName: string,
+  fingerprint: string
+): Promise<IdempotencyOutcome> {
+  const id = recordId(storage, key);
+  const now = Date.now();
+
+  const reservation = {
+    id,
+    created_at: new Date(now).toISOString(),
+    key,
+    tool: toolName,
+    fingerprint,
+    status: 'in_progress',
+    transfer_id: null
+  };
+
+  if (await storage.idempotencyKeys.insert(reservation)) {
+    return { status: 'new' };
+  }
+
+  const existing = await storage.idempotencyKeys.get(id);
+  if (!existing) {
+    // Deleted between our insert attempt and the read; try once more
+    return (await storage.idempotencyKeys.insert(reservation)) ? { status: 'new' } : { status: 'in_progress' };
+  }
+
+  const age = now - new Date(existing.created_at).getTime();
+  const expired = age > IDEMPOTENCY_WINDOW;
+  const abandoned = existing.status === 'in_progress' && age > IN_PROGRESS_TIMEOUT;
+
+  if (expired || abandoned) {
+    await storage.idempotencyKeys.save(reservation);
+    return { status: 'new' };
+  }
+
+  if (existing.fingerprint !== fingerprint) {
+    return { status: 'conflict', toolName: existing.tool };
+  }
+
+  if (existing.status === 'completed' && existing.transfer_id) {
+    return { status: 'replay', transferId: existing.transfer_id };
+  }
+
+  return { status: 'in_progress' };
+}
+
+/**
+ * Record the transfer a reserved key produced
+ */
+export async function completeIdempotentRequest(storage: Storage, key: string, transferId: string) {
+  const record = await storage.idempotencyKeys.get(recordId(storage, key));
+  if (!record) return;
+
+  record.status = 'completed';
+  record.transfer_id = transferId;
+  record.completed_at = new Date().toISOString();
+  await storage.idempotencyKeys.save(record);
+}
+
+/**
+ * Release a reservation whose request didn't create a transfer, so a retry can run
+ */
+export async function abandonIdempotentRequest(storage: Storage, key: string) {
+  await storage.idempotencyKeys.delete(recordId(storage, key));
+}
+
+/**
+ * Run the request behind a newly reserved key: the key is completed with the
+ * transfer it made, or released when it made none (or threw)
+ */
+export async function runIdempotentRequest<T>(
+  storage: Storage,
+  key: string,
+  run: () => Promise<T>,
+  transferIdOf: (result: T) => string | null
+): Promise<T> {
+  try {
+    const result = await run();
+    const transferId = transferIdOf(result);
+
+    if (transferId) {
+      await completeIdempotentRequest(storage, key, transferId);
+    } else {
+      await abandonIdempotentRequest(storage, key);
+    }
+    return result;
+  } catch (error) {
+    await abandonIdempotentRequest(storage, key);
+    throw error;
+  }
+}
@@ -0,0 +1,353 @@
+import type { Storage, StoredRecord } from './storage.js';
+import type { ExchangeRates } from './exchange-rates.js';
+import { pairRate } from './rate-history.js';
+
+/**
+ * Limit orders: transfers parked until the rate is right.
+ *
+ * A 'target' order sends as soon as the rate reaches its target rate, and
+ * expires unsent if its deadline passes first. A 'best_rate' order has only a
+ * deadline: it sends early if the rate hits a high worth taking, otherwise at
+ * the deadline at whatever the rate is then.
+ *
+ * Orders are checked on every rate refresh and on a timer (for deadlines).
+ * One that goes ahead is claimed ('executing') before the transfer is made,
+ * and the transfer carries the order ID, so after a crash the order is either
+ * matched to its transfer (sent or rejected) or reopened - never sent twice.
+ * A failed attempt keeps the order open for a retry with backoff, up to a
+ * limit. An order the executor declines (its real quote fell short of the
+ * target) waits, with backoff, for the rate to move before it is quoted again. Everything that happens to an order is kept in its `events`, for the
+ * user to hear about.
+ */
+
+export type LimitOrderType = 'target' | 'best_rate';
+export type LimitOrderStatus = 'open' | 'executing' | 'filled' | 'expired' | 'failed' | 'cancelled';
+
+export interface LimitOrderEvent {
+  type: 'filled' | 'expired' | 'attempt_failed' | 'failed';
+  at: string;
+  message: string;
+  transfer_id?: string;
+}
+
+/**
+ * Thrown by an executor when the transfer can't go ahead (over a limit, missing
+ * bank details, ...). The order stays open and is tried again after a delay.
+ */
+export class LimitOrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LimitOrderError';
+  }
+}
+
+/**
+ * Makes the order's transfer and returns the stored transfer record, which must
+ * include `limit_order_id`. Returns null to leave the order open instead - e.g.
+ * the rate it would actually convert at has slipped back under the target.
+ */
+export type LimitOrderExecutor = (storage: Storage, order: StoredRecord) => Promise<StoredRecord | null>;
+
+interface LimitOrderConfig {
+  execute: LimitOrderExecutor;
+  getRates: () => Promise<ExchangeRates>;
+  // Whether a best-rate order should take this rate now rather than wait for its deadline
+  isGoodRate: (order: StoredRecord, rate: number) => Promise<boolean>;
+  intervalMs?: number;
+  maxFailures?: number;
+  retryBaseDelayMs?: number;
+  // An order executing for longer than this is assumed to belong to a crashed worker
+  executionTimeoutMs?: number;
+  // First wait after the executor declines an order (its quote missed the target), doubling per miss
+  quoteMissDelayMs?: number;
+}
+
+const DEFAULT_INTERVAL = 60 * 1000; // 1 minute
+const DEFAULT_MAX_FAILURES = 3;
+const DEFAULT_RETRY_BASE_DELAY = 5 * 60 * 1000; // 5 minutes, doubling per failure
+const DEFAULT_EXECUTION_TIMEOUT = 10 * 60 * 1000; // 10 minutes
+const DEFAULT_QUOTE_MISS_DELAY = 5 * 60 * 1000; // 5 minutes, doubling per miss
+const MAX_QUOTE_MISS_DELAY = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Orders the user can still cancel or that are being sent
+ */
+export function isOpenOrder(order: StoredRecord): boolean {
+  return order.status === 'open' || order.status === 'executing';
+}
+
+export function orderEvents(order: StoredRecord): LimitOrderEvent[] {
+  return Array.isArray(order.events) ? order.events : [];
+}
+
+// A transfer Wise rejected in strict mode - recorded, but nothing was sent
+function isFailedTransfer(transfer: StoredRecord): boolean {
+  return transfer.status === 'failed' && Boolean(transfer.failure_reason);
+}
+
+function recordOrderEvent(order: StoredRecord, event: Omit<LimitOrderEvent, 'at'>, now: number) {
+  order.events = [...orderEvents(order), { at: new Date(now).toISOString(), ...event }];
+}
+
+export class LimitOrderService {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking: Promise<number> | null = null;
+  private intervalMs: number;
+  private maxFailures: number;
+  private retryBaseDelayMs: number;
+  private executionTimeoutMs: number;
+  private quoteMissDelayMs: number;
+
+  constructor(private storage: Storage, private config: LimitOrderConfig) {
+    this.intervalMs = config.intervalMs ?? DEFAULT_INTERVAL;
+    this.maxFailures = config.maxFailures ?? DEFAULT_MAX_FAILURES;
+    this.retryBaseDelayMs = config.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY;
+    this.executionTimeoutMs = config.executionTimeoutMs ?? DEFAULT_EXECUTION_TIMEOUT;
+    this.quoteMissDelayMs = config.quoteMissDelayMs ?? DEFAULT_QUOTE_MISS_DELAY;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => { this.tick(); }, this.intervalMs);
+    this.tick();
+  }
+
+  async stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.ticking;
+  }
+
+  /**
+   * Check every open order against the current rates and deadlines.
+   * Returns how many orders were attempted. Overlapping calls share the tick in progress.
+   */
+  tick(now = Date.now()): Promise<number> {
+    if (!this.ticking) {
+      this.ticking = this.runDue(now)
+        .catch(error => {
+          console.error('❌ Limit order tick failed:', error.message);
+          return 0;
+        })
+        .finally(() => { this.ticking = null; });
+    }
+    return this.ticking;
+  }
+
+  private async runDue(now: number): Promise<number> {
+    const orders = (await this.storage.limitOrders.list()).filter(o => isOpenOrder(o) && o.owner_id);
+    if (orders.length === 0) return 0;
+
+    const rateData = await this.config.getRates();
+    let attempted = 0;
+    for (const { id, owner_id } of orders) {
+      try {
+        // Loaded again through the owner's storage, which is the one that saves it
+        const storage = this.storage.forOwner(owner_id!);
+        const order = await storage.limitOrders.get(id);
+        if (order && isOpenOrder(order) && await this.checkOrder(storage, order, rateData, now)) {
+          attempted++;
+        }
+      } catch (error: any) {
+        console.error(`❌ Limit order ${id} check failed:`, error.message);
+      }
+    }
+    return attempted;
+  }
+
+  /**
+   * Decide whether an order goes ahead now, and send it if so.
+   * Returns true when a transfer was attempted.
+   */
+  private async checkOrder(storage: Storage, order: StoredRecord, rateData: ExchangeRates, now: number): Promise<boolean> {
+    if (order.status === 'executing') {
+      await this.recoverStuck(storage, order, now);
+      return false;
+    }
+    if (order.retry_at && new Date(order.retry_at).getTime() > now) return false;
+
+    const pastDeadline = new Date(order.deadline).getTime() <= now;
+    if (pastDeadline && order.type === 'target') {
+      order.status = 'expired';
+      recordOrderEvent(order, {
+        type: 'expired',
+        message: `The rate didn't reach ${order.target_rate} before the deadline, so nothing was sent`
+      }, now);
+      await storage.limitOrders.saveIfUnchanged(order);
+      console.log(`⌛ Limit order ${order.id} expired`);
+      return false;
+    }
+
+    let rate: number | null = null;
+    if (!pastDeadline) {
+      // Rates we couldn't refresh may be well off the market - don't act on them
+      const stale = rateData.stale_currencies.includes(order.from_currency) || rateData.stale_currencies.includes(order.to_currency);
+      rate = stale ? null : pairRate(rateData.rates, order.from_currency, order.to_currency);
+      if (!rate) return false;
+
+      // The last quote missed at this rate: wait for the backoff and for the rate to move
+      if (order.quote_miss && (rate === order.quote_miss.rate || new Date(order.quote_miss.next_check_at).getTime() > now)) {
+        return false;
+      }
+
+      const ready = order.type === 'target' ? rate >= order.target_rate : await this.config.isGoodRate(order, rate);
+      if (!ready) return false;
+    }
+
+    return this.executeOrder(storage, order, rate, now);
+  }
+
+  private async executeOrder(storage: Storage, order: StoredRecord, rate: number | null, now: number): Promise<boolean> {
+    order.status = 'executing';
+    order.executing_since = new Date(now).toISOString();
+    order.attempts = (order.attempts ?? 0) + 1;
+    // Cancelled or claimed by another worker since it was loaded
+    if (!await storage.limitOrders.saveIfUnchanged(order)) return false;
+
+    try {
+      const transfer = await this.config.execute(storage, order);
+      if (!transfer) {
+        await this.recordQuoteMiss(storage, order.id, rate, now);
+        return true;
+      }
+      await this.recordFilled(storage, order.id, transfer, Date.now());
+      console.log(`🎯 Limit order ${order.id} filled: ${transfer.id}`);
+    } catch (error: any) {
+      const message = error instanceof LimitOrderError ? error.message : `Unexpected error: ${error.message}`;
+      console.error(`❌ Limit order ${order.id} failed (attempt ${order.attempts}): ${message}`);
+      await this.recordFailure(storage, order.id, message, Date.now());
+    }
+    return true;
+  }
+
+  // An order left executing by a worker that stopped: finished if its transfer went through,
+  // a failed attempt if the transfer was rejected, otherwise open again.
+  // `storage` is the owner's, and only transfers made since the order was claimed are looked at
+  // (a rejected transfer from an earlier attempt was already counted)
+  private async recoverStuck(storage: Storage, order: StoredRecord, now: number) {
+    if (now - new Date(order.executing_since).getTime() < this.executionTimeoutMs) return;
+
+    const transfers = (await storage.transfers.listSince(order.executing_since)).filter(t => t.limit_order_id === order.id);
+    const sent = transfers.find(t => !isFailedTransfer(t));
+    const rejected = transfers.find(t => isFailedTransfer(t));
+    if (sent) {
+      await this.recordFilled(storage, order.id, sent, now);
+    } else if (rejected) {
+      await this.recordFailure(storage, order.id, `Wise rejected the transfer: ${rejected.failure_reason}`, now);
+    } else {
+      await this.reopen(storage, order.id);
+    }
+  }
+
+  private async recordFilled(storage: Storage, orderId: string, transfer: StoredRecord, now: number) {
+    await this.update(storage, orderId, order => {
+      order.status = 'filled';
+      order.transfer_id = transfer.id;
+      order.filled_at = new Date(now).toISOString();
+      order.filled_rate = transfer.exchange_rate;
+      order.sent_amount = transfer.amount;
+      order.recipient_amount = transfer.recipient_amount;
+      delete order.retry_at;
+      delete order.quote_miss;
+      recordOrderEvent(order, {
+        type: 'filled',
+        message: `Sent at 1 ${order.from_currency} = ${Number(transfer.exchange_rate).toFixed(4)} ${order.to_currency}: ` +
+          `${transfer.recipient_name} gets ${Number(transfer.recipient_amount).toFixed(2)} ${order.to_currency}`,
+        transfer_id: transfer.id
+      }, now);
+    });
+  }
+
+  private async recordFailure(storage: Storage, orderId: string, message: string, now: number) {
+    await this.update(storage, orderId, order => {
+      order.failures = (order.failures ?? 0) + 1;
+      order.last_error = message;
+      if (order.failures >= this.maxFailures) {
+        order.status = 'failed';
+        delete order.retry_at;
+        recordOrderEvent(order, {
+          type: 'failed',
+          message: `Gave up after ${order.failures} failed attempts - nothing was sent. Last error: ${message}`
+        }, now);
+      } else {
+        const delay = this.retryBaseDelayMs * 2 ** (order.failures - 1);
+        order.status = 'open';
+        order.retry_at = new Date(now + delay).toISOString();
+        recordOrderEvent(order, {
+          type: 'attempt_failed',
+          message: `The transfer couldn't be sent: ${message}. Trying again in ${Math.round(delay / 60000)} minutes`
+        }, now);
+      }
+    });
+  }
+
+  // The executor declined the order (the real quote is under the target even though the
+  // mid-market rate isn't): back off, and don't ask again until the rate has moved
+  private async recordQuoteMiss(storage: Storage, orderId: string, rate: number | null, now: number) {
+    await this.update(storage, orderId, order => {
+      const misses = (order.quote_miss?.misses ?? 0) + 1;
+      order.status = 'open';
+      delete order.executing_since;
+      order.quote_miss = {
+        rate,
+        misses,
+        next_check_at: new Date(now + Math.min(this.quoteMissDelayMs * 2 ** (misses - 1), MAX_QUOTE_MISS_DELAY)).toISOString()
+      };
+    });
+  }
+
+  private async reopen(storage: Storage, orderId: string) {
+    await this.update(storage, orderId, order => {
+      order.status = 'open';
+      delete order.executing_since;
+    });
+  }
+
+  // Apply a change to the latest copy of an order, retrying if someone else saves it meanwhile
+  private async update(storage: Storage, orderId: string, change: (order: StoredRecord) => void) {
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const order = await storage.limitOrders.get(orderId);
+      if (!order) return;
+      change(order);
+      if (await storage.limitOrders.saveIfUnchanged(order)) return;
+    }
+    throw new Error(`Limit order ${orderId} kept changing while it was being updated`);
+  }
+}
+
+/**
+ * Order events the user hasn't been told about yet, marked as told.
+ * `storage` must be scoped to the user.
+ */
+export async function takeLimitOrderEvents(storage: Storage): Promise<{ order: StoredRecord; event: LimitOrderEvent }[]> {
+  const updates: { order: StoredRecord; event: LimitOrderEvent }[] = [];
+  for (const order of await storage.limitOrders.list()) {
+    const events = orderEvents(order);
+    const reported = order.reported_events ?? 0;
+    if (events.length <= reported) continue;
+
+    order.reported_events = events.length;
+    // Another call may be reporting them right now
+    if (await storage.limitOrders.saveIfUnchanged(order)) {
+      updates.push(...events.slice(reported).map(event => ({ order, event })));
+    }
+  }
+  return updates.sort((a, b) => a.event.at.localeCompare(b.event.at));
+}
+
+// Export singleton instance (will be initialized in server.ts)
+let limitOrderService: LimitOrderService | null = null;
+
+export function initializeLimitOrders(storage: Storage, config: LimitOrderConfig) {
+  limitOrderService = new LimitOrderService(storage, config);
+  return limitOrderService;
+}
+
+export function getLimitOrders(): LimitOrderService {
+  if (!limitOrderService) {
+    throw new Error('Limit orders not initialized. Call initializeLimitOrders first.');
+  }
+  return limitOrderService;
+}
@@ -0,0 +1,131 @@
+import type { Storage, StoredRecord } from './storage.js';
+
+/**
+ * Rolling-window transfer limits.
+ *
+ * The daily limit covers the last 24 hours and the monthly limit the last 30
+ * days, so headroom frees up gradually as old transfers age out instead of
+ * all at once at midnight or on the 1st.
+ *
+ * Limits are in USD. Transfers sent from another currency count with their
+ * `amount_usd`, converted at the rate when they were sent.
+ */
+
+export interface TransferLimits {
+  perTransaction: number;
+  daily: number;
+  monthlyLimit: number;
+}
+
+export const LIMIT_WINDOWS = {
+  daily: 24 * 60 * 60 * 1000, // 24 hours
+  monthly: 30 * 24 * 60 * 60 * 1000 // 30 days
+};
+
+// Transfers in these states never moved money, so they don't use up a limit
+const NON_COUNTING_STATUSES = ['cancelled', 'failed', 'refunded'];
+
+export interface LimitWindowUsage {
+  limit: number;
+  used: number;
+  remaining: number;
+  transfer_count: number;
+  window_start: string;
+  // When the oldest counted transfer leaves the window and frees up headroom
+  next_release_at: string | null;
+}
+
+export interface LimitUsage {
+  per_transaction: number;
+  daily: LimitWindowUsage;
+  monthly: LimitWindowUsage;
+  as_of: string;
+}
+
+export interface LimitViolation {
+  limit: 'per_transaction' | 'daily' | 'monthly';
+  max: number;
+  // The largest amount that can be sent right now
+  available: number;
+  usage: LimitUsage;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+function windowUsage(transfers: StoredRecord[], limit: number, windowMs: number, now: number): LimitWindowUsage {
+  const start = now - windowMs;
+  const inWindow = transfers.filter(t => new Date(t.created_at).getTime() >= start);
+  const used = roundCents(inWindow.reduce((sum, t) => sum + Number(t.amount_usd ?? t.amount ?? 0), 0));
+  const oldest = inWindow.reduce<number | null>((min, t) => {
+    const time = new Date(t.created_at).getTime();
+    return min === null || time < min ? time : min;
+  }, null);
+
+  return {
+    limit,
+    used,
+    remaining: roundCents(Math.max(0, limit - used)),
+    transfer_count: inWindow.length,
+    window_start: new Date(start).toISOString(),
+    next_release_at: oldest === null ? null : new Date(oldest + windowMs).toISOString()
+  };
+}
+
+/**
+ * How much of each limit the owner has used in the current rolling windows
+ */
+export async function getLimitUsage(storage: Storage, limits: TransferLimits, now = Date.now()): Promise<LimitUsage> {
+  const transfers = (await storage.transfers.listSince(new Date(now - LIMIT_WINDOWS.monthly).toISOString()))
+    .filter(t => !NON_COUNTING_STATUSES.includes(t.status));
+
+  return {
+    per_transaction: limits.perTransaction,
+    daily: windowUsage(transfers, limits.daily, LIMIT_WINDOWS.daily, now),
+    monthly: windowUsage(transfers, limits.monthlyLimit, LIMIT_WINDOWS.monthly, now),
+    as_of: new Date(now).toISOString()
+  };
+}
+
+/**
+ * Check a new transfer of `amount` (USD) against every limit.
+ * Returns the first limit it would break, or null when it's allowed.
+ */
+export async function checkTransferLimits(
+  storage: Storage,
+  limits: TransferLimits,
+  amount: number
+): Promise<LimitViolation | null> {
+  const usage = await getLimitUsage(storage, limits);
+  const available = Math.min(limits.perTransaction, usage.daily.remaining, usage.monthly.remaining);
+
+  if (amount > limits.perTransaction) {
+    return { limit: 'per_transaction', max: limits.perTransaction, available, usage };
+  }
+  if (amount > usage.daily.remaining) {
+    return { limit: 'daily', max: limits.daily, available, usage };
+  }
+  if (amount > usage.monthly.remaining) {
+    return { limit: 'monthly', max: limits.monthlyLimit, available, usage };
+  }
+  return null;
+}
+
+// Tail of each owner's chain of money-moving calls
+const ownerQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Run money-moving work for one owner at a time, so two concurrent transfers
+ * can't both pass the limit check against the same headroom.
+ */
+export function serializeForOwner<T>(ownerId: string, fn: () => Promise<T>): Promise<T> {
+  const previous = ownerQueues.get(ownerId) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(fn);
+  const tail = run.catch(() => undefined);
+  ownerQueues.set(ownerId, tail);
+  tail.then(() => {
+    if (ownerQueues.get(ownerId) === tail) {
+      ownerQueues.delete(ownerId);
+    }
+  });
+  return run;
+}
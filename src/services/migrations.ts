@@ -0,0 +1,208 @@
+/**
+ * Schema migrations for the persistent store.
+ *
+ * Migrations are applied in order and recorded in `schema_migrations`, so each
+ * one runs exactly once per database. The SQL is kept portable between SQLite
+ * and Postgres: records are stored as JSON text next to the few columns we
+ * need to index or filter on.
+ */
+
+import type { SqlDriver } from './storage.js';
+
+export interface Migration {
+  version: number;
+  name: string;
+  statements: string[];
+  // Data changes that need more than portable SQL, run after the statements in the same transaction
+  run?: (tx: SqlDriver) => Promise<void>;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS transfers (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_transfers_created_at ON transfers (created_at)`,
+      `CREATE TABLE IF NOT EXISTS recipients (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS scheduled_transfers (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS counters (
+        name TEXT PRIMARY KEY,
+        value INTEGER NOT NULL
+      )`
+    ]
+  },
+  {
+    // Rows written before this migration have no owner and are hidden from every user
+    version: 2,
+    name: 'owner_isolation',
+    statements: [
+      `ALTER TABLE transfers ADD COLUMN owner_id TEXT`,
+      `ALTER TABLE recipients ADD COLUMN owner_id TEXT`,
+      `ALTER TABLE scheduled_transfers ADD COLUMN owner_id TEXT`,
+      `CREATE INDEX IF NOT EXISTS idx_transfers_owner ON transfers (owner_id, created_at)`,
+      `CREATE INDEX IF NOT EXISTS idx_recipients_owner ON recipients (owner_id)`,
+      `CREATE INDEX IF NOT EXISTS idx_scheduled_transfers_owner ON scheduled_transfers (owner_id)`
+    ]
+  },
+  {
+    version: 3,
+    name: 'oauth_clients',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS oauth_clients (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        owner_id TEXT,
+        data TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 4,
+    name: 'idempotency_keys',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS idempotency_keys (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        owner_id TEXT,
+        data TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 5,
+    name: 'transfer_quotes',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS transfer_quotes (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        owner_id TEXT,
+        data TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_transfer_quotes_owner ON transfer_quotes (owner_id)`
+    ]
+  },
+  {
+    // One row per scheduled occurrence (id = schedule ID + scheduled time), so a run is never executed twice
+    version: 6,
+    name: 'schedule_runs',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS schedule_runs (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        owner_id TEXT,
+        data TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_schedule_runs_owner ON schedule_runs (owner_id, created_at)`
+    ]
+  },
+  {
+    // Webhooks name transfers by their Wise ID: wise_transfers maps it (as the row id) to our
+    // transfer and owner, and wise_webhook_events keeps every delivery so repeats are ignored
+    version: 7,
+    name: 'wise_webhooks',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS wise_transfers (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        owner_id TEXT,
+        data TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS wise_webhook_events (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        owner_id TEXT,
+        data TEXT NOT NULL
+      )`
+    ]
+  },
+  {
+    // Every set of live rates fetched (created_at = when it was fetched), for rate history
+    version: 8,
+    name: 'exchange_rates',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS exchange_rates (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        owner_id TEXT,
+        data TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_exchange_rates_created_at ON exchange_rates (created_at)`
+    ]
+  },
+  {
+    version: 9,
+    name: 'rate_alerts',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS rate_alerts (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        owner_id TEXT,
+        data TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_rate_alerts_owner ON rate_alerts (owner_id)`
+    ]
+  },
+  {
+    // Transfers waiting for a rate: a target, or the best rate before a deadline
+    version: 10,
+    name: 'limit_orders',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS limit_orders (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        owner_id TEXT,
+        data TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_limit_orders_owner ON limit_orders (owner_id)`
+    ]
+  },
+  {
+    // Transfers made before wise_transfers existed get their lookup rows, so webhooks
+    // never have to search the transfers table
+    version: 11,
+    name: 'backfill_wise_transfers',
+    statements: [],
+    async run(tx) {
+      const rows = await tx.query<{ id: string; created_at: string; owner_id: string; data: string }>(
+        `SELECT id, created_at, owner_id, data FROM transfers WHERE owner_id IS NOT NULL AND data LIKE '%"wise_transfer_id"%'`
+      );
+      for (const row of rows) {
+        const wiseTransferId = JSON.parse(row.data).wise_transfer_id;
+        if (!wiseTransferId) continue;
+        const link = { id: String(wiseTransferId), created_at: row.created_at, transfer_id: row.id, owner_id: row.owner_id };
+        await tx.run(
+          `INSERT INTO wise_transfers (id, created_at, owner_id, data) VALUES (?, ?, ?, ?)
+           ON CONFLICT (id) DO NOTHING`,
+          [link.id, link.created_at, link.owner_id, JSON.stringify(link)]
+        );
+      }
+    }
+  },
+  {
+    // Refresh tokens are single-use: each one's jti is here until it is exchanged
+    version: 12,
+    name: 'oauth_refresh_tokens',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS oauth_refresh_tokens (
+        id TEXT PRIMARY KEY,
+        created_at TEXT NOT NULL,
+        owner_id TEXT,
+        data TEXT NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_oauth_refresh_tokens_created_at ON oauth_refresh_tokens (created_at)`
+    ]
+  }
+];
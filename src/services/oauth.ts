@@ -0,0 +1,657 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, createHmac, createPublicKey, randomBytes, randomUUID, timingSafeEqual, verify, type JsonWebKey } from 'node:crypto';
+import { getStorage } from './storage.js';
+
+/**
+ * OAuth 2.1 authorization for the MCP endpoints.
+ *
+ * The server is always an OAuth protected resource: it publishes protected
+ * resource metadata and only accepts bearer tokens. Tokens come either from an
+ * external authorization server (OAUTH_ISSUER, verified against its JWKS) or
+ * from the built-in local authorization server, which supports dynamic client
+ * registration, PKCE and the authorization_code/refresh_token grants (refresh
+ * tokens are single-use and rotated on every refresh). The local
+ * server lets anyone sign in as any user, so it only runs when explicitly
+ * enabled (OAUTH_LOCAL_AUTH) and is meant for testing.
+ */
+
+interface OAuthConfig {
+  publicUrl?: string;
+  issuer?: string;
+  jwksUrl?: string;
+  audience?: string;
+  signingSecret?: string;
+  // The built-in server issues a token for whoever fills in its consent form, so it is opt-in
+  localAuthorizationServer?: boolean;
+}
+
+export interface AuthInfo {
+  subject: string;
+  clientId: string;
+  scopes: string[];
+  expiresAt: number;
+  issuer: string;
+}
+
+export class OAuthError extends Error {
+  constructor(public code: string, message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+const SUPPORTED_SCOPES = ['transfers'];
+const ACCESS_TOKEN_TTL = 60 * 60; // 1 hour
+const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60; // 30 days
+const AUTHORIZATION_CODE_TTL = 5 * 60 * 1000; // 5 minutes
+const JWKS_CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  subject: string;
+  scopes: string[];
+  expiresAt: number;
+}
+
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * A value for a quoted-string header parameter: only printable ASCII, with quotes and
+ * backslashes escaped (anything else would make setHeader throw or split the header)
+ */
+function quoteHeaderValue(value: string): string {
+  return `"${value.replace(/[^\x20-\x7e]/g, '').replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * Read a request body as form fields or JSON
+ */
+async function readBody(req: IncomingMessage): Promise<Record<string, any>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > 64 * 1024) {
+      throw new OAuthError('invalid_request', 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) return {};
+
+  if ((req.headers['content-type'] || '').includes('application/json')) {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      throw new OAuthError('invalid_request', 'Malformed JSON body');
+    }
+  }
+  return Object.fromEntries(new URLSearchParams(raw));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    'Access-Control-Allow-Origin': '*'
+  });
+  res.end(JSON.stringify(body));
+}
+
+function sendOAuthError(res: ServerResponse, error: unknown) {
+  if (error instanceof OAuthError) {
+    sendJson(res, error.status, { error: error.code, error_description: error.message });
+  } else {
+    console.error('OAuth error:', error);
+    sendJson(res, 500, { error: 'server_error', error_description: 'Internal error' });
+  }
+}
+
+export class OAuthService {
+  private signingSecret: Buffer;
+  private codes = new Map<string, AuthorizationCode>();
+  private jwksCache: { keys: any[]; fetchedAt: number } | null = null;
+
+  constructor(private config: OAuthConfig) {
+    if (config.signingSecret) {
+      this.signingSecret = Buffer.from(config.signingSecret);
+    } else {
+      this.signingSecret = randomBytes(32);
+      if (this.usesLocalAuthorizationServer) {
+        console.log('⚠️  OAUTH_SIGNING_SECRET not set - local tokens will not survive a restart');
+      }
+    }
+  }
+
+  /**
+   * Whether tokens are issued by the built-in authorization server
+   */
+  get usesLocalAuthorizationServer(): boolean {
+    return !this.config.issuer && !!this.config.localAuthorizationServer;
+  }
+
+  baseUrl(req: IncomingMessage): string {
+    if (this.config.publicUrl) {
+      return this.config.publicUrl.replace(/\/$/, '');
+    }
+    const proto = (req.headers['x-forwarded-proto'] as string | undefined)?.split(',')[0] || 'http';
+    return `${proto}://${req.headers.host ?? 'localhost'}`;
+  }
+
+  private resource(req: IncomingMessage): string {
+    return this.config.audience || `${this.baseUrl(req)}/mcp`;
+  }
+
+  private issuer(req: IncomingMessage): string {
+    return this.config.issuer || this.baseUrl(req);
+  }
+
+  protectedResourceMetadata(req: IncomingMessage) {
+    return {
+      resource: this.resource(req),
+      authorization_servers: [this.issuer(req)],
+      bearer_methods_supported: ['header'],
+      scopes_supported: SUPPORTED_SCOPES,
+      resource_name: 'MyBambu Transfers'
+    };
+  }
+
+  authorizationServerMetadata(req: IncomingMessage) {
+    const base = this.baseUrl(req);
+    return {
+      issuer: base,
+      authorization_endpoint: `${base}/oauth/authorize`,
+      token_endpoint: `${base}/oauth/token`,
+      registration_endpoint: `${base}/oauth/register`,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code', 'refresh_token'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['none', 'client_secret_post', 'client_secret_basic'],
+      scopes_supported: SUPPORTED_SCOPES
+    };
+  }
+
+  /**
+   * Validate the bearer token on a request to a protected endpoint
+   */
+  async authenticate(req: IncomingMessage): Promise<AuthInfo> {
+    const header = req.headers.authorization || '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    if (!match) {
+      throw new OAuthError('invalid_token', 'Missing bearer token', 401);
+    }
+
+    if (!this.config.issuer && !this.usesLocalAuthorizationServer) {
+      throw new OAuthError('invalid_token', 'No authorization server is configured', 401);
+    }
+    const claims = this.config.issuer
+      ? await this.verifyExternalToken(match[1])
+      : this.verifyLocalToken(match[1], 'access', req);
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(this.resource(req))) {
+      throw new OAuthError('invalid_token', 'Token was not issued for this resource', 401);
+    }
+
+    const scopes = typeof claims.scope === 'string' ? claims.scope.split(' ').filter(Boolean) : [];
+    if (!scopes.includes('transfers')) {
+      throw new OAuthError('insufficient_scope', 'Token is missing the transfers scope', 403);
+    }
+
+    if (!claims.sub) {
+      throw new OAuthError('invalid_token', 'Token has no subject', 401);
+    }
+
+    return {
+      subject: String(claims.sub),
+      clientId: String(claims.client_id ?? claims.azp ?? ''),
+      scopes,
+      expiresAt: Number(claims.exp),
+      issuer: String(claims.iss)
+    };
+  }
+
+  /**
+   * Write a 401/403 carrying the resource metadata pointer clients use to discover auth
+   */
+  sendUnauthorized(req: IncomingMessage, res: ServerResponse, error: unknown) {
+    const oauthError = error instanceof OAuthError
+      ? error
+      : new OAuthError('invalid_token', 'Token validation failed', 401);
+    const metadataUrl = `${this.baseUrl(req)}/.well-known/oauth-protected-resource`;
+
+    res.setHeader('WWW-Authenticate',
+      `Bearer resource_metadata=${quoteHeaderValue(metadataUrl)}, error=${quoteHeaderValue(oauthError.code)}, ` +
+      `error_description=${quoteHeaderValue(oauthError.message)}`);
+    res.setHeader('Access-Control-Expose-Headers', 'WWW-Authenticate');
+    sendJson(res, oauthError.status, { error: oauthError.code, error_description: oauthError.message });
+  }
+
+  // --- Token signing and verification ---
+
+  private signLocalToken(claims: Record<string, unknown>): string {
+    const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64url(JSON.stringify(claims));
+    const signature = createHmac('sha256', this.signingSecret).update(`${header}.${payload}`).digest('base64url');
+    return `${header}.${payload}.${signature}`;
+  }
+
+  private decodeToken(token: string) {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new OAuthError('invalid_token', 'Malformed token', 401);
+    }
+    try {
+      return {
+        header: JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8')),
+        claims: JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8')),
+        signingInput: `${parts[0]}.${parts[1]}`,
+        signature: parts[2]
+      };
+    } catch {
+      throw new OAuthError('invalid_token', 'Malformed token', 401);
+    }
+  }
+
+  private checkExpiry(claims: any) {
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) {
+      throw new OAuthError('invalid_token', 'Token has expired', 401);
+    }
+  }
+
+  private verifyLocalToken(token: string, type: 'access' | 'refresh', req: IncomingMessage) {
+    const { header, claims, signingInput, signature } = this.decodeToken(token);
+    const expected = createHmac('sha256', this.signingSecret).update(signingInput).digest('base64url');
+
+    if (header.alg !== 'HS256' || !safeEqual(signature, expected)) {
+      throw new OAuthError('invalid_token', 'Invalid token signature', 401);
+    }
+    if (claims.token_type !== type || claims.iss !== this.baseUrl(req)) {
+      throw new OAuthError('invalid_token', 'Token was not issued by this server', 401);
+    }
+    this.checkExpiry(claims);
+    return claims;
+  }
+
+  private async getSigningKey(kid: string | undefined, forceRefresh = false): Promise<any> {
+    const jwksUrl = this.config.jwksUrl || `${this.config.issuer!.replace(/\/$/, '')}/.well-known/jwks.json`;
+
+    if (forceRefresh || !this.jwksCache || Date.now() - this.jwksCache.fetchedAt > JWKS_CACHE_DURATION) {
+      const response = await fetch(jwksUrl, { signal: AbortSignal.timeout(5000) });
+      if (!response.ok) {
+        throw new OAuthError('invalid_token', `Unable to load signing keys (${response.status})`, 401);
+      }
+      const body: any = await response.json();
+      this.jwksCache = { keys: body.keys || [], fetchedAt: Date.now() };
+    }
+
+    const key = this.jwksCache.keys.find((k: any) => !kid || k.kid === kid);
+    if (!key && !forceRefresh) {
+      // Keys may have rotated since the last fetch
+      return this.getSigningKey(kid, true);
+    }
+    return key;
+  }
+
+  private async verifyExternalToken(token: string) {
+    const { header, claims, signingInput, signature } = this.decodeToken(token);
+
+    if (header.alg !== 'RS256' && header.alg !== 'ES256') {
+      throw new OAuthError('invalid_token', 'Unsupported token algorithm', 401);
+    }
+
+    const jwk = await this.getSigningKey(header.kid);
+    if (!jwk) {
+      throw new OAuthError('invalid_token', 'Unknown signing key', 401);
+    }
+
+    const publicKey = createPublicKey({ key: jwk as JsonWebKey, format: 'jwk' });
+    const valid = verify(
+      'sha256',
+      Buffer.from(signingInput),
+      header.alg === 'ES256' ? { key: publicKey, dsaEncoding: 'ieee-p1363' } : publicKey,
+      Buffer.from(signature, 'base64url')
+    );
+
+    if (!valid) {
+      throw new OAuthError('invalid_token', 'Invalid token signature', 401);
+    }
+    if (claims.iss !== this.config.issuer) {
+      throw new OAuthError('invalid_token', 'Token was issued by an untrusted issuer', 401);
+    }
+    this.checkExpiry(claims);
+    return claims;
+  }
+
+  private async issueTokens(req: IncomingMessage, clientId: string, subject: string, scopes: string[]) {
+    const now = Math.floor(Date.now() / 1000);
+    const common = {
+      iss: this.baseUrl(req),
+      sub: subject,
+      aud: this.resource(req),
+      client_id: clientId,
+      scope: scopes.join(' '),
+      iat: now
+    };
+
+    // A refresh token is only good while its jti is stored; tokens old enough to have expired are cleared out
+    const refreshTokens = getStorage().oauthRefreshTokens;
+    const refreshJti = randomUUID();
+    await refreshTokens.deleteBefore(new Date((now - REFRESH_TOKEN_TTL) * 1000).toISOString());
+    await refreshTokens.insert({ id: refreshJti, created_at: new Date(now * 1000).toISOString(), client_id: clientId, subject });
+
+    return {
+      access_token: this.signLocalToken({ ...common, token_type: 'access', exp: now + ACCESS_TOKEN_TTL, jti: randomUUID() }),
+      token_type: 'Bearer',
+      expires_in: ACCESS_TOKEN_TTL,
+      refresh_token: this.signLocalToken({ ...common, token_type: 'refresh', exp: now + REFRESH_TOKEN_TTL, jti: refreshJti }),
+      scope: scopes.join(' ')
+    };
+  }
+
+  // --- Local authorization server endpoints ---
+
+  private async register(req: IncomingMessage, res: ServerResponse) {
+    const body = await readBody(req);
+    const redirectUris: unknown = body.redirect_uris;
+
+    if (!Array.isArray(redirectUris) || redirectUris.length === 0) {
+      throw new OAuthError('invalid_redirect_uri', 'redirect_uris must be a non-empty array');
+    }
+    for (const uri of redirectUris) {
+      let parsed: URL;
+      try {
+        parsed = new URL(String(uri));
+      } catch {
+        throw new OAuthError('invalid_redirect_uri', `Invalid redirect URI: ${uri}`);
+      }
+      const isLoopback = ['localhost', '127.0.0.1', '[::1]'].includes(parsed.hostname);
+      if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && isLoopback)) {
+        throw new OAuthError('invalid_redirect_uri', `Redirect URIs must use https (or http on localhost): ${uri}`);
+      }
+    }
+
+    const authMethod = body.token_endpoint_auth_method || 'client_secret_basic';
+    if (!['none', 'client_secret_post', 'client_secret_basic'].includes(authMethod)) {
+      throw new OAuthError('invalid_client_metadata', `Unsupported token_endpoint_auth_method: ${authMethod}`);
+    }
+
+    const client = {
+      id: `client_${randomUUID()}`,
+      created_at: new Date().toISOString(),
+      client_name: body.client_name || 'MCP client',
+      redirect_uris: redirectUris.map(String),
+      token_endpoint_auth_method: authMethod,
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      client_secret: authMethod === 'none' ? undefined : randomBytes(32).toString('base64url')
+    };
+
+    await getStorage().oauthClients.save(client);
+    console.log(`🔐 Registered OAuth client ${client.id} (${client.client_name})`);
+
+    sendJson(res, 201, {
+      client_id: client.id,
+      client_id_issued_at: Math.floor(Date.now() / 1000),
+      client_name: client.client_name,
+      redirect_uris: client.redirect_uris,
+      token_endpoint_auth_method: client.token_endpoint_auth_method,
+      grant_types: client.grant_types,
+      response_types: client.response_types,
+      ...(client.client_secret ? { client_secret: client.client_secret, client_secret_expires_at: 0 } : {})
+    });
+  }
+
+  /**
+   * Validate authorization request parameters shared by the consent page and its submission
+   */
+  private async validateAuthorizationRequest(params: Record<string, any>) {
+    const client = params.client_id ? await getStorage().oauthClients.get(String(params.client_id)) : null;
+    if (!client) {
+      throw new OAuthError('invalid_client', 'Unknown client_id');
+    }
+    if (!params.redirect_uri || !client.redirect_uris.includes(params.redirect_uri)) {
+      throw new OAuthError('invalid_request', 'redirect_uri is not registered for this client');
+    }
+    if (params.response_type !== 'code') {
+      throw new OAuthError('unsupported_response_type', 'Only response_type=code is supported');
+    }
+    if (!params.code_challenge || params.code_challenge_method !== 'S256') {
+      throw new OAuthError('invalid_request', 'PKCE with code_challenge_method=S256 is required');
+    }
+
+    const scopes = String(params.scope || SUPPORTED_SCOPES.join(' ')).split(' ').filter(Boolean);
+    const unknownScope = scopes.find(scope => !SUPPORTED_SCOPES.includes(scope));
+    if (unknownScope) {
+      throw new OAuthError('invalid_scope', `Unsupported scope: ${unknownScope}`);
+    }
+
+    return { client, scopes };
+  }
+
+  private renderConsentPage(res: ServerResponse, params: Record<string, any>, clientName: string) {
+    const hidden = ['client_id', 'redirect_uri', 'response_type', 'code_challenge', 'code_challenge_method', 'scope', 'state', 'resource']
+      .filter(name => params[name] !== undefined)
+      .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(String(params[name]))}">`)
+      .join('\n      ');
+
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+    res.end(`<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <title>MyBambu - Authorize</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #1863DC; padding: 40px 20px; }
+    form { background: white; border-radius: 16px; padding: 32px; max-width: 420px; margin: 0 auto; }
+    h1 { color: #1863DC; font-size: 22px; margin-top: 0; }
+    input[type=text] { width: 100%; padding: 12px; border: 2px solid #E8EAED; border-radius: 8px; font-size: 15px; box-sizing: border-box; }
+    button { width: 100%; margin-top: 16px; padding: 14px; border: none; border-radius: 8px; background: #1863DC; color: white; font-size: 15px; font-weight: 700; cursor: pointer; }
+    p { color: #6B7280; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <form method="POST" action="/oauth/authorize">
+    <h1>MyBambu</h1>
+    <p><strong>${escapeHtml(clientName)}</strong> wants to access your transfers, recipients and schedules.</p>
+    <p>Local test authorization server: enter the user ID to sign in as.</p>
+    <input type="text" name="user_id" placeholder="user@example.com" required autofocus>
+    ${hidden}
+    <button type="submit">Authorize</button>
+  </form>
+</body>
+</html>`);
+  }
+
+  private async authorize(req: IncomingMessage, res: ServerResponse, url: URL) {
+    const params = req.method === 'POST' ? await readBody(req) : Object.fromEntries(url.searchParams);
+
+    let validated;
+    try {
+      validated = await this.validateAuthorizationRequest(params);
+    } catch (error) {
+      // Without a trusted redirect_uri the error can only be shown to the user
+      const message = error instanceof OAuthError ? error.message : 'Invalid authorization request';
+      res.writeHead(400, { 'Content-Type': 'text/plain' }).end(`Authorization error: ${message}`);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      this.renderConsentPage(res, params, validated.client.client_name);
+      return;
+    }
+
+    const redirect = new URL(params.redirect_uri);
+    if (params.state) redirect.searchParams.set('state', params.state);
+
+    const subject = String(params.user_id || '').trim();
+    if (!subject) {
+      redirect.searchParams.set('error', 'access_denied');
+      res.writeHead(302, { Location: redirect.toString() }).end();
+      return;
+    }
+
+    // Codes that were never exchanged would otherwise stay in memory for good
+    const now = Date.now();
+    for (const [unused, { expiresAt }] of this.codes) {
+      if (expiresAt < now) this.codes.delete(unused);
+    }
+
+    const code = randomBytes(32).toString('base64url');
+    this.codes.set(code, {
+      clientId: validated.client.id,
+      redirectUri: params.redirect_uri,
+      codeChallenge: params.code_challenge,
+      subject,
+      scopes: validated.scopes,
+      expiresAt: now + AUTHORIZATION_CODE_TTL
+    });
+
+    redirect.searchParams.set('code', code);
+    res.writeHead(302, { Location: redirect.toString() }).end();
+  }
+
+  private async authenticateClient(req: IncomingMessage, body: Record<string, any>) {
+    let clientId = body.client_id;
+    let clientSecret = body.client_secret;
+
+    const basic = (req.headers.authorization || '').match(/^Basic\s+(.+)$/i);
+    if (basic) {
+      const [id, secret] = Buffer.from(basic[1], 'base64').toString('utf8').split(':');
+      clientId = decodeURIComponent(id);
+      clientSecret = decodeURIComponent(secret ?? '');
+    }
+
+    const client = clientId ? await getStorage().oauthClients.get(String(clientId)) : null;
+    if (!client) {
+      throw new OAuthError('invalid_client', 'Unknown client', 401);
+    }
+    if (client.client_secret && (!clientSecret || !safeEqual(String(clientSecret), client.client_secret))) {
+      throw new OAuthError('invalid_client', 'Client authentication failed', 401);
+    }
+    return client;
+  }
+
+  private async token(req: IncomingMessage, res: ServerResponse) {
+    const body = await readBody(req);
+    const client = await this.authenticateClient(req, body);
+
+    if (body.grant_type === 'authorization_code') {
+      const code = this.codes.get(String(body.code || ''));
+      // Codes are single-use, even when the exchange fails
+      this.codes.delete(String(body.code || ''));
+
+      if (!code || code.expiresAt < Date.now() || code.clientId !== client.id) {
+        throw new OAuthError('invalid_grant', 'Authorization code is invalid or expired');
+      }
+      if (body.redirect_uri !== code.redirectUri) {
+        throw new OAuthError('invalid_grant', 'redirect_uri does not match the authorization request');
+      }
+
+      const challenge = base64url(createHash('sha256').update(String(body.code_verifier || '')).digest());
+      if (!body.code_verifier || !safeEqual(challenge, code.codeChallenge)) {
+        throw new OAuthError('invalid_grant', 'PKCE verification failed');
+      }
+
+      sendJson(res, 200, await this.issueTokens(req, client.id, code.subject, code.scopes));
+      return;
+    }
+
+    if (body.grant_type === 'refresh_token') {
+      let claims;
+      try {
+        claims = this.verifyLocalToken(String(body.refresh_token || ''), 'refresh', req);
+      } catch {
+        throw new OAuthError('invalid_grant', 'Refresh token is invalid or expired');
+      }
+      if (claims.client_id !== client.id) {
+        throw new OAuthError('invalid_grant', 'Refresh token was issued to another client');
+      }
+      // Single-use: whoever deletes the jti first gets the new tokens, a replay gets nothing
+      if (typeof claims.jti !== 'string' || !await getStorage().oauthRefreshTokens.delete(claims.jti)) {
+        throw new OAuthError('invalid_grant', 'Refresh token has already been used');
+      }
+
+      sendJson(res, 200, await this.issueTokens(req, client.id, claims.sub, String(claims.scope).split(' ')));
+      return;
+    }
+
+    throw new OAuthError('unsupported_grant_type', `Unsupported grant_type: ${body.grant_type}`);
+  }
+
+  /**
+   * Serve OAuth metadata and local authorization server routes.
+   * Returns false when the request is not an OAuth route.
+   */
+  async handleRequest(req: IncomingMessage, res: ServerResponse, url: URL): Promise<boolean> {
+    const path = url.pathname;
+    const isOAuthRoute = path.startsWith('/.well-known/oauth-') || path.startsWith('/oauth/');
+    if (!isOAuthRoute) return false;
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'content-type, authorization'
+      });
+      res.end();
+      return true;
+    }
+
+    try {
+      if (req.method === 'GET' && path.startsWith('/.well-known/oauth-protected-resource')) {
+        sendJson(res, 200, this.protectedResourceMetadata(req));
+        return true;
+      }
+
+      if (!this.usesLocalAuthorizationServer) {
+        res.writeHead(404).end('Not Found');
+        return true;
+      }
+
+      if (req.method === 'GET' && path.startsWith('/.well-known/oauth-authorization-server')) {
+        sendJson(res, 200, this.authorizationServerMetadata(req));
+      } else if (req.method === 'POST' && path === '/oauth/register') {
+        await this.register(req, res);
+      } else if ((req.method === 'GET' || req.method === 'POST') && path === '/oauth/authorize') {
+        await this.authorize(req, res, url);
+      } else if (req.method === 'POST' && path === '/oauth/token') {
+        await this.token(req, res);
+      } else {
+        res.writeHead(404).end('Not Found');
+      }
+    } catch (error) {
+      sendOAuthError(res, error);
+    }
+    return true;
+  }
+}
+
+// Export singleton instance (will be initialized in server.ts)
+let oauthService: OAuthService | null = null;
+
+export function initializeOAuthService(config: OAuthConfig) {
+  oauthService = new OAuthService(config);
+  return oauthService;
+}
+
+export function getOAuthService(): OAuthService {
+  if (!oauthService) {
+    throw new Error('OAuth service not initialized. Call initializeOAuthService first.');
+  }
+  return oauthService;
+}
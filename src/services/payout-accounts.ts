@@ -0,0 +1,89 @@
+import type { StoredRecord } from './storage.js';
+
+/**
+ * Payout accounts on saved recipients.
+ *
+ * A recipient can have several bank accounts (say a CLABE at one bank and an
+ * account number at another); the default one is used whenever a transfer
+ * doesn't name an account. Bank details are stored validated and normalized,
+ * and never leave the server - tools and widgets only see the masked summary.
+ */
+
+export interface PayoutAccount {
+  id: string;
+  // The user's name for the account, e.g. "Savings at Banorte"
+  label: string | null;
+  currency: string;
+  // Wise recipient type the details were checked against (e.g. "mexican", "iban")
+  account_type: string | null;
+  bank_details: Record<string, any>;
+  // Masked, e.g. "CLABE ••••9719"
+  summary: string;
+  // Wise recipient account last paid, reused so Wise doesn't collect duplicates
+  wise_account_id?: number | null;
+  created_at: string;
+}
+
+export function payoutAccounts(recipient: StoredRecord): PayoutAccount[] {
+  return Array.isArray(recipient.payout_accounts) ? recipient.payout_accounts : [];
+}
+
+/**
+ * A recipient's account by ID, or their default account when no ID is given
+ */
+export function findPayoutAccount(recipient: StoredRecord, accountId?: string): PayoutAccount | null {
+  const accounts = payoutAccounts(recipient);
+  if (accountId) {
+    return accounts.find(a => a.id === accountId) ?? null;
+  }
+  return accounts.find(a => a.id === recipient.default_account_id) ?? accounts[0] ?? null;
+}
+
+/**
+ * Add an account to a recipient. The first account always becomes the default.
+ */
+export function addPayoutAccount(recipient: StoredRecord, account: PayoutAccount, makeDefault: boolean = false) {
+  recipient.payout_accounts = [...payoutAccounts(recipient), account];
+  if (makeDefault || !recipient.payout_accounts.some((a: PayoutAccount) => a.id === recipient.default_account_id)) {
+    recipient.default_account_id = account.id;
+  }
+}
+
+/**
+ * Remember the Wise account a payout account was paid to.
+ * Returns false when the account no longer exists or already had that ID.
+ */
+export function setWiseAccountId(recipient: StoredRecord, accountId: string, wiseAccountId: number): boolean {
+  const account = findPayoutAccount(recipient, accountId);
+  if (!account || account.wise_account_id === wiseAccountId) {
+    return false;
+  }
+  account.wise_account_id = wiseAccountId;
+  return true;
+}
+
+/**
+ * A saved recipient as shown to ChatGPT and the widget (no bank details)
+ */
+export function presentRecipient(recipient: StoredRecord): StoredRecord {
+  const defaultAccount = findPayoutAccount(recipient);
+  return {
+    ...recipient,
+    payout_accounts: payoutAccounts(recipient).map(({ bank_details, wise_account_id, ...account }) => ({
+      ...account,
+      is_default: account.id === defaultAccount?.id
+    }))
+  };
+}
+
+/**
+ * The saved recipient with exactly this name (and country, when given)
+ */
+export function findRecipientByName(recipients: StoredRecord[], name: string, country?: string): StoredRecord | null {
+  const matches = recipients.filter(r =>
+    r.name.toLowerCase() === name.trim().toLowerCase() &&
+    (!country || r.country.toLowerCase() === country.toLowerCase())
+  );
+  // Two people saved under the same name - let the caller pick by ID instead of guessing
+  return matches.length === 1 ? matches[0] : null;
+}
@@ -0,0 +1,68 @@
+import pg from 'pg';
+import type { SqlDriver } from './storage.js';
+
+/**
+ * Rewrite `?` placeholders into Postgres-style `$1, $2, ...`
+ */
+function toPositional(sql: string): string {
+  let index = 0;
+  return sql.replace(/\?/g, () => `$${++index}`);
+}
+
+/**
+ * Postgres driver backed by node-postgres (selected by DATABASE_URL)
+ */
+export class PostgresDriver implements SqlDriver {
+  readonly dialect = 'postgres' as const;
+
+  constructor(private client: pg.Pool | pg.PoolClient) {}
+
+  static connect(connectionString: string): PostgresDriver {
+    const pool = new pg.Pool({
+      connectionString,
+      ssl: connectionString.includes('sslmode=require') ? { rejectUnauthorized: false } : undefined
+    });
+    pool.on('error', (error) => console.error('Postgres pool error:', error.message));
+    return new PostgresDriver(pool);
+  }
+
+  async query<T = any>(sql: string, params: unknown[] = []): Promise<T[]> {
+    const result = await this.client.query(toPositional(sql), params);
+    return result.rows as T[];
+  }
+
+  async run(sql: string, params: unknown[] = []): Promise<number> {
+    const result = await this.client.query(toPositional(sql), params);
+    return result.rowCount ?? 0;
+  }
+
+  async exec(sql: string): Promise<void> {
+    await this.client.query(sql);
+  }
+
+  async transaction<T>(fn: (tx: SqlDriver) => Promise<T>): Promise<T> {
+    if (!(this.client instanceof pg.Pool)) {
+      // Already inside a transaction on a dedicated client
+      return fn(this);
+    }
+
+    const client = await this.client.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(new PostgresDriver(client));
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.client instanceof pg.Pool) {
+      await this.client.end();
+    }
+  }
+}
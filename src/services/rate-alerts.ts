@@ -0,0 +1,182 @@
+import type { Storage, StoredRecord } from './storage.js';
+import { pairRate } from './rate-history.js';
+
+/**
+ * Rate alerts: "tell me when the peso hits 19".
+ *
+ * An alert watches one currency pair for a rate at or above (or at or below)
+ * a target. Every set of live rates the exchange rate service fetches is
+ * checked against the active alerts; one that is reached fires once - it is
+ * marked triggered with the rate that reached it, sent through the configured
+ * notifiers (email, SMS, ...) and shown to the user on their next tool call.
+ * Bundled snapshot rates never trigger an alert.
+ */
+
+export type AlertDirection = 'above' | 'below';
+
+/**
+ * Sends a triggered alert somewhere outside the chat. The alert carries the
+ * user's notify_email / notify_phone when they gave one.
+ */
+export interface RateAlertNotifier {
+  name: string;
+  notify(alert: StoredRecord): Promise<void>;
+}
+
+interface RateAlertConfig {
+  notifiers?: RateAlertNotifier[];
+  // Fetches rates (and so checks alerts, through the exchange rate service's refresh hook)
+  refreshRates?: () => Promise<unknown>;
+  // How often to fetch rates when nobody is calling tools (default 15 minutes)
+  intervalMs?: number;
+}
+
+const DEFAULT_INTERVAL = 15 * 60 * 1000; // 15 minutes
+
+/**
+ * POSTs each triggered alert as JSON, e.g. to an email or SMS gateway
+ */
+export function webhookNotifier(url: string, timeoutMs: number = 5000): RateAlertNotifier {
+  return {
+    name: 'webhook',
+    async notify(alert) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'rate_alert.triggered', alert }),
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    }
+  };
+}
+
+export function isAlertReached(alert: StoredRecord, rate: number): boolean {
+  return alert.direction === 'above' ? rate >= alert.target_rate : rate <= alert.target_rate;
+}
+
+export class RateAlertService {
+  private timer: NodeJS.Timeout | null = null;
+  private evaluating: Promise<number> | null = null;
+  private notifiers: RateAlertNotifier[];
+  private intervalMs: number;
+
+  constructor(private storage: Storage, private config: RateAlertConfig = {}) {
+    this.notifiers = config.notifiers ?? [];
+    this.intervalMs = config.intervalMs ?? DEFAULT_INTERVAL;
+  }
+
+  // Whether triggered alerts go anywhere besides the chat
+  get notifiesOutsideChat(): boolean {
+    return this.notifiers.length > 0;
+  }
+
+  /**
+   * Keep rates refreshing in the background, so alerts fire even when nobody is chatting
+   */
+  start() {
+    if (this.timer || !this.config.refreshRates) return;
+    const refresh = () => {
+      this.config.refreshRates!().catch(error => console.error('❌ Rate alert refresh failed:', error.message));
+    };
+    this.timer = setInterval(refresh, this.intervalMs);
+    refresh();
+  }
+
+  async stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.evaluating;
+  }
+
+  /**
+   * Check every active alert against freshly fetched rates (against USD).
+   * Returns how many fired. Overlapping calls share the evaluation in progress.
+   */
+  evaluate(rates: Record<string, number>, now = Date.now()): Promise<number> {
+    if (!this.evaluating) {
+      this.evaluating = this.fireReached(rates, now)
+        .catch(error => {
+          console.error('❌ Rate alert evaluation failed:', error.message);
+          return 0;
+        })
+        .finally(() => { this.evaluating = null; });
+    }
+    return this.evaluating;
+  }
+
+  private async fireReached(rates: Record<string, number>, now: number): Promise<number> {
+    const active = (await this.storage.rateAlerts.list()).filter(a => a.status === 'active' && a.owner_id);
+
+    let fired = 0;
+    for (const alert of active) {
+      const rate = pairRate(rates, alert.from_currency, alert.to_currency);
+      if (!rate || !isAlertReached(alert, rate)) continue;
+
+      alert.status = 'triggered';
+      alert.triggered_rate = rate;
+      alert.triggered_at = new Date(now).toISOString();
+      // Changed meanwhile (say, deleted by its owner) - the next fetch looks at it again
+      if (!await this.storage.rateAlerts.saveIfUnchanged(alert)) continue;
+
+      fired++;
+      console.log(`🔔 Rate alert ${alert.id} triggered: ${alert.from_currency}/${alert.to_currency} ${rate.toFixed(4)} (${alert.direction} ${alert.target_rate})`);
+      await this.notify(alert);
+    }
+    return fired;
+  }
+
+  // Send through every notifier, and keep how each went on the alert
+  private async notify(alert: StoredRecord) {
+    if (this.notifiers.length === 0) return;
+
+    alert.notifications = [];
+    for (const notifier of this.notifiers) {
+      try {
+        await notifier.notify(alert);
+        alert.notifications.push({ notifier: notifier.name, status: 'sent', at: new Date().toISOString() });
+      } catch (error: any) {
+        console.error(`⚠️  Rate alert ${alert.id} not sent via ${notifier.name}: ${error.message}`);
+        alert.notifications.push({ notifier: notifier.name, status: 'failed', error: error.message, at: new Date().toISOString() });
+      }
+    }
+    await this.storage.rateAlerts.saveIfUnchanged(alert);
+  }
+}
+
+/**
+ * Alerts that fired since the user last heard about them, marked as shown.
+ * `storage` must be scoped to the user.
+ */
+export async function takeTriggeredAlerts(storage: Storage): Promise<StoredRecord[]> {
+  const unseen = (await storage.rateAlerts.list()).filter(a => a.status === 'triggered' && !a.surfaced_at);
+
+  const taken: StoredRecord[] = [];
+  for (const alert of unseen) {
+    alert.surfaced_at = new Date().toISOString();
+    // Another call may be showing it right now
+    if (await storage.rateAlerts.saveIfUnchanged(alert)) {
+      taken.push(alert);
+    }
+  }
+  return taken.sort((a, b) => a.triggered_at.localeCompare(b.triggered_at));
+}
+
+// Export singleton instance (will be initialized in server.ts)
+let rateAlertService: RateAlertService | null = null;
+
+export function initializeRateAlerts(storage: Storage, config?: RateAlertConfig) {
+  rateAlertService = new RateAlertService(storage, config);
+  return rateAlertService;
+}
+
+export function getRateAlerts(): RateAlertService {
+  if (!rateAlertService) {
+    throw new Error('Rate alerts not initialized. Call initializeRateAlerts first.');
+  }
+  return rateAlertService;
+}
@@ -0,0 +1,118 @@
+import type { Storage } from './storage.js';
+
+/**
+ * Exchange rate history.
+ *
+ * Every set of live rates the exchange rate service fetches is stored as it
+ * came in (rates against USD). History for a currency pair is worked out from
+ * those: one point per day (the last rate fetched that day), the range over a
+ * period and how much the rate moved over the last 7, 30 and 90 days.
+ */
+
+export interface RatePoint {
+  // Day (YYYY-MM-DD, UTC) and the last rate fetched on it
+  date: string;
+  rate: number;
+}
+
+export interface RateHistory {
+  from_currency: string;
+  to_currency: string;
+  days: number;
+  // Oldest first
+  points: RatePoint[];
+  current: number | null;
+  min: RatePoint | null;
+  max: RatePoint | null;
+  average: number | null;
+  // Percent change to the current rate from 7, 30 and 90 days ago (null without data that old)
+  change_percent: Record<'7d' | '30d' | '90d', number | null>;
+  // Where the current rate sits between the period's low (0) and high (100)
+  position_percent: number | null;
+}
+
+export const HISTORY_PERIODS = [7, 30, 90];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Store one fetch of live rates (rates against USD, and when each was published)
+ */
+export async function recordRates(
+  storage: Storage,
+  fetched: { timestamp: string; rates: Record<string, number>; as_of: Record<string, string>; sources: Record<string, string> }
+): Promise<void> {
+  await storage.exchangeRates.insert({
+    id: fetched.timestamp,
+    created_at: fetched.timestamp,
+    rates: fetched.rates,
+    as_of: fetched.as_of,
+    sources: fetched.sources
+  });
+}
+
+/**
+ * Rate from one currency to another, given rates against USD
+ */
+export function pairRate(rates: Record<string, number>, from: string, to: string): number | null {
+  const fromRate = from === 'USD' ? 1 : rates[from];
+  const toRate = to === 'USD' ? 1 : rates[to];
+  return fromRate && toRate ? toRate / fromRate : null;
+}
+
+const percentChange = (from: number, to: number) => Math.round(((to - from) / from) * 10000) / 100;
+
+/**
+ * Daily history of one currency pair over the last `days` days
+ */
+export async function getRateHistory(storage: Storage, from: string, to: string, days: number, now = Date.now()): Promise<RateHistory> {
+  // A week past the longest period, so a change can start from the last rate before a gap
+  const longest = Math.max(days, ...HISTORY_PERIODS) + 7;
+  const records = await storage.exchangeRates.listSince(new Date(now - longest * DAY_MS).toISOString());
+
+  // Newest first, so the first rate seen for a day is its last
+  const daily = new Map<string, number>();
+  for (const record of records) {
+    const rate = pairRate(record.rates, from, to);
+    const date = record.created_at.slice(0, 10);
+    if (rate && !daily.has(date)) {
+      daily.set(date, rate);
+    }
+  }
+  const allPoints = [...daily].map(([date, rate]) => ({ date, rate })).reverse();
+
+  const periodStart = new Date(now - days * DAY_MS).toISOString().slice(0, 10);
+  const points = allPoints.filter(p => p.date >= periodStart);
+  const current = allPoints.length > 0 ? allPoints[allPoints.length - 1].rate : null;
+
+  // The rate on the day `period` days ago, or the last one before it
+  const changeOver = (period: number) => {
+    const start = new Date(now - period * DAY_MS).toISOString().slice(0, 10);
+    const then = [...allPoints].reverse().find(p => p.date <= start);
+    return then && current ? percentChange(then.rate, current) : null;
+  };
+
+  const history = {
+    from_currency: from,
+    to_currency: to,
+    days,
+    points,
+    current,
+    change_percent: { '7d': changeOver(7), '30d': changeOver(30), '90d': changeOver(90) }
+  };
+  if (points.length === 0) {
+    return { ...history, min: null, max: null, average: null, position_percent: null };
+  }
+
+  const min = points.reduce((low, p) => (p.rate < low.rate ? p : low));
+  const max = points.reduce((high, p) => (p.rate > high.rate ? p : high));
+  return {
+    ...history,
+    min,
+    max,
+    average: points.reduce((sum, p) => sum + p.rate, 0) / points.length,
+    position_percent: current !== null && max.rate > min.rate
+      ? Math.round(((current - min.rate) / (max.rate - min.rate)) * 100)
+      : null
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * Approximate mid-market rates against USD, bundled so every corridor has a
+ * rate when no live provider answers. Always reported with `as_of`, so they
+ * show as stale - update the snapshot when rates have moved a lot.
+ */
+export const RATE_SNAPSHOT = {
+  as_of: '2026-10-01T00:00:00.000Z',
+  rates: {
+    USD: 1, EUR: 0.92, CAD: 1.36,
+
+    // Latin America
+    MXN: 17.5, BRL: 5.4, COP: 4100, ARS: 950, CLP: 930, CRC: 510, GTQ: 7.8, UYU: 40.2,
+    HNL: 24.5, DOP: 58.2, PEN: 3.7, NIO: 36.5,
+
+    // Asia
+    INR: 83.5, PHP: 56.5, SGD: 1.34, JPY: 150, HKD: 7.8, THB: 35.5, MYR: 4.6, IDR: 15800,
+    VND: 25000, KRW: 1350, CNY: 7.2, PKR: 278, BDT: 118,
+
+    // Europe
+    GBP: 0.78, PLN: 3.95, RON: 4.6, TRY: 32.5, CHF: 0.88, SEK: 10.5, NOK: 10.7, DKK: 6.87,
+    CZK: 23, HUF: 360,
+
+    // Africa and the Middle East
+    ZAR: 18.5, NGN: 1550, KES: 130, EGP: 48, MAD: 9.9, AED: 3.6725, ILS: 3.7,
+
+    // Oceania
+    AUD: 1.5, NZD: 1.65
+  } as Record<string, number>
+};
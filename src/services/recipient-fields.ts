@@ -1,14 +1,30 @@
+import { bankFieldValidator, type BankFieldValidator } from './bank-validators.js';
+
 /**
- * Defines required bank account fields for each country/currency
- * Based on Wise API requirements
+ * Defines required bank account fields for each country/currency.
+ *
+ * In real mode the fields come from Wise's account requirements
+ * (/v1/account-requirements), cached per currency and amount range; the static table
+ * below covers the main corridors when Wise can't be reached (and demo mode).
  */
 
 export interface BankFieldRequirement {
+  // Wise field key, e.g. "clabe" or "address.city"
   name: string;
   label: string;
   description: string;
   required: boolean;
   example: string;
+  // Wise requirements also describe the field's format
+  type?: 'text' | 'select' | 'radio' | 'date';
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  options?: { value: string; label: string }[];
+  // Filling this in can change which other fields are needed
+  refreshRequirementsOnChange?: boolean;
+  // Format/checksum check for fields we know (CLABE, IBAN, CPF...)
+  validator?: BankFieldValidator;
 }
 
 export interface CountryBankRequirements {
@@ -17,8 +33,45 @@ export interface CountryBankRequirements {
   accountType: string;
   fields: BankFieldRequirement[];
   instructions: string;
+  source?: 'wise' | 'static';
+  // Other Wise account types this currency can be paid to
+  alternativeAccountTypes?: string[];
+}
+
+export interface BankDetailsValidation {
+  valid: boolean;
+  missingFields: string[];
+  invalidFields: { field: string; message: string }[];
 }
 
+// Fetches raw Wise account requirements for sending `amount` of `sourceCurrency`;
+// `recipient` is the partly filled-in recipient for a refresh (POST), omitted for the initial GET
+export type RequirementsFetcher = (
+  sourceCurrency: string,
+  currency: string,
+  amount: number,
+  recipient?: { type: string; details: Record<string, any> }
+) => Promise<any[]>;
+
+const REQUIREMENTS_CACHE_TTL = 6 * 60 * 60 * 1000; // 6 hours
+const REQUIREMENTS_CACHE_SIZE = 200;
+// Each refresh can reveal new refresh-triggering fields (e.g. country, then state)
+const MAX_REQUIREMENT_REFRESHES = 3;
+
+// Fields we fill in ourselves instead of asking the user
+const IMPLICIT_FIELDS: Record<string, string> = {
+  legalType: 'PRIVATE'
+};
+
+// Older flat bank_details names for Wise's nested address fields
+const FIELD_ALIASES: Record<string, string> = {
+  'address.firstLine': 'address',
+  'address.city': 'city',
+  'address.postCode': 'postCode',
+  'address.state': 'state',
+  'address.country': 'country'
+};
+
 export const COUNTRY_BANK_REQUIREMENTS: Record<string, CountryBankRequirements> = {
   // Mexico
   'MXN': {
@@ -48,7 +101,7 @@ export const COUNTRY_BANK_REQUIREMENTS: Record<string, CountryBankRequirements>
         label: 'CPF',
         description: 'Brazilian tax ID (11 digits)',
         required: true,
-        example: '12345678901'
+        example: '52998224725'
       },
       {
         name: 'accountNumber',
@@ -179,41 +232,412 @@ export const COUNTRY_BANK_REQUIREMENTS: Record<string, CountryBankRequirements>
 };
 
 /**
- * Get bank requirements for a specific currency
+ * Get the built-in bank requirements for a currency (no Wise call)
+ */
+export function getStaticBankRequirements(currency: string): CountryBankRequirements | null {
+  const requirements = COUNTRY_BANK_REQUIREMENTS[currency];
+  return requirements ? withValidators({ ...requirements, source: 'static' }) : null;
+}
+
+function withValidators(requirements: CountryBankRequirements): CountryBankRequirements {
+  return {
+    ...requirements,
+    fields: requirements.fields.map(field => {
+      const validator = bankFieldValidator(requirements.currency, field.name);
+      return validator ? { ...field, validator } : field;
+    })
+  };
+}
+
+/**
+ * A field's value in bank details given as Wise keys ("address.city"), nested
+ * objects ({ address: { city } }) or the older flat names ("city")
  */
-export function getBankRequirements(currency: string): CountryBankRequirements | null {
-  return COUNTRY_BANK_REQUIREMENTS[currency] || null;
+export function bankDetailValue(details: Record<string, any>, name: string): any {
+  if (details[name] !== undefined && details[name] !== '') {
+    return details[name];
+  }
+  if (name.includes('.')) {
+    const nested = name.split('.').reduce<any>((value, key) => value && typeof value === 'object' ? value[key] : undefined, details);
+    if (nested !== undefined && nested !== '') {
+      return nested;
+    }
+  }
+  const alias = FIELD_ALIASES[name];
+  return alias && typeof details[alias] !== 'object' ? details[alias] : undefined;
 }
 
 /**
- * Validate bank details for a currency
+ * Turn one Wise account-requirements entry into our requirements shape
  */
-export function validateBankDetails(currency: string, details: Record<string, any>): { valid: boolean; missingFields: string[] } {
-  const requirements = getBankRequirements(currency);
+function fromWiseRequirement(requirement: any, currency: string, country: string): CountryBankRequirements {
+  const fields: BankFieldRequirement[] = [];
 
-  if (!requirements) {
-    return { valid: false, missingFields: ['Unknown currency'] };
+  for (const field of requirement.fields || []) {
+    for (const item of field.group || []) {
+      if (item.key in IMPLICIT_FIELDS) continue;
+
+      const options = Array.isArray(item.valuesAllowed) && item.valuesAllowed.length > 0
+        ? item.valuesAllowed.map((v: any) => ({ value: String(v.key), label: String(v.name ?? v.key) }))
+        : undefined;
+
+      fields.push({
+        name: item.key,
+        label: field.name || item.name || item.key,
+        description: options
+          ? `One of: ${options.map((o: { value: string; label: string }) => o.value === o.label ? o.value : `${o.value} (${o.label})`).join(', ')}`
+          : (item.displayFormat ? `Format: ${item.displayFormat}` : field.name || item.key),
+        required: Boolean(item.required),
+        example: item.example || options?.[0]?.value || '',
+        type: item.type,
+        pattern: item.validationRegexp || undefined,
+        minLength: item.minLength ?? undefined,
+        maxLength: item.maxLength ?? undefined,
+        options,
+        refreshRequirementsOnChange: Boolean(item.refreshRequirementsOnChange)
+      });
+    }
+  }
+
+  const required = fields.filter(f => f.required).map(f => f.label);
+  return {
+    country,
+    currency,
+    accountType: requirement.type,
+    fields,
+    instructions: `For ${country} (${requirement.title || requirement.type}), we need the recipient's ` +
+      (required.length > 0 ? `${required.join(', ')}.` : 'bank details.'),
+    source: 'wise'
+  };
+}
+
+/**
+ * Pick one account type out of a Wise account-requirements response
+ */
+export function parseWiseRequirements(
+  response: any[],
+  currency: string,
+  country: string,
+  preferredType?: string
+): CountryBankRequirements | null {
+  if (!Array.isArray(response) || response.length === 0) {
+    return null;
+  }
+
+  // Prefer the account type we already know (or were asked for), else Wise's first choice
+  const knownType = preferredType || COUNTRY_BANK_REQUIREMENTS[currency]?.accountType;
+  const chosen = response.find(r => r.type === knownType) || response[0];
+  return {
+    ...withValidators(fromWiseRequirement(chosen, currency, country)),
+    alternativeAccountTypes: response.filter(r => r !== chosen).map(r => r.type)
+  };
+}
+
+/**
+ * Build the Wise recipient `details` object (nested, e.g. address.city) from bank details
+ */
+export function buildWiseRecipientDetails(requirements: CountryBankRequirements, details: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = { ...IMPLICIT_FIELDS };
+
+  for (const field of requirements.fields) {
+    let value = bankDetailValue(details, field.name);
+    if (value === undefined) continue;
+
+    // Select values are matched loosely ("savings" for "SAVINGS") but sent as Wise spells them
+    const option = field.options?.find(o => o.value.toLowerCase() === String(value).toLowerCase());
+    if (option) value = option.value;
+
+    const path = field.name.split('.');
+    let target = result;
+    for (const key of path.slice(0, -1)) {
+      target = target[key] = target[key] && typeof target[key] === 'object' ? target[key] : {};
+    }
+    target[path[path.length - 1]] = value;
   }
 
+  return result;
+}
+
+/**
+ * Bank requirements per currency, loaded from Wise and cached.
+ * Without a fetcher (demo mode) only the static table is used.
+ */
+export class RecipientRequirementsService {
+  // Least recently used first (Map keeps insertion order)
+  private cache = new Map<string, { requirements: CountryBankRequirements; expiresAt: number }>();
+
+  constructor(
+    private fetcher: RequirementsFetcher | null,
+    private ttlMs: number = REQUIREMENTS_CACHE_TTL,
+    private maxEntries: number = REQUIREMENTS_CACHE_SIZE
+  ) {}
+
+  /**
+   * `refresh` holds the values of the refresh-triggering fields sent in
+   * `recipient` - the cache key never includes the rest of the bank details,
+   * and amounts share an entry per order of magnitude.
+   */
+  private async load(
+    sourceCurrency: string,
+    currency: string,
+    country: string,
+    amount: number,
+    recipient?: { type: string; details: Record<string, any> },
+    refresh = ''
+  ): Promise<CountryBankRequirements | null> {
+    const magnitude = Math.floor(Math.log10(Math.max(amount, 1)));
+    const key = `${sourceCurrency}:${currency}:${country}:${magnitude}:${recipient?.type ?? ''}:${refresh}`;
+    const now = Date.now();
+    const cached = this.cache.get(key);
+    if (cached) {
+      this.cache.delete(key);
+      if (cached.expiresAt > now) {
+        this.cache.set(key, cached);
+        return cached.requirements;
+      }
+    }
+
+    const requirements = parseWiseRequirements(await this.fetcher!(sourceCurrency, currency, amount, recipient), currency, country, recipient?.type);
+    if (requirements) {
+      this.cache.set(key, { requirements, expiresAt: now + this.ttlMs });
+      for (const [oldKey, entry] of this.cache) {
+        if (this.cache.size <= this.maxEntries && entry.expiresAt > now) break;
+        this.cache.delete(oldKey);
+      }
+    }
+    return requirements;
+  }
+
+  /**
+   * Requirements for paying `amount` of `sourceCurrency` to a `currency` account. Fields
+   * marked refreshRequirementsOnChange that are already filled in are sent
+   * back to Wise, which may add or drop fields in response. Falls back to the
+   * static table when Wise can't be reached.
+   */
+  async getRequirements(
+    currency: string,
+    country: string,
+    amount: number,
+    details: Record<string, any> = {},
+    sourceCurrency = 'USD'
+  ): Promise<CountryBankRequirements | null> {
+    if (!this.fetcher) {
+      return getStaticBankRequirements(currency);
+    }
+
+    try {
+      let requirements = await this.load(sourceCurrency, currency, country, amount);
+      let lastRefresh = '';
+
+      for (let i = 0; requirements && i < MAX_REQUIREMENT_REFRESHES; i++) {
+        const triggers = requirements.fields
+          .filter(f => f.refreshRequirementsOnChange && bankDetailValue(details, f.name) !== undefined)
+          .map(f => f.name)
+          .sort();
+        const refresh = JSON.stringify(triggers.map(name => [name, bankDetailValue(details, name)]));
+        if (triggers.length === 0 || refresh === lastRefresh) break;
+        lastRefresh = refresh;
+
+        const partial = { ...requirements, fields: requirements.fields.filter(f => triggers.includes(f.name)) };
+        requirements = await this.load(sourceCurrency, currency, country, amount, {
+          type: requirements.accountType,
+          details: buildWiseRecipientDetails(partial, details)
+        }, refresh) ?? requirements;
+      }
+
+      return requirements ?? getStaticBankRequirements(currency);
+    } catch (error: any) {
+      console.error(`⚠️  Wise account requirements unavailable for ${currency}, using built-in fields:`, error.message);
+      return getStaticBankRequirements(currency);
+    }
+  }
+}
+
+/**
+ * Validate bank details against a currency's requirements
+ */
+export function validateBankDetails(requirements: CountryBankRequirements, details: Record<string, any>): BankDetailsValidation {
   const missingFields: string[] = [];
+  const invalidFields: { field: string; message: string }[] = [];
 
   for (const field of requirements.fields) {
-    if (field.required && !details[field.name]) {
-      missingFields.push(field.label);
+    const value = bankDetailValue(details, field.name);
+    if (value === undefined || value === null || value === '') {
+      if (field.required) {
+        missingFields.push(field.label);
+      }
+      continue;
+    }
+
+    let text = String(value);
+    if (field.validator) {
+      const message = field.validator.validate(text);
+      if (message) {
+        invalidFields.push({ field: field.label, message });
+        continue;
+      }
+      // Wise's own pattern and length apply to the value as it will be sent
+      text = field.validator.normalize(text);
+    }
+
+    if (field.options && !field.options.some(o => o.value.toLowerCase() === text.toLowerCase())) {
+      invalidFields.push({ field: field.label, message: `must be one of ${field.options.map(o => o.value).join(', ')}` });
+    } else if (field.minLength !== undefined && text.length < field.minLength) {
+      invalidFields.push({ field: field.label, message: `must be at least ${field.minLength} characters` });
+    } else if (field.maxLength !== undefined && text.length > field.maxLength) {
+      invalidFields.push({ field: field.label, message: `must be at most ${field.maxLength} characters` });
+    } else if (field.pattern && !matchesPattern(field.pattern, text)) {
+      invalidFields.push({ field: field.label, message: `isn't in the expected format${field.example ? ` (e.g. ${field.example})` : ''}` });
     }
   }
 
   return {
-    valid: missingFields.length === 0,
-    missingFields
+    valid: missingFields.length === 0 && invalidFields.length === 0,
+    missingFields,
+    invalidFields
   };
 }
 
+/**
+ * Bank details with validated fields in the form Wise expects (e.g. "23-14-70" → "231470")
+ */
+export function normalizeBankDetails(requirements: CountryBankRequirements, details: Record<string, any>): Record<string, any> {
+  const normalized = { ...details };
+  for (const field of requirements.fields) {
+    const value = bankDetailValue(details, field.name);
+    if (field.validator && value !== undefined && value !== null && value !== '') {
+      normalized[field.name] = field.validator.normalize(String(value));
+    }
+  }
+  return normalized;
+}
+
+function matchesPattern(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(pattern).test(value);
+  } catch {
+    // Wise regexes are Java-flavoured; skip any JavaScript can't compile
+    return true;
+  }
+}
+
+// Export singleton instance (will be initialized in server.ts)
+let requirementsService: RecipientRequirementsService | null = null;
+
+export function initializeRecipientRequirements(fetcher: RequirementsFetcher | null) {
+  requirementsService = new RecipientRequirementsService(fetcher);
+  return requirementsService;
+}
+
+/**
+ * Get bank requirements for a transfer - from Wise when configured, else the static table
+ */
+export async function getBankRequirements(
+  currency: string,
+  country: string,
+  amount: number,
+  details: Record<string, any> = {},
+  sourceCurrency = 'USD'
+): Promise<CountryBankRequirements | null> {
+  return requirementsService
+    ? requirementsService.getRequirements(currency, country, amount, details, sourceCurrency)
+    : getStaticBankRequirements(currency);
+}
+
+/**
+ * JSON schema for a corridor's bank details, so the model can send named
+ * fields (clabe, iban, sortCode...) with their formats
+ */
+export function bankDetailsSchema(requirements: CountryBankRequirements): Record<string, any> {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(requirements.fields.map(field => [field.name, {
+      type: 'string',
+      title: field.label,
+      description: field.description +
+        (field.example ? ` (e.g. ${field.example})` : '') +
+        (field.refreshRequirementsOnChange ? '. Other fields may depend on this one - ask for the form again once it is known.' : ''),
+      ...(field.options ? { enum: field.options.map(o => o.value) } : {}),
+      ...(field.pattern ? { pattern: field.pattern } : {}),
+      ...(field.minLength !== undefined ? { minLength: field.minLength } : {}),
+      ...(field.maxLength !== undefined ? { maxLength: field.maxLength } : {})
+    }])),
+    required: requirements.fields.filter(f => f.required).map(f => f.name)
+  };
+}
+
+/**
+ * Schema properties for every field in the built-in table, for tool
+ * definitions (which can't depend on the corridor)
+ */
+export function knownBankDetailProperties(): Record<string, { type: 'string'; description: string }> {
+  const fields: Record<string, { description: string; countries: string[] }> = {};
+
+  for (const requirements of Object.values(COUNTRY_BANK_REQUIREMENTS)) {
+    for (const field of requirements.fields) {
+      fields[field.name] ??= { description: field.description, countries: [] };
+      fields[field.name].countries.push(requirements.country);
+    }
+  }
+  return Object.fromEntries(Object.entries(fields).map(([name, field]) => [name, {
+    type: 'string' as const,
+    description: `${field.description} (${field.countries.join(', ')})`
+  }]));
+}
+
+/**
+ * bank_details from the old generic recipient_data.field1..field9 parameters,
+ * for clients that still send them. field1 is the CLABE, IBAN or account
+ * number and field2 the sort code or account type, depending on the currency.
+ */
+export function bankDetailsFromLegacyFields(currency: string, data: Record<string, any>): Record<string, any> {
+  const details: Record<string, any> = {
+    [currency === 'MXN' ? 'clabe' : currency === 'EUR' ? 'iban' : 'accountNumber']: data.field1,
+    [currency === 'GBP' ? 'sortCode' : 'accountType']: data.field2 ?? (currency === 'GBP' ? undefined : 'SAVINGS'),
+    cpf: data.field3,
+    bankCode: data.field4,
+    phoneNumber: data.field5,
+    idDocumentNumber: data.field6,
+    city: data.field7,
+    address: data.field8,
+    postCode: data.field9
+  };
+  return Object.fromEntries(Object.entries(details).filter(([, value]) => value !== undefined && value !== ''));
+}
+
+// Fields that identify an account, most telling first, with labels for when requirements are unknown
+const ACCOUNT_IDENTIFIER_FIELDS: Record<string, string> = {
+  clabe: 'CLABE',
+  iban: 'IBAN',
+  IBAN: 'IBAN',
+  accountNumber: 'Account',
+  cardNumber: 'Card',
+  email: 'Email',
+  phoneNumber: 'Phone'
+};
+
+/**
+ * A short, masked description of a bank account, e.g. "CLABE ••••9719"
+ */
+export function describeBankAccount(requirements: CountryBankRequirements | null, details: Record<string, any>): string {
+  const fields = requirements?.fields ?? [];
+  const identifier = Object.entries(ACCOUNT_IDENTIFIER_FIELDS)
+    .map(([name, label]) => fields.find(f => f.name === name) ?? { name, label })
+    .concat(fields.filter(f => f.required))
+    .find(f => bankDetailValue(details, f.name));
+
+  if (!identifier) {
+    return 'Bank account';
+  }
+  const value = String(bankDetailValue(details, identifier.name)).replace(/\s/g, '');
+  return `${identifier.label} ••••${value.slice(-4)}`;
+}
+
 /**
  * Format bank details for display
  */
 export function formatBankDetails(currency: string, details: Record<string, any>): string {
-  const requirements = getBankRequirements(currency);
+  const requirements = getStaticBankRequirements(currency);
 
   if (!requirements) {
     return 'Unknown currency';
@@ -221,8 +645,9 @@ export function formatBankDetails(currency: string, details: Record<string, any>
 
   const lines: string[] = [];
   for (const field of requirements.fields) {
-    if (details[field.name]) {
-      lines.push(`${field.label}: ${details[field.name]}`);
+    const value = bankDetailValue(details, field.name);
+    if (value) {
+      lines.push(`${field.label}: ${value}`);
     }
   }
 
@@ -0,0 +1,486 @@
+/**
+ * Recurrence rules for scheduled transfers.
+ *
+ * A small subset of iCalendar RRULE (FREQ, INTERVAL, BYDAY, BYMONTHDAY, BYSETPOS),
+ * evaluated in the schedule's time zone so a payment due "on the 1st at 9:00"
+ * stays on the 1st at 9:00 local time across DST changes. Unlike RRULE, month
+ * days past the end of a month clamp to its last day (the 31st becomes Feb 28)
+ * instead of being skipped.
+ */
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  by_weekday?: Weekday[];
+  // 1-31, or negative to count from the end of the month (-1 = last day)
+  by_month_day?: number[];
+  // Keep only the nth matching day of each period (-1 = the last), like RRULE BYSETPOS
+  by_set_position?: number;
+  // First occurrence; its local time of day is used for every occurrence
+  start: string;
+  timezone: string;
+}
+
+export class RecurrenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceError';
+  }
+}
+
+// Named patterns users can pick instead of writing a rule
+export const RECURRENCE_PATTERNS = [
+  'weekly',
+  'bi-weekly',
+  'monthly',
+  'quarterly',
+  '1st-and-15th',
+  'last-business-day',
+  'payday-friday'
+];
+
+// Patterns that are just "every N units from the start date"; moving the next date re-anchors them
+export const ANCHORED_PATTERNS = ['weekly', 'bi-weekly', 'monthly', 'quarterly'];
+
+// Indexed like Date#getUTCDay()
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Monday', TU: 'Tuesday', WE: 'Wednesday', TH: 'Thursday', FR: 'Friday', SA: 'Saturday', SU: 'Sunday'
+};
+const BUSINESS_DAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+const DAY = 24 * 60 * 60 * 1000;
+// Give up looking for an occurrence after this many periods without one
+const MAX_PERIODS = 1000;
+
+// --- Time zone helpers -------------------------------------------------------
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Wall-clock date and time of an instant in a time zone
+function toLocal(instant: number, timeZone: string): LocalDateTime {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+function offsetAt(instant: number, timeZone: string): number {
+  const local = toLocal(instant, timeZone);
+  const wall = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  return wall - Math.floor(instant / 1000) * 1000;
+}
+
+// The instant a wall-clock time happens in a time zone (times skipped by DST move forward)
+function fromLocal(local: LocalDateTime, timeZone: string): number {
+  const wall = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+  let instant = wall - offsetAt(wall, timeZone);
+  const corrected = offsetAt(instant, timeZone);
+  if (wall - corrected !== instant) {
+    instant = wall - corrected;
+  }
+  return instant;
+}
+
+/**
+ * Parse a date for a schedule. A bare date ("2026-11-01") means that day at `time` in the
+ * time zone; anything with a time is taken as given. Returns an ISO timestamp, or null.
+ */
+export function parseLocalDate(value: unknown, timeZone: string, time = '09:00:00'): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+
+  const dateOnly = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dateOnly) {
+    const [hour, minute, second] = time.split(':').map(Number);
+    const [, year, month, day] = dateOnly.map(Number);
+    if (month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+    return new Date(fromLocal({ year, month, day, hour, minute, second: second || 0 }, timeZone)).toISOString();
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// Local time of day of an instant, as "HH:MM:SS"
+export function localTimeOf(iso: string, timeZone: string): string {
+  const local = toLocal(new Date(iso).getTime(), timeZone);
+  return [local.hour, local.minute, local.second].map(n => String(n).padStart(2, '0')).join(':');
+}
+
+// e.g. "Sun, Nov 1, 2026"
+export function formatLocalDate(iso: string, timeZone: string): string {
+  return new Date(iso).toLocaleDateString('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  });
+}
+
+// --- Calendar helpers (pure dates, no time zone) ------------------------------
+
+interface CalendarDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekdayOf(date: CalendarDate): Weekday {
+  return WEEKDAYS[new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay()];
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day) + days * DAY);
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+function addMonths(year: number, month: number, months: number): { year: number; month: number } {
+  const index = year * 12 + (month - 1) + months;
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+}
+
+function clampMonthDay(year: number, month: number, day: number): number {
+  const last = daysInMonth(year, month);
+  const resolved = day < 0 ? last + 1 + day : day;
+  return Math.min(Math.max(resolved, 1), last);
+}
+
+// Candidate days of the period that starts `period` intervals after the rule's first period
+function candidateDays(rule: RecurrenceRule, start: LocalDateTime, period: number): CalendarDate[] {
+  const step = period * rule.interval;
+  let days: CalendarDate[] = [];
+
+  switch (rule.frequency) {
+    case 'daily': {
+      const day = addDays(start, step);
+      days = !rule.by_weekday || rule.by_weekday.includes(weekdayOf(day)) ? [day] : [];
+      break;
+    }
+    case 'weekly': {
+      // Weeks run Monday to Sunday (RRULE's default WKST=MO)
+      const offsetFromMonday = (WEEKDAYS.indexOf(weekdayOf(start)) + 6) % 7;
+      const monday = addDays(start, step * 7 - offsetFromMonday);
+      const wanted = rule.by_weekday?.length ? rule.by_weekday : [weekdayOf(start)];
+      for (let i = 0; i < 7; i++) {
+        const day = addDays(monday, i);
+        if (wanted.includes(weekdayOf(day))) days.push(day);
+      }
+      break;
+    }
+    case 'monthly': {
+      const { year, month } = addMonths(start.year, start.month, step);
+      if (rule.by_month_day?.length) {
+        const monthDays = [...new Set(rule.by_month_day.map(d => clampMonthDay(year, month, d)))];
+        days = monthDays.map(day => ({ year, month, day }));
+      } else if (rule.by_weekday?.length) {
+        for (let day = 1; day <= daysInMonth(year, month); day++) {
+          days.push({ year, month, day });
+        }
+      } else {
+        days = [{ year, month, day: clampMonthDay(year, month, start.day) }];
+      }
+      if (rule.by_weekday?.length) {
+        days = days.filter(day => rule.by_weekday!.includes(weekdayOf(day)));
+      }
+      break;
+    }
+    case 'yearly': {
+      const year = start.year + step;
+      days = [{ year, month: start.month, day: clampMonthDay(year, start.month, start.day) }];
+      break;
+    }
+  }
+
+  days.sort((a, b) => Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day));
+
+  if (rule.by_set_position) {
+    const index = rule.by_set_position > 0 ? rule.by_set_position - 1 : days.length + rule.by_set_position;
+    days = days[index] ? [days[index]] : [];
+  }
+  return days;
+}
+
+// A period index at or just before the one containing `from`, so long-running schedules don't replay every period
+function firstPeriodNear(rule: RecurrenceRule, start: number, from: number): number {
+  if (from <= start) return 0;
+  const days = (from - start) / DAY;
+  // Under-estimate (31-day months, 366-day years) so we never start past `from`
+  const units = {
+    daily: days,
+    weekly: days / 7,
+    monthly: days / 31,
+    yearly: days / 366
+  }[rule.frequency];
+  return Math.max(0, Math.floor(units / rule.interval) - 1);
+}
+
+/**
+ * Occurrences of a rule after `after` (exclusive), or from its start when `after` is null.
+ * Stops early at `until` (inclusive).
+ */
+export function occurrencesAfter(rule: RecurrenceRule, after: string | null, limit: number, until?: string | null): string[] {
+  const start = new Date(rule.start).getTime();
+  const from = after ? new Date(after).getTime() : start - 1;
+  const end = until ? new Date(until).getTime() : Infinity;
+  const local = toLocal(start, rule.timezone);
+  const results: string[] = [];
+
+  const first = firstPeriodNear(rule, start, from);
+  for (let period = first; period < first + MAX_PERIODS && results.length < limit; period++) {
+    for (const day of candidateDays(rule, local, period)) {
+      const instant = fromLocal({ ...day, hour: local.hour, minute: local.minute, second: local.second }, rule.timezone);
+      if (instant > end) return results;
+      if (instant >= start && instant > from) {
+        results.push(new Date(instant).toISOString());
+        if (results.length >= limit) break;
+      }
+    }
+  }
+  return results;
+}
+
+/**
+ * The first occurrence after `after`, or null when the rule has none left before `until`
+ */
+export function nextOccurrence(rule: RecurrenceRule, after: string, until?: string | null): string | null {
+  return occurrencesAfter(rule, after, 1, until)[0] ?? null;
+}
+
+/**
+ * Build the rule for a named pattern. The first occurrence is on or after `start`.
+ */
+export function patternRule(pattern: string, start: string, timezone: string): RecurrenceRule {
+  const local = toLocal(new Date(start).getTime(), timezone);
+  let rule: RecurrenceRule;
+
+  switch (pattern) {
+    case 'weekly':
+      rule = { frequency: 'weekly', interval: 1, by_weekday: [weekdayOf(local)], start, timezone };
+      break;
+    case 'bi-weekly':
+      rule = { frequency: 'weekly', interval: 2, by_weekday: [weekdayOf(local)], start, timezone };
+      break;
+    case 'monthly':
+      rule = { frequency: 'monthly', interval: 1, by_month_day: [local.day], start, timezone };
+      break;
+    case 'quarterly':
+      rule = { frequency: 'monthly', interval: 3, by_month_day: [local.day], start, timezone };
+      break;
+    case '1st-and-15th':
+      rule = { frequency: 'monthly', interval: 1, by_month_day: [1, 15], start, timezone };
+      break;
+    case 'last-business-day':
+      rule = { frequency: 'monthly', interval: 1, by_weekday: BUSINESS_DAYS, by_set_position: -1, start, timezone };
+      break;
+    case 'payday-friday': {
+      // Every other Friday, starting with the first Friday on or after the start date
+      const untilFriday = (WEEKDAYS.indexOf('FR') - WEEKDAYS.indexOf(weekdayOf(local)) + 7) % 7;
+      const friday = addDays(local, untilFriday);
+      const first = new Date(fromLocal({ ...local, ...friday }, timezone)).toISOString();
+      rule = { frequency: 'weekly', interval: 2, by_weekday: ['FR'], start: first, timezone };
+      break;
+    }
+    default:
+      throw new RecurrenceError(`Unknown recurrence pattern "${pattern}". Choose one of: ${RECURRENCE_PATTERNS.join(', ')}`);
+  }
+
+  return anchorToFirstOccurrence(rule);
+}
+
+// Move a rule's start onto its first real occurrence (e.g. "1st and 15th" started on the 18th)
+function anchorToFirstOccurrence(rule: RecurrenceRule): RecurrenceRule {
+  const first = occurrencesAfter(rule, null, 1)[0];
+  if (!first) {
+    throw new RecurrenceError('This recurrence never produces a payment date');
+  }
+  return { ...rule, start: first };
+}
+
+/**
+ * Parse an RRULE string such as "FREQ=MONTHLY;BYMONTHDAY=1,15;COUNT=12".
+ * COUNT and UNTIL are returned separately since schedules keep them as max occurrences and end date.
+ */
+export function parseRRule(
+  text: string,
+  start: string,
+  timezone: string
+): { rule: RecurrenceRule; count?: number; until?: string } {
+  const fields: Record<string, string> = {};
+  for (const part of text.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue;
+    const [key, value] = part.split('=');
+    if (!key || value === undefined) {
+      throw new RecurrenceError(`Invalid RRULE part "${part}"`);
+    }
+    fields[key.toUpperCase()] = value.toUpperCase();
+  }
+
+  const frequency = fields.FREQ?.toLowerCase() as RecurrenceFrequency;
+  if (!['daily', 'weekly', 'monthly', 'yearly'].includes(frequency)) {
+    throw new RecurrenceError('RRULE needs FREQ=DAILY, WEEKLY, MONTHLY or YEARLY');
+  }
+
+  const unsupported = Object.keys(fields).filter(
+    key => !['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYSETPOS', 'COUNT', 'UNTIL', 'WKST'].includes(key)
+  );
+  if (unsupported.length > 0) {
+    throw new RecurrenceError(`Unsupported RRULE parts: ${unsupported.join(', ')}`);
+  }
+
+  const interval = fields.INTERVAL ? Number(fields.INTERVAL) : 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new RecurrenceError('INTERVAL must be a positive whole number');
+  }
+
+  const rule: RecurrenceRule = { frequency, interval, start, timezone };
+
+  if (fields.BYDAY) {
+    const days = fields.BYDAY.split(',');
+    if (days.some(day => !WEEKDAYS.includes(day as Weekday))) {
+      throw new RecurrenceError('BYDAY takes plain weekday codes (MO,TU,...); use BYSETPOS for "last Friday" style rules');
+    }
+    rule.by_weekday = days as Weekday[];
+  }
+  if (fields.BYMONTHDAY) {
+    const days = fields.BYMONTHDAY.split(',').map(Number);
+    if (days.some(day => !Number.isInteger(day) || day === 0 || day < -31 || day > 31)) {
+      throw new RecurrenceError('BYMONTHDAY values must be 1 to 31 or -1 to -31');
+    }
+    rule.by_month_day = days;
+  }
+  if (fields.BYSETPOS) {
+    const position = Number(fields.BYSETPOS);
+    if (!Number.isInteger(position) || position === 0) {
+      throw new RecurrenceError('BYSETPOS must be a non-zero whole number');
+    }
+    rule.by_set_position = position;
+  }
+
+  let count: number | undefined;
+  if (fields.COUNT) {
+    count = Number(fields.COUNT);
+    if (!Number.isInteger(count) || count < 1) {
+      throw new RecurrenceError('COUNT must be a positive whole number');
+    }
+  }
+
+  let until: string | undefined;
+  if (fields.UNTIL) {
+    const match = fields.UNTIL.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+    if (!match) {
+      throw new RecurrenceError('UNTIL must look like 20271231 or 20271231T235959Z');
+    }
+    const [, y, m, d, hh = '23', mm = '59', ss = '59'] = match;
+    until = new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss)).toISOString();
+  }
+
+  return { rule: anchorToFirstOccurrence(rule), count, until };
+}
+
+/**
+ * The rule in RRULE syntax, e.g. "FREQ=MONTHLY;BYMONTHDAY=1,15"
+ */
+export function toRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.by_weekday?.length) parts.push(`BYDAY=${rule.by_weekday.join(',')}`);
+  if (rule.by_month_day?.length) parts.push(`BYMONTHDAY=${rule.by_month_day.join(',')}`);
+  if (rule.by_set_position) parts.push(`BYSETPOS=${rule.by_set_position}`);
+  return parts.join(';');
+}
+
+function ordinal(n: number): string {
+  if (n === -1) return 'last day';
+  if (n < 0) return `${ordinal(-n)}-to-last day`;
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+}
+
+function joinWords(words: string[]): string {
+  return words.length <= 1 ? words.join('') : `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`;
+}
+
+/**
+ * Plain-English summary, e.g. "Monthly on the 1st and 15th" or "Last business day of every month"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const every = (unit: string) => rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  const weekdays = rule.by_weekday?.map(day => WEEKDAY_NAMES[day]) ?? [];
+
+  switch (rule.frequency) {
+    case 'daily':
+      return weekdays.length ? `${every('day')} on ${joinWords(weekdays)}` : every('day');
+    case 'weekly': {
+      // Without BYDAY it repeats on the start date's weekday
+      const days = weekdays.length ? weekdays : [WEEKDAY_NAMES[weekdayOf(toLocal(new Date(rule.start).getTime(), rule.timezone))]];
+      return `${every('week')} on ${joinWords(days)}`;
+    }
+    case 'monthly': {
+      const months = rule.interval === 1 ? 'every month' : `every ${rule.interval} months`;
+      const isBusinessDays = rule.by_weekday?.length === 5 && BUSINESS_DAYS.every(day => rule.by_weekday!.includes(day));
+      if (rule.by_set_position && rule.by_weekday?.length) {
+        const position = rule.by_set_position === -1 ? 'Last' : rule.by_set_position === 1 ? 'First' : ordinal(rule.by_set_position);
+        return `${position} ${isBusinessDays ? 'business day' : joinWords(weekdays)} of ${months}`;
+      }
+      if (rule.by_month_day?.length) {
+        const days = joinWords(rule.by_month_day.map(ordinal));
+        const clamps = rule.by_month_day.some(day => day > 28);
+        return `${rule.interval === 1 ? 'Monthly' : `Every ${rule.interval} months`} on the ${days}${clamps ? ' (or the last day of shorter months)' : ''}`;
+      }
+      return `${rule.interval === 1 ? 'Monthly' : `Every ${rule.interval} months`}`;
+    }
+    case 'yearly':
+      return every('year');
+  }
+}
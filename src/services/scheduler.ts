@@ -0,0 +1,397 @@
+import type { Storage, StoredRecord } from './storage.js';
+
+/**
+ * Background engine that executes due scheduled transfers.
+ *
+ * Every occurrence of a schedule gets one row in `schedule_runs`, keyed by the
+ * schedule ID and the time it was due. A worker must claim that row before it
+ * sends anything, and the transfer it creates carries the run ID, so after a
+ * crash or restart the run is either finished from what was already recorded
+ * or retried - never sent twice.
+ */
+
+/**
+ * Thrown by an executor when a run can't go ahead (over a limit, missing bank
+ * details, ...). The run is retried with backoff instead of crashing the tick.
+ */
+export class ScheduleRunError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleRunError';
+  }
+}
+
+/**
+ * Creates the transfer for one run and returns the stored transfer record.
+ * The record must include `schedule_run_id: runId`.
+ */
+export type ScheduleExecutor = (storage: Storage, schedule: StoredRecord, runId: string) => Promise<StoredRecord>;
+
+interface SchedulerConfig {
+  execute: ScheduleExecutor;
+  // The occurrence after `after` for this schedule, or null when its rule has none left
+  nextExecution: (schedule: StoredRecord, after: string) => string | null;
+  intervalMs?: number;
+  maxFailures?: number;
+  retryBaseDelayMs?: number;
+  // A claimed run older than this is assumed to belong to a crashed worker
+  runTimeoutMs?: number;
+}
+
+const DEFAULT_INTERVAL = 60 * 1000; // 1 minute
+const DEFAULT_MAX_FAILURES = 3;
+const DEFAULT_RETRY_BASE_DELAY = 5 * 60 * 1000; // 5 minutes, doubling per failure
+const DEFAULT_RUN_TIMEOUT = 10 * 60 * 1000; // 10 minutes
+
+export function scheduleRunId(scheduleId: string, scheduledFor: string): string {
+  return `${scheduleId}@${scheduledFor}`;
+}
+
+export interface ScheduleEvent {
+  action: 'created' | 'updated' | 'paused' | 'resumed' | 'skipped' | 'cancelled' | 'completed';
+  by: 'user' | 'scheduler';
+  // Field name -> old and new value, for updates
+  changes?: Record<string, { from: unknown; to: unknown }>;
+  note?: string;
+}
+
+/**
+ * Append an entry to a schedule's audit trail (saved with the schedule)
+ */
+export function recordScheduleEvent(schedule: StoredRecord, event: ScheduleEvent) {
+  schedule.history = [...(schedule.history || []), { at: new Date().toISOString(), ...event }];
+}
+
+/**
+ * Apply a change to the latest copy of a schedule, retrying if someone else saves it meanwhile.
+ * `change` may return an error message to abandon the update without saving.
+ */
+export async function updateSchedule(
+  storage: Storage,
+  scheduleId: string,
+  change: (schedule: StoredRecord) => string | void
+): Promise<{ schedule: StoredRecord | null; error?: string }> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const schedule = await storage.scheduledTransfers.get(scheduleId);
+    if (!schedule) return { schedule: null };
+
+    const error = change(schedule);
+    if (error) return { schedule, error };
+    if (await storage.scheduledTransfers.saveIfUnchanged(schedule)) return { schedule };
+  }
+  throw new Error(`Schedule ${scheduleId} kept changing while it was being updated`);
+}
+
+export class SchedulerService {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking: Promise<number> | null = null;
+  private intervalMs: number;
+  private maxFailures: number;
+  private retryBaseDelayMs: number;
+  private runTimeoutMs: number;
+
+  constructor(private storage: Storage, private config: SchedulerConfig) {
+    this.intervalMs = config.intervalMs ?? DEFAULT_INTERVAL;
+    this.maxFailures = config.maxFailures ?? DEFAULT_MAX_FAILURES;
+    this.retryBaseDelayMs = config.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY;
+    this.runTimeoutMs = config.runTimeoutMs ?? DEFAULT_RUN_TIMEOUT;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => { this.tick(); }, this.intervalMs);
+    this.tick();
+  }
+
+  async stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    // Let an in-flight tick finish writing its results
+    await this.ticking;
+  }
+
+  /**
+   * Execute every schedule that is due. Returns how many runs were attempted.
+   * Overlapping calls share the tick that is already in progress.
+   */
+  tick(now = Date.now()): Promise<number> {
+    if (!this.ticking) {
+      this.ticking = this.runDue(now)
+        .catch(error => {
+          console.error('❌ Scheduler tick failed:', error.message);
+          return 0;
+        })
+        .finally(() => { this.ticking = null; });
+    }
+    return this.ticking;
+  }
+
+  private async runDue(now: number): Promise<number> {
+    const due = (await this.storage.scheduledTransfers.list())
+      .filter(s => s.status === 'active' && s.owner_id)
+      .filter(s => new Date(s.retry_at || s.next_execution).getTime() <= now)
+      .sort((a, b) => new Date(a.next_execution).getTime() - new Date(b.next_execution).getTime());
+
+    let attempted = 0;
+    for (const schedule of due) {
+      try {
+        if (await this.runSchedule(this.storage.forOwner(schedule.owner_id!), schedule.id, now)) {
+          attempted++;
+        }
+      } catch (error: any) {
+        console.error(`❌ Scheduler failed on ${schedule.id}:`, error.message);
+      }
+    }
+    return attempted;
+  }
+
+  /**
+   * Claim, execute and record the schedule's current occurrence.
+   * Returns false when there was nothing to do (not due, or claimed elsewhere).
+   */
+  private async runSchedule(storage: Storage, scheduleId: string, now: number): Promise<boolean> {
+    const schedule = await storage.scheduledTransfers.get(scheduleId);
+    if (!schedule || schedule.status !== 'active') return false;
+    if (new Date(schedule.retry_at || schedule.next_execution).getTime() > now) return false;
+
+    const scheduledFor: string = schedule.next_execution;
+    const runId = scheduleRunId(schedule.id, scheduledFor);
+    const run = await this.claimRun(storage, schedule, runId, now);
+    if (!run) return false;
+
+    if (run.status === 'completed') {
+      // A previous worker sent it but stopped before updating the schedule
+      await this.recordSuccess(storage, scheduleId, run, now);
+      return false;
+    }
+    if (run.status === 'skipped') {
+      // skipNext() claimed it but stopped before moving the schedule on
+      await updateSchedule(storage, scheduleId, schedule => {
+        if (schedule.next_execution === run.scheduled_for) this.advance(schedule, now);
+      });
+      return false;
+    }
+
+    try {
+      const transfer = await this.config.execute(storage, schedule, runId);
+      run.status = 'completed';
+      run.transfer_id = transfer.id;
+      // What was actually sent (schedules with a fixed recipient amount send a different amount each time)
+      run.amount = transfer.amount;
+      run.completed_at = new Date().toISOString();
+      await storage.scheduleRuns.save(run);
+      console.log(`📅 Scheduled transfer ${schedule.id} ran: ${transfer.id}`);
+      await this.recordSuccess(storage, scheduleId, run, now);
+    } catch (error: any) {
+      const message = error instanceof ScheduleRunError ? error.message : `Unexpected error: ${error.message}`;
+      run.status = 'failed';
+      run.error = message;
+      run.failed_at = new Date().toISOString();
+      await storage.scheduleRuns.save(run);
+      console.error(`❌ Scheduled transfer ${schedule.id} failed (attempt ${run.attempts}): ${message}`);
+      await this.recordFailure(storage, scheduleId, message, now);
+    }
+    return true;
+  }
+
+  /**
+   * Take ownership of a run. Returns the run to execute (or to finish recording),
+   * or null when another worker holds it.
+   */
+  private async claimRun(storage: Storage, schedule: StoredRecord, runId: string, now: number): Promise<StoredRecord | null> {
+    const claimedAt = new Date(now).toISOString();
+    const fresh = {
+      id: runId,
+      created_at: claimedAt,
+      schedule_id: schedule.id,
+      scheduled_for: schedule.next_execution,
+      amount: schedule.amount,
+      status: 'running',
+      attempts: 1,
+      claimed_at: claimedAt,
+      transfer_id: null
+    };
+    if (await storage.scheduleRuns.insert(fresh)) {
+      return fresh;
+    }
+
+    const run = await storage.scheduleRuns.get(runId);
+    if (!run) return null;
+    if (run.status === 'completed' || run.status === 'skipped') return run;
+
+    if (run.status === 'running') {
+      if (now - new Date(run.claimed_at).getTime() < this.runTimeoutMs) {
+        return null;
+      }
+      // The worker that claimed it died. If it got as far as storing the transfer, just finish up
+      // (an attempt Wise rejected is stored too, but it sent nothing)
+      const sent = (await storage.transfers.listSince(run.created_at))
+        .find(t => t.schedule_run_id === runId && !t.failure_reason);
+      if (sent) {
+        run.status = 'completed';
+        run.transfer_id = sent.id;
+        run.amount = sent.amount;
+        run.completed_at = claimedAt;
+        run.recovered = true;
+        return (await storage.scheduleRuns.saveIfUnchanged(run)) ? run : null;
+      }
+    }
+
+    // Failed earlier (or crashed before sending): retry it
+    run.status = 'running';
+    run.attempts = (run.attempts || 1) + 1;
+    run.claimed_at = claimedAt;
+    return (await storage.scheduleRuns.saveIfUnchanged(run)) ? run : null;
+  }
+
+  /**
+   * The first occurrence after the schedule's current one that isn't in the past.
+   * After downtime or a pause this skips the missed occurrences rather than sending them all at once.
+   */
+  nextOccurrence(schedule: StoredRecord, now = Date.now()): { next: string | null; missed: number } {
+    let next = this.config.nextExecution(schedule, schedule.next_execution);
+    let missed = 0;
+    while (next && new Date(next).getTime() <= now) {
+      next = this.config.nextExecution(schedule, next);
+      missed++;
+    }
+    return { next, missed };
+  }
+
+  /**
+   * Move a schedule to its next occurrence, completing it once it passes its end date
+   * or maximum number of payments
+   */
+  private advance(schedule: StoredRecord, now: number, by: ScheduleEvent['by'] = 'scheduler') {
+    const { next, missed } = this.nextOccurrence(schedule, now);
+    if (missed > 0) {
+      schedule.missed_executions = (schedule.missed_executions || 0) + missed;
+    }
+
+    let finished: string | null = null;
+    if (schedule.max_occurrences && (schedule.execution_count || 0) >= schedule.max_occurrences) {
+      finished = `Sent all ${schedule.max_occurrences} payments`;
+    } else if (!next || (schedule.end_date && new Date(next).getTime() > new Date(schedule.end_date).getTime())) {
+      finished = 'Reached the end date';
+    }
+
+    if (finished) {
+      schedule.status = 'completed';
+      schedule.completed_at = new Date(now).toISOString();
+      recordScheduleEvent(schedule, { action: 'completed', by, note: finished });
+    } else {
+      schedule.next_execution = next;
+    }
+  }
+
+  /**
+   * Skip the schedule's next occurrence. The run is claimed as skipped first, so it
+   * can't be skipped while the scheduler is already sending it.
+   */
+  async skipNext(storage: Storage, scheduleId: string, now = Date.now()): Promise<{ schedule: StoredRecord | null; error?: string; skipped?: string }> {
+    const current = await storage.scheduledTransfers.get(scheduleId);
+    if (!current) return { schedule: null };
+    if (current.status !== 'active' && current.status !== 'paused') {
+      return { schedule: current, error: `Schedule ${scheduleId} is ${current.status}, so there is nothing to skip.` };
+    }
+
+    const skipped: string = current.next_execution;
+    const runId = scheduleRunId(scheduleId, skipped);
+    const claim = {
+      id: runId,
+      created_at: new Date(now).toISOString(),
+      schedule_id: scheduleId,
+      scheduled_for: skipped,
+      amount: current.amount,
+      status: 'skipped',
+      transfer_id: null
+    };
+    if (!(await storage.scheduleRuns.insert(claim))) {
+      const run = await storage.scheduleRuns.get(runId);
+      if (run && run.status !== 'failed' && run.status !== 'skipped') {
+        return { schedule: current, error: `The ${new Date(skipped).toLocaleDateString()} payment is already being sent and can't be skipped.` };
+      }
+      if (run && run.status === 'failed') {
+        run.status = 'skipped';
+        if (!(await storage.scheduleRuns.saveIfUnchanged(run))) {
+          return { schedule: current, error: `The ${new Date(skipped).toLocaleDateString()} payment is already being sent and can't be skipped.` };
+        }
+      }
+    }
+
+    const result = await updateSchedule(storage, scheduleId, schedule => {
+      if (schedule.next_execution !== skipped) return;
+      recordScheduleEvent(schedule, {
+        action: 'skipped',
+        by: 'user',
+        changes: { next_execution: { from: skipped, to: this.nextOccurrence(schedule, now).next } }
+      });
+      this.advance(schedule, now, 'user');
+      schedule.skipped_executions = (schedule.skipped_executions || 0) + 1;
+      schedule.failure_count = 0;
+      delete schedule.retry_at;
+    });
+    return { ...result, skipped };
+  }
+
+  private async recordSuccess(storage: Storage, scheduleId: string, run: StoredRecord, now: number) {
+    await updateSchedule(storage, scheduleId, schedule => {
+      // Only count each run once, even if this is called again after a crash
+      if (schedule.last_run_id !== run.id) {
+        schedule.last_run_id = run.id;
+        schedule.execution_count = (schedule.execution_count || 0) + 1;
+        schedule.total_sent = (schedule.total_sent || 0) + run.amount;
+        schedule.last_transfer_id = run.transfer_id;
+        schedule.last_run_at = run.completed_at;
+        schedule.failure_count = 0;
+        schedule.last_error = null;
+        delete schedule.retry_at;
+      }
+
+      // Unless the user moved the date while it was sending, go on to the next occurrence
+      if (schedule.next_execution === run.scheduled_for) {
+        this.advance(schedule, now);
+      }
+    });
+  }
+
+  private async recordFailure(storage: Storage, scheduleId: string, message: string, now: number) {
+    await updateSchedule(storage, scheduleId, schedule => {
+      schedule.failure_count = (schedule.failure_count || 0) + 1;
+      schedule.last_error = message;
+      schedule.last_failed_at = new Date(now).toISOString();
+
+      // A schedule the user paused or cancelled meanwhile keeps that status
+      if (schedule.status !== 'active') {
+        delete schedule.retry_at;
+      } else if (schedule.failure_count >= this.maxFailures) {
+        schedule.status = 'paused';
+        schedule.paused_at = schedule.last_failed_at;
+        schedule.paused_reason = `Paused after ${schedule.failure_count} failed attempts: ${message}`;
+        delete schedule.retry_at;
+        recordScheduleEvent(schedule, { action: 'paused', by: 'scheduler', note: schedule.paused_reason });
+        console.warn(`⏸️  Scheduled transfer ${schedule.id} paused after ${schedule.failure_count} failures`);
+      } else {
+        const delay = this.retryBaseDelayMs * 2 ** (schedule.failure_count - 1);
+        schedule.retry_at = new Date(now + delay).toISOString();
+      }
+    });
+  }
+}
+
+// Export singleton instance (will be initialized in server.ts)
+let scheduler: SchedulerService | null = null;
+
+export function initializeScheduler(storage: Storage, config: SchedulerConfig) {
+  scheduler = new SchedulerService(storage, config);
+  return scheduler;
+}
+
+export function getScheduler(): SchedulerService {
+  if (!scheduler) {
+    throw new Error('Scheduler not initialized. Call initializeScheduler first.');
+  }
+  return scheduler;
+}
@@ -0,0 +1,327 @@
+import { MIGRATIONS } from './migrations.js';
+
+/**
+ * Persistent storage for transfers, recipients, scheduled transfers and their runs,
+ * the Wise webhook deliveries that update transfers, exchange rate history, rate alerts
+ * and limit orders.
+ *
+ * Records are plain JSON objects (the same shape the tools return), kept in
+ * SQLite by default or in Postgres when DATABASE_URL points at one.
+ */
+
+export interface StoredRecord {
+  id: string;
+  created_at: string;
+  owner_id?: string;
+  [key: string]: any;
+}
+
+export interface SqlDriver {
+  readonly dialect: 'sqlite' | 'postgres';
+  query<T = any>(sql: string, params?: unknown[]): Promise<T[]>;
+  run(sql: string, params?: unknown[]): Promise<number>;
+  exec(sql: string): Promise<void>;
+  transaction<T>(fn: (tx: SqlDriver) => Promise<T>): Promise<T>;
+  close(): Promise<void>;
+}
+
+interface StorageConfig {
+  databaseUrl?: string;
+  sqlitePath?: string;
+}
+
+// Starting values for the human-readable IDs (TXN-1000, RCP-1, SCH-1, QTE-1)
+const SEQUENCE_START = {
+  transfer: 1000,
+  recipient: 1,
+  schedule: 1,
+  quote: 1,
+  payout_account: 1,
+  rate_alert: 1,
+  limit_order: 1
+};
+
+export type SequenceName = keyof typeof SEQUENCE_START;
+
+/**
+ * Repository for one table of JSON records.
+ *
+ * When created with an owner ID every read, write and delete is restricted to
+ * that owner's rows; without one it sees the whole table (background jobs only).
+ */
+export class RecordRepository<T extends StoredRecord = StoredRecord> {
+  // The exact stored JSON each loaded record came from, for saveIfUnchanged()
+  private loaded = new WeakMap<object, string>();
+
+  constructor(private driver: SqlDriver, private table: string, private ownerId?: string) {}
+
+  private parse(data: string): T {
+    const record = JSON.parse(data);
+    this.loaded.set(record, data);
+    return record;
+  }
+
+  private scope(): { clause: string; params: unknown[] } {
+    return this.ownerId
+      ? { clause: ' AND owner_id = ?', params: [this.ownerId] }
+      : { clause: '', params: [] };
+  }
+
+  async get(id: string): Promise<T | null> {
+    const scope = this.scope();
+    const rows = await this.driver.query<{ data: string }>(
+      `SELECT data FROM ${this.table} WHERE id = ?${scope.clause}`,
+      [id, ...scope.params]
+    );
+    return rows.length > 0 ? this.parse(rows[0].data) : null;
+  }
+
+  async list(): Promise<T[]> {
+    const scope = this.scope();
+    const rows = await this.driver.query<{ data: string }>(
+      `SELECT data FROM ${this.table} WHERE 1 = 1${scope.clause} ORDER BY created_at DESC`,
+      scope.params
+    );
+    return rows.map(row => this.parse(row.data));
+  }
+
+  /**
+   * Records created at or after an ISO timestamp, newest first
+   */
+  async listSince(since: string): Promise<T[]> {
+    const scope = this.scope();
+    const rows = await this.driver.query<{ data: string }>(
+      `SELECT data FROM ${this.table} WHERE created_at >= ?${scope.clause} ORDER BY created_at DESC`,
+      [since, ...scope.params]
+    );
+    return rows.map(row => this.parse(row.data));
+  }
+
+  async save(record: T): Promise<T> {
+    if (this.ownerId) {
+      record.owner_id = this.ownerId;
+    }
+
+    // The conflict guard stops one owner from overwriting another owner's row
+    const data = JSON.stringify(record);
+    const changes = await this.driver.run(
+      `INSERT INTO ${this.table} (id, created_at, owner_id, data) VALUES (?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET data = excluded.data
+       WHERE ${this.table}.owner_id IS NOT DISTINCT FROM excluded.owner_id`,
+      [record.id, record.created_at, record.owner_id ?? null, data]
+    );
+    if (changes === 0) {
+      throw new Error(`Cannot save ${this.table} record ${record.id}: it belongs to another owner`);
+    }
+    this.loaded.set(record, data);
+    return record;
+  }
+
+  /**
+   * Save a record only if nobody changed it since it was loaded (optimistic locking).
+   * Returns false when another writer got there first; reload and retry in that case.
+   */
+  async saveIfUnchanged(record: T): Promise<boolean> {
+    const previous = this.loaded.get(record);
+    if (previous === undefined) {
+      throw new Error(`saveIfUnchanged needs a record loaded from ${this.table}`);
+    }
+
+    const scope = this.scope();
+    const data = JSON.stringify(record);
+    const changes = await this.driver.run(
+      `UPDATE ${this.table} SET data = ? WHERE id = ? AND data = ?${scope.clause}`,
+      [data, record.id, previous, ...scope.params]
+    );
+    if (changes > 0) {
+      this.loaded.set(record, data);
+    }
+    return changes > 0;
+  }
+
+  /**
+   * Insert a record only if its ID is unused; returns false when it already exists
+   */
+  async insert(record: T): Promise<boolean> {
+    if (this.ownerId) {
+      record.owner_id = this.ownerId;
+    }
+
+    const data = JSON.stringify(record);
+    const changes = await this.driver.run(
+      `INSERT INTO ${this.table} (id, created_at, owner_id, data) VALUES (?, ?, ?, ?)
+       ON CONFLICT (id) DO NOTHING`,
+      [record.id, record.created_at, record.owner_id ?? null, data]
+    );
+    if (changes > 0) {
+      this.loaded.set(record, data);
+    }
+    return changes > 0;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const scope = this.scope();
+    const changes = await this.driver.run(
+      `DELETE FROM ${this.table} WHERE id = ?${scope.clause}`,
+      [id, ...scope.params]
+    );
+    return changes > 0;
+  }
+
+  /**
+   * Delete records created before `before`, returning how many went
+   */
+  async deleteBefore(before: string): Promise<number> {
+    const scope = this.scope();
+    return this.driver.run(
+      `DELETE FROM ${this.table} WHERE created_at < ?${scope.clause}`,
+      [before, ...scope.params]
+    );
+  }
+
+  async count(): Promise<number> {
+    const scope = this.scope();
+    const rows = await this.driver.query<{ total: number | string }>(
+      `SELECT COUNT(*) AS total FROM ${this.table} WHERE 1 = 1${scope.clause}`,
+      scope.params
+    );
+    return Number(rows[0]?.total ?? 0);
+  }
+}
+
+export class Storage {
+  readonly transfers: RecordRepository;
+  readonly recipients: RecordRepository;
+  readonly scheduledTransfers: RecordRepository;
+  readonly idempotencyKeys: RecordRepository;
+  readonly quotes: RecordRepository;
+  readonly scheduleRuns: RecordRepository;
+  // Wise transfer ID -> our transfer, for webhooks (which don't know the owner)
+  readonly wiseTransfers: RecordRepository;
+  // Webhook deliveries already processed (never owner-scoped)
+  readonly webhookEvents: RecordRepository;
+  // OAuth clients registered with the built-in authorization server (never owner-scoped)
+  readonly oauthClients: RecordRepository;
+  // Refresh tokens from the built-in authorization server not yet used, by jti (never owner-scoped)
+  readonly oauthRefreshTokens: RecordRepository;
+  // Exchange rates as fetched over time, for rate history (never owner-scoped)
+  readonly exchangeRates: RecordRepository;
+  readonly rateAlerts: RecordRepository;
+  readonly limitOrders: RecordRepository;
+
+  constructor(private driver: SqlDriver, readonly ownerId?: string) {
+    this.transfers = new RecordRepository(driver, 'transfers', ownerId);
+    this.recipients = new RecordRepository(driver, 'recipients', ownerId);
+    this.scheduledTransfers = new RecordRepository(driver, 'scheduled_transfers', ownerId);
+    this.idempotencyKeys = new RecordRepository(driver, 'idempotency_keys', ownerId);
+    this.quotes = new RecordRepository(driver, 'transfer_quotes', ownerId);
+    this.scheduleRuns = new RecordRepository(driver, 'schedule_runs', ownerId);
+    this.wiseTransfers = new RecordRepository(driver, 'wise_transfers', ownerId);
+    this.webhookEvents = new RecordRepository(driver, 'wise_webhook_events');
+    this.oauthClients = new RecordRepository(driver, 'oauth_clients');
+    this.oauthRefreshTokens = new RecordRepository(driver, 'oauth_refresh_tokens');
+    this.exchangeRates = new RecordRepository(driver, 'exchange_rates');
+    this.rateAlerts = new RecordRepository(driver, 'rate_alerts', ownerId);
+    this.limitOrders = new RecordRepository(driver, 'limit_orders', ownerId);
+  }
+
+  get dialect() {
+    return this.driver.dialect;
+  }
+
+  /**
+   * A view of the store that only sees and changes one owner's records
+   */
+  forOwner(ownerId: string): Storage {
+    if (!ownerId) {
+      throw new Error('An owner ID is required for scoped storage');
+    }
+    return new Storage(this.driver, ownerId);
+  }
+
+  /**
+   * Apply any migrations that haven't run against this database yet
+   */
+  async migrate(): Promise<number[]> {
+    await this.driver.exec(`CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )`);
+
+    const rows = await this.driver.query<{ version: number }>('SELECT version FROM schema_migrations');
+    const applied = new Set(rows.map(row => Number(row.version)));
+    const newlyApplied: number[] = [];
+
+    for (const migration of MIGRATIONS) {
+      if (applied.has(migration.version)) continue;
+
+      await this.driver.transaction(async (tx) => {
+        for (const statement of migration.statements) {
+          await tx.exec(statement);
+        }
+        await migration.run?.(tx);
+        await tx.run(
+          'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+          [migration.version, migration.name, new Date().toISOString()]
+        );
+      });
+
+      console.log(`   Applied migration ${migration.version}: ${migration.name}`);
+      newlyApplied.push(migration.version);
+    }
+
+    return newlyApplied;
+  }
+
+  /**
+   * Atomically take the next value of a sequence (survives restarts)
+   */
+  async nextId(sequence: SequenceName): Promise<number> {
+    const rows = await this.driver.query<{ value: number }>(
+      `INSERT INTO counters (name, value) VALUES (?, ?)
+       ON CONFLICT (name) DO UPDATE SET value = counters.value + 1
+       RETURNING value`,
+      [sequence, SEQUENCE_START[sequence]]
+    );
+    return Number(rows[0].value);
+  }
+
+  async close(): Promise<void> {
+    await this.driver.close();
+  }
+}
+
+/**
+ * Open the configured database and bring its schema up to date
+ */
+export async function createStorage(config: StorageConfig): Promise<Storage> {
+  let driver: SqlDriver;
+
+  if (config.databaseUrl && /^postgres(ql)?:\/\//.test(config.databaseUrl)) {
+    const { PostgresDriver } = await import('./postgres-driver.js');
+    driver = PostgresDriver.connect(config.databaseUrl);
+  } else {
+    const { SqliteDriver } = await import('./sqlite-driver.js');
+    driver = new SqliteDriver(config.sqlitePath || 'data/mybambu.db');
+  }
+
+  const storage = new Storage(driver);
+  await storage.migrate();
+  return storage;
+}
+
+// Export singleton instance (will be initialized in server.ts)
+let storage: Storage | null = null;
+
+export async function initializeStorage(config: StorageConfig) {
+  storage = await createStorage(config);
+  return storage;
+}
+
+export function getStorage(): Storage {
+  if (!storage) {
+    throw new Error('Storage not initialized. Call initializeStorage first.');
+  }
+  return storage;
+}
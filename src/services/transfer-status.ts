@@ -0,0 +1,167 @@
+import type { Storage, StoredRecord } from './storage.js';
+
+/**
+ * Transfer status tracking.
+ *
+ * Wise reports a transfer's progress in its own states; we map them onto our
+ * smaller status model and keep every transition we observe, with when it
+ * happened, in the transfer's `status_history`.
+ */
+
+export type TransferStatus = 'pending' | 'processing' | 'completed' | 'cancelled' | 'failed' | 'refunded';
+
+export interface StatusEvent {
+  status: TransferStatus;
+  // The Wise state behind this status (real transfers only)
+  wise_state?: string;
+  at: string;
+  source: 'wise' | 'simulation';
+}
+
+// Wise transfer states: https://docs.wise.com/api-docs/guides/send-money/tracking
+const WISE_STATES: Record<string, { status: TransferStatus; label: string }> = {
+  incoming_payment_waiting: { status: 'pending', label: 'Waiting for funds' },
+  incoming_payment_initiated: { status: 'pending', label: 'Funds on their way to Wise' },
+  waiting_recipient_input_to_proceed: { status: 'pending', label: 'Waiting for recipient details' },
+  processing: { status: 'processing', label: 'Wise is processing the transfer' },
+  funds_converted: { status: 'processing', label: 'Money converted' },
+  outgoing_payment_sent: { status: 'completed', label: 'Sent to the recipient\'s bank' },
+  bounced_back: { status: 'failed', label: 'Bounced back by the recipient\'s bank' },
+  cancelled: { status: 'cancelled', label: 'Cancelled' },
+  funds_refunded: { status: 'refunded', label: 'Refunded' },
+  charged_back: { status: 'refunded', label: 'Charged back' }
+};
+
+// Statuses a transfer never leaves (a sent payment can still bounce back, so 'completed' isn't one)
+export const FINAL_STATUSES: TransferStatus[] = ['cancelled', 'refunded'];
+
+export interface RefundInfo {
+  required: boolean;
+  amount: number;
+  currency: string;
+  method: string;
+  eta: string | null;
+}
+
+/**
+ * Whether a transfer can still be cancelled. Once it is processing (Wise has
+ * started converting or paying out) the money can't be recalled.
+ */
+export function canCancelTransfer(transfer: StoredRecord): boolean {
+  return transfer.status === 'pending';
+}
+
+/**
+ * What happens to the money when a transfer in its current state is cancelled
+ */
+export function refundForCancellation(transfer: StoredRecord): RefundInfo {
+  const currency = transfer.from_currency || 'USD';
+
+  if (!transfer.is_real_transfer) {
+    return { required: true, amount: transfer.amount, currency, method: 'Returned to your MyBambu balance (simulated)', eta: 'immediately' };
+  }
+  if (transfer.wise_state === 'incoming_payment_waiting') {
+    return { required: false, amount: 0, currency, method: 'Nothing was charged - Wise had not received the funds yet', eta: null };
+  }
+  return {
+    required: true,
+    amount: transfer.amount,
+    currency,
+    method: 'Wise returns the funds to the balance or account the transfer was paid from',
+    eta: 'usually within 1-3 business days'
+  };
+}
+
+/**
+ * Our status for a Wise transfer state (unknown states count as still processing)
+ */
+export function mapWiseState(state: string): TransferStatus {
+  return WISE_STATES[state]?.status ?? 'processing';
+}
+
+export function describeWiseState(state: string): string {
+  return WISE_STATES[state]?.label ?? state.replace(/_/g, ' ');
+}
+
+/**
+ * The recorded timeline of a transfer. Transfers stored before history was
+ * kept only know their current status, as of when they were created.
+ */
+export function statusHistory(transfer: StoredRecord): StatusEvent[] {
+  if (Array.isArray(transfer.status_history)) {
+    return transfer.status_history;
+  }
+  return [{
+    status: transfer.status,
+    ...(transfer.wise_state ? { wise_state: transfer.wise_state } : {}),
+    at: transfer.created_at,
+    source: transfer.is_real_transfer ? 'wise' : 'simulation'
+  }];
+}
+
+/**
+ * Add an observed status to a transfer's history.
+ *
+ * Events are kept in time order, so one that arrives late slots in where it
+ * happened and the transfer's status stays that of the latest event - unless
+ * a final status (cancelled, refunded) was recorded, which later events only
+ * add to the history of. A state
+ * that was already recorded is only moved earlier (a webhook knows when it
+ * happened, a status check only when it was noticed). `fields` are set on
+ * the transfer along with the event. Returns false when nothing changed.
+ */
+export function recordStatusEvent(transfer: StoredRecord, event: StatusEvent, fields?: Record<string, unknown>): boolean {
+  const key = (e: StatusEvent) => e.wise_state ?? e.status;
+  const time = new Date(event.at).getTime();
+  let history = statusHistory(transfer);
+
+  const existing = history.find(e => key(e) === key(event));
+  if (existing) {
+    if (new Date(existing.at).getTime() <= time) {
+      return false;
+    }
+    history = history.filter(e => e !== existing);
+  }
+
+  const index = history.findIndex(e => new Date(e.at).getTime() > time);
+  const updated = index === -1
+    ? [...history, event]
+    : [...history.slice(0, index), event, ...history.slice(index)];
+
+  const final = [...updated].reverse().find(e => FINAL_STATUSES.includes(e.status));
+  const latest = final ?? updated[updated.length - 1];
+  transfer.status_history = updated;
+  transfer.status = latest.status;
+  if (latest.wise_state) {
+    transfer.wise_state = latest.wise_state;
+  }
+  transfer.status_updated_at = latest.at;
+  Object.assign(transfer, fields);
+  return true;
+}
+
+/**
+ * Record a status event on a stored transfer (and any `fields` that go with
+ * it), retrying if another writer saved it at the same time.
+ * Returns the transfer as saved, or null when it doesn't exist.
+ */
+export async function updateTransferStatus(
+  storage: Storage,
+  transferId: string,
+  event: StatusEvent,
+  fields?: Record<string, unknown>
+): Promise<{ transfer: StoredRecord | null; changed: boolean }> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const transfer = await storage.transfers.get(transferId);
+    if (!transfer) {
+      return { transfer: null, changed: false };
+    }
+    if (!recordStatusEvent(transfer, event, fields)) {
+      return { transfer, changed: false };
+    }
+    if (await storage.transfers.saveIfUnchanged(transfer)) {
+      return { transfer, changed: true };
+    }
+  }
+  throw new Error(`Transfer ${transferId} kept changing while its status was being updated`);
+}
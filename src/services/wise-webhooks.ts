@@ -0,0 +1,212 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, createPublicKey, verify, type KeyObject } from 'node:crypto';
+import { getStorage } from './storage.js';
+import { mapWiseState, updateTransferStatus } from './transfer-status.js';
+
+/**
+ * Receiver for Wise webhooks (POST /webhooks/wise).
+ *
+ * Wise signs every delivery with its private key; we verify the
+ * X-Signature-SHA256 header against the configured public key before trusting
+ * anything in the body. Wise retries until it gets a 2xx, and deliveries can
+ * arrive twice or out of order, so each one is recorded by its delivery ID and
+ * state changes are placed on the transfer's timeline by when they happened.
+ * Events for Wise transfers we have no record of (made outside this app) are
+ * acknowledged once they are a few minutes old, and kept as unmatched.
+ *
+ * https://docs.wise.com/api-docs/features/webhooks-notifications
+ */
+
+interface WiseWebhookConfig {
+  // PEM public key Wise signs deliveries with (differs between sandbox and production)
+  publicKey: string;
+}
+
+export class WiseWebhookError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+export const WISE_WEBHOOK_PATH = '/webhooks/wise';
+
+// Wise payloads are small; anything bigger isn't from Wise
+const MAX_BODY_BYTES = 64 * 1024;
+// How long an event for a transfer we don't know is retried before it's taken to belong
+// to a transfer made outside this app
+const UNKNOWN_TRANSFER_GRACE = 10 * 60 * 1000; // 10 minutes
+
+async function readRawBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new WiseWebhookError('Request body too large', 413);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Check a delivery's X-Signature-SHA256 header (base64 RSA-SHA256 of the raw body)
+ */
+export function verifyWiseSignature(body: Buffer, signature: string | undefined, publicKey: KeyObject): boolean {
+  if (!signature) return false;
+  try {
+    return verify('sha256', body, publicKey, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
+
+export class WiseWebhookService {
+  private publicKey: KeyObject;
+
+  constructor(config: WiseWebhookConfig) {
+    // Keys pasted into an env var often have their newlines escaped
+    this.publicKey = createPublicKey(config.publicKey.replace(/\\n/g, '\n'));
+  }
+
+  /**
+   * Verify, deduplicate and apply one webhook delivery
+   */
+  async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const body = await readRawBody(req);
+      const signature = req.headers['x-signature-sha256'];
+      if (!verifyWiseSignature(body, Array.isArray(signature) ? signature[0] : signature, this.publicKey)) {
+        throw new WiseWebhookError('Invalid signature', 401);
+      }
+
+      // Sent when a subscription is created or tested from the Wise dashboard
+      if (req.headers['x-test-notification'] === 'true') {
+        sendJson(res, 200, { received: true, test: true });
+        return;
+      }
+
+      let event: any;
+      try {
+        event = JSON.parse(body.toString('utf8'));
+      } catch {
+        throw new WiseWebhookError('Body is not valid JSON');
+      }
+
+      const deliveryHeader = req.headers['x-delivery-id'];
+      const deliveryId = (Array.isArray(deliveryHeader) ? deliveryHeader[0] : deliveryHeader)
+        || createHash('sha256').update(body).digest('hex');
+
+      const storage = getStorage();
+      if (await storage.webhookEvents.get(deliveryId)) {
+        sendJson(res, 200, { received: true, duplicate: true });
+        return;
+      }
+
+      const result = await this.apply(event);
+
+      // Recorded only once applied, so a delivery that failed is processed again when Wise retries
+      await storage.webhookEvents.insert({
+        id: deliveryId,
+        created_at: new Date().toISOString(),
+        event_type: event.event_type,
+        occurred_at: event.data?.occurred_at,
+        payload: event,
+        result
+      });
+
+      sendJson(res, 200, { received: true, ...result });
+    } catch (error: any) {
+      const status = error instanceof WiseWebhookError ? error.status : 500;
+      if (status === 500) {
+        console.error('❌ Wise webhook failed:', error);
+      } else {
+        console.error(`⚠️  Wise webhook rejected (${status}): ${error.message}`);
+      }
+      // Wise retries anything but a 2xx, which is what we want for a failure on our side
+      sendJson(res, status, { error: status === 500 ? 'Internal error' : error.message });
+    }
+  }
+
+  private async apply(event: any): Promise<Record<string, unknown>> {
+    switch (event.event_type) {
+      case 'transfers#state-change':
+        return this.applyTransferStateChange(event.data);
+      case 'balances#credit':
+        return this.applyBalanceCredit(event.data);
+      default:
+        // Subscriptions we didn't ask for; acknowledge so Wise stops sending them
+        return { ignored: `Unsupported event type: ${event.event_type}` };
+    }
+  }
+
+  private async applyTransferStateChange(data: any): Promise<Record<string, unknown>> {
+    const wiseTransferId = data?.resource?.id;
+    const state = data?.current_state;
+    if (!wiseTransferId || typeof state !== 'string') {
+      throw new WiseWebhookError('transfers#state-change needs data.resource.id and data.current_state');
+    }
+
+    const occurredAt = data.occurred_at && !isNaN(Date.parse(data.occurred_at))
+      ? new Date(data.occurred_at).toISOString()
+      : new Date().toISOString();
+
+    const link = await this.findTransfer(String(wiseTransferId));
+    if (!link) {
+      if (Date.now() - new Date(occurredAt).getTime() < UNKNOWN_TRANSFER_GRACE) {
+        // Probably a transfer we haven't finished saving yet; a 404 makes Wise retry later
+        throw new WiseWebhookError(`No transfer for Wise transfer ${wiseTransferId}`, 404);
+      }
+      // Made outside this app (or long gone) - acknowledged so Wise stops redelivering it
+      console.log(`📬 Wise webhook: no transfer for Wise transfer ${wiseTransferId}, ignoring ${state}`);
+      return { matched: false, wise_transfer_id: wiseTransferId, wise_state: state };
+    }
+
+    const { transfer, changed } = await updateTransferStatus(getStorage().forOwner(link.owner_id), link.transfer_id, {
+      status: mapWiseState(state),
+      wise_state: state,
+      at: occurredAt,
+      source: 'wise'
+    });
+
+    if (changed) {
+      console.log(`📬 Wise webhook: ${link.transfer_id} ${state} at ${occurredAt} (status now ${transfer?.status})`);
+    }
+    return { transfer_id: link.transfer_id, status: transfer?.status, changed };
+  }
+
+  private async applyBalanceCredit(data: any): Promise<Record<string, unknown>> {
+    // Credits aren't tied to one of our transfers (top-ups, refunds of bounced payments);
+    // the delivery record keeps the details for reconciliation
+    const amount = data?.amount;
+    const currency = data?.currency;
+    console.log(`📬 Wise webhook: balance ${data?.resource?.id} credited ${amount} ${currency}`);
+    return { balance_id: data?.resource?.id, amount, currency };
+  }
+
+  /**
+   * Our transfer (and its owner) for a Wise transfer ID
+   */
+  private async findTransfer(wiseTransferId: string): Promise<{ transfer_id: string; owner_id: string } | null> {
+    const link = await getStorage().wiseTransfers.get(wiseTransferId);
+    return link?.owner_id ? { transfer_id: link.transfer_id, owner_id: link.owner_id } : null;
+  }
+}
+
+// Export singleton instance (will be initialized in server.ts)
+let wiseWebhookService: WiseWebhookService | null = null;
+
+export function initializeWiseWebhookService(config: WiseWebhookConfig) {
+  wiseWebhookService = new WiseWebhookService(config);
+  return wiseWebhookService;
+}
+
+// Null when no Wise public key is configured (webhooks are then refused)
+export function getWiseWebhookService(): WiseWebhookService | null {
+  return wiseWebhookService;
+}
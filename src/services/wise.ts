@@ -1,27 +1,71 @@
 import axios, { AxiosInstance } from 'axios';
-import { randomUUID } from 'crypto';
+import { createHash, randomUUID } from 'crypto';
 
 interface WiseConfig {
   apiKey: string;
   profileId: string;
   apiUrl: string;
+  // Refuse to fill missing recipient details with sandbox test values
+  strict?: boolean;
 }
 
+// Give either the amount sent or the amount the recipient should get; Wise works out the other
 interface QuoteRequest {
   sourceCurrency: string;
   targetCurrency: string;
-  sourceAmount: number;
+  sourceAmount?: number;
+  targetAmount?: number;
 }
 
 interface RecipientRequest {
   currency: string;
   type: string;
   accountHolderName: string;
-  details: {
-    legalType: string;
-    accountNumber: string;
-    bankCode?: string;
+  details: Record<string, any>;
+}
+
+// Which Wise recipient account a transfer was paid to, and how we got it
+export interface WiseRecipientAccount {
+  id: number;
+  source: 'known' | 'matched' | 'created';
+}
+
+/**
+ * Stable fingerprint of a recipient's bank details, to recognise an account
+ * Wise already has. Only `keys` of the details are compared (Wise adds fields
+ * of its own, like the BIC for an IBAN); empty values and case are ignored.
+ */
+export function recipientFingerprint(
+  currency: string,
+  type: string,
+  accountHolderName: string,
+  details: Record<string, any>,
+  keys: string[] = Object.keys(details)
+): string {
+  const canonical = (value: any): any => {
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.keys(value).sort()
+        .map(key => [key, canonical(value[key])])
+        .filter(([, v]) => v !== undefined));
+    }
+    if (value === null || value === undefined || value === '') {
+      return undefined;
+    }
+    return String(value).replace(/\s/g, '').toUpperCase();
   };
+  const picked = Object.fromEntries(keys.map(key => [key, details[key]]));
+  const body = JSON.stringify([currency.toUpperCase(), type, accountHolderName.trim().toLowerCase(), canonical(picked)]);
+  return createHash('sha256').update(body).digest('hex');
+}
+
+export interface WiseQuoteSummary {
+  id: string;
+  rate: number;
+  sourceAmount: number;
+  targetAmount: number;
+  fee: number;
+  estimatedDelivery?: string;
+  expiresAt?: string;
 }
 
 interface TransferRequest {
@@ -43,9 +87,11 @@ interface TransferRequest {
 export class WiseService {
   private client: AxiosInstance;
   private profileId: string;
+  private strict: boolean;
 
   constructor(config: WiseConfig) {
     this.profileId = config.profileId;
+    this.strict = config.strict ?? false;
     this.client = axios.create({
       baseURL: config.apiUrl,
       headers: {
@@ -63,8 +109,8 @@ export class WiseService {
       const response = await this.client.post('/v2/quotes', {
         sourceCurrency: request.sourceCurrency,
         targetCurrency: request.targetCurrency,
-        sourceAmount: request.sourceAmount,
-        targetAmount: null,
+        sourceAmount: request.sourceAmount ?? null,
+        targetAmount: request.targetAmount ?? null,
         profile: this.profileId
       });
       return response.data;
@@ -74,6 +120,130 @@ export class WiseService {
     }
   }
 
+  /**
+   * Pull the price out of a v2 quote (fee and target amount live on the payment options)
+   */
+  summarizeQuote(quote: any): WiseQuoteSummary {
+    const options: any[] = quote.paymentOptions || [];
+    const option = options.find(o => o.payIn === 'BALANCE' && !o.disabled) || options.find(o => !o.disabled);
+
+    return {
+      id: quote.id,
+      rate: quote.rate,
+      sourceAmount: option?.sourceAmount ?? quote.sourceAmount,
+      targetAmount: option?.targetAmount ?? quote.targetAmount,
+      fee: option?.fee?.total ?? quote.fee ?? 0,
+      estimatedDelivery: option?.estimatedDelivery ?? quote.estimatedDelivery,
+      expiresAt: quote.expirationTime
+    };
+  }
+
+  /**
+   * Current mid-market rates from a currency to every currency Wise supports
+   */
+  async getRates(source: string, signal?: AbortSignal): Promise<{ source: string; target: string; rate: number; time: string }[]> {
+    try {
+      const response = await this.client.get('/v1/rates', { params: { source }, signal });
+      return response.data;
+    } catch (error: any) {
+      console.error('Wise Rates Error:', error.response?.data || error.message);
+      throw new Error(`Failed to get exchange rates: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  /**
+   * Get the recipient fields Wise needs to pay out a transfer. Passing the
+   * partly filled-in recipient (for fields marked refreshRequirementsOnChange)
+   * returns the requirements updated for those values.
+   */
+  async getAccountRequirements(
+    sourceCurrency: string,
+    targetCurrency: string,
+    sourceAmount: number,
+    recipient?: { type: string; details: Record<string, any> }
+  ): Promise<any[]> {
+    const params = { source: sourceCurrency, target: targetCurrency, sourceAmount };
+    // Minor version 1 returns the current requirement format (with refreshRequirementsOnChange)
+    const headers = { 'Accept-Minor-Version': '1' };
+
+    try {
+      const response = recipient
+        ? await this.client.post('/v1/account-requirements', recipient, { params, headers })
+        : await this.client.get('/v1/account-requirements', { params, headers });
+      return response.data;
+    } catch (error: any) {
+      console.error('Wise Account Requirements Error:', error.response?.data || error.message);
+      throw new Error(`Failed to get account requirements: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  /**
+   * Get one recipient account (null when Wise doesn't know it)
+   */
+  async getRecipientAccount(accountId: number) {
+    try {
+      const response = await this.client.get(`/v1/accounts/${accountId}`);
+      return response.data;
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        return null;
+      }
+      console.error('Wise Account Error:', error.response?.data || error.message);
+      throw new Error(`Failed to get recipient account: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  /**
+   * List the profile's recipient accounts in a currency
+   */
+  async listRecipientAccounts(currency: string): Promise<any[]> {
+    try {
+      const response = await this.client.get('/v1/accounts', {
+        params: { profile: this.profileId, currency }
+      });
+      return response.data;
+    } catch (error: any) {
+      console.error('Wise Accounts Error:', error.response?.data || error.message);
+      throw new Error(`Failed to list recipient accounts: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
+  /**
+   * The Wise account to pay a recipient: the one we already know if Wise
+   * still has it active, else an active account with the same bank details,
+   * else a new one. Wise deactivates accounts (e.g. when the user deletes them
+   * in the Wise app), so a known ID is checked before it is trusted.
+   */
+  async resolveRecipientAccount(request: RecipientRequest, knownAccountId?: number): Promise<WiseRecipientAccount> {
+    if (knownAccountId) {
+      const known = await this.getRecipientAccount(knownAccountId);
+      if (known && known.active !== false) {
+        return { id: known.id, source: 'known' };
+      }
+      console.log(`⚠️  Wise recipient account ${knownAccountId} is no longer active, looking for another`);
+    }
+
+    const keys = Object.keys(request.details);
+    const fingerprint = recipientFingerprint(request.currency, request.type, request.accountHolderName, request.details);
+    try {
+      const match = (await this.listRecipientAccounts(request.currency)).find(account =>
+        account.active !== false &&
+        account.type === request.type &&
+        recipientFingerprint(account.currency, account.type, account.accountHolderName || '', account.details || {}, keys) === fingerprint
+      );
+      if (match) {
+        console.log(`♻️  Reusing Wise recipient account ${match.id}`);
+        return { id: match.id, source: 'matched' };
+      }
+    } catch (error: any) {
+      // Not being able to look is no reason to fail the transfer; a duplicate is the lesser evil
+      console.error('⚠️  Could not check existing Wise recipients:', error.message);
+    }
+
+    const created = await this.createRecipient(request);
+    return { id: created.id, source: 'created' };
+  }
+
   /**
    * Create a recipient
    */
@@ -160,6 +330,19 @@ export class WiseService {
     }
   }
 
+  /**
+   * Cancel a transfer Wise hasn't started processing yet
+   */
+  async cancelTransfer(transferId: number) {
+    try {
+      const response = await this.client.put(`/v1/transfers/${transferId}/cancel`);
+      return response.data;
+    } catch (error: any) {
+      console.error('Wise Cancel Error:', error.response?.data || error.message);
+      throw new Error(`Failed to cancel transfer: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
   /**
    * Get all transfers
    */
@@ -175,11 +358,28 @@ export class WiseService {
     }
   }
 
+  /**
+   * A recipient detail, or the sandbox test value when it's missing. In strict
+   * mode a missing detail is an error instead - in production the test value
+   * would pay the wrong account, or fail at Wise with a less useful message.
+   */
+  private sandboxDefault(value: string | undefined, testValue: string, field: string, currency: string): string {
+    if (value) {
+      return value;
+    }
+    if (this.strict) {
+      throw new Error(`Missing ${field} for the ${currency} recipient`);
+    }
+    return testValue;
+  }
+
   /**
    * Simplified method to send money (combines all steps)
    */
   async sendMoney(params: {
     amount: number;
+    // Balance currency the transfer is funded from (default USD)
+    sourceCurrency?: string;
     recipientName: string;
     recipientCountry: string;
     recipientBankAccount: string;
@@ -192,15 +392,25 @@ export class WiseService {
     city?: string;
     postCode?: string;
     accountType?: string;
+    bankCode?: string;
+    customerTransactionId?: string;
+    quote?: WiseQuoteSummary;
+    // Recipient built from Wise's account requirements; replaces the per-currency defaults below
+    recipient?: { type: string; details: Record<string, any> };
+    // Wise account this recipient was paid to before
+    recipientAccountId?: number;
   }) {
     try {
-      // Step 1: Create quote
-      console.log('Creating quote...');
-      const quote = await this.createQuote({
-        sourceCurrency: 'USD',
-        targetCurrency: params.targetCurrency,
-        sourceAmount: params.amount
-      });
+      // Step 1: Create quote (unless the caller already holds a confirmed one)
+      let quote = params.quote;
+      if (!quote) {
+        console.log('Creating quote...');
+        quote = this.summarizeQuote(await this.createQuote({
+          sourceCurrency: params.sourceCurrency || 'USD',
+          targetCurrency: params.targetCurrency,
+          sourceAmount: params.amount
+        }));
+      }
 
       // Step 2: Create recipient
       console.log('Creating recipient...');
@@ -209,12 +419,15 @@ export class WiseService {
       let recipientType: string;
       let recipientDetails: any;
 
-      switch (params.targetCurrency) {
+      if (params.recipient) {
+        recipientType = params.recipient.type;
+        recipientDetails = params.recipient.details;
+      } else switch (params.targetCurrency) {
         case 'MXN': // Mexico
           recipientType = 'mexican';
           recipientDetails = {
             legalType: 'PRIVATE',
-            clabe: params.recipientBankAccount || '032180000118359719' // Wise sandbox test CLABE
+            clabe: this.sandboxDefault(params.recipientBankAccount, '032180000118359719', 'CLABE', 'MXN') // Wise sandbox test CLABE
           };
           break;
 
@@ -222,10 +435,10 @@ export class WiseService {
           recipientType = 'brazilian';
           recipientDetails = {
             legalType: 'PRIVATE',
-            cpf: params.recipientBankCode || '12345678901',
-            accountNumber: params.recipientBankAccount || '12345678',
-            accountType: 'checking',
-            bankCode: '001'
+            cpf: this.sandboxDefault(params.recipientBankCode, '12345678901', 'CPF', 'BRL'),
+            accountNumber: this.sandboxDefault(params.recipientBankAccount, '12345678', 'account number', 'BRL'),
+            accountType: this.sandboxDefault(params.accountType?.toLowerCase(), 'checking', 'account type', 'BRL'),
+            bankCode: this.sandboxDefault(params.bankCode, '001', 'bank code', 'BRL')
           };
           break;
 
@@ -233,8 +446,8 @@ export class WiseService {
           recipientType = 'sort_code';
           recipientDetails = {
             legalType: 'PRIVATE',
-            sortCode: params.recipientBankCode || '231470',
-            accountNumber: params.recipientBankAccount || '28821822'
+            sortCode: this.sandboxDefault(params.recipientBankCode, '231470', 'sort code', 'GBP'),
+            accountNumber: this.sandboxDefault(params.recipientBankAccount, '28821822', 'account number', 'GBP')
           };
           break;
 
@@ -242,7 +455,7 @@ export class WiseService {
           recipientType = 'iban';
           recipientDetails = {
             legalType: 'PRIVATE',
-            iban: params.recipientBankAccount || 'DE89370400440532013000'
+            iban: this.sandboxDefault(params.recipientBankAccount, 'DE89370400440532013000', 'IBAN', 'EUR')
           };
           break;
 
@@ -250,7 +463,7 @@ export class WiseService {
           recipientType = 'colombia';
           recipientDetails = {
             legalType: 'PRIVATE',
-            bankCode: 'COLOCOBM', // Only Bancolombia supported in sandbox
+            bankCode: this.sandboxDefault(params.bankCode, 'COLOCOBM', 'bank code', 'COP'), // Only Bancolombia supported in sandbox
             accountNumber: params.recipientBankAccount,
             accountType: params.accountType || 'SAVINGS',
             phoneNumber: params.phoneNumber,
@@ -266,6 +479,9 @@ export class WiseService {
           break;
 
         default:
+          if (this.strict) {
+            throw new Error(`No recipient details format for ${params.targetCurrency} - Wise account requirements are needed`);
+          }
           // Generic fallback - will likely fail for most currencies
           recipientType = 'sort_code';
           recipientDetails = {
@@ -275,25 +491,44 @@ export class WiseService {
           };
       }
 
-      const recipient = await this.createRecipient({
+      const recipientRequest: RecipientRequest = {
         currency: params.targetCurrency,
         type: recipientType,
         accountHolderName: params.recipientName,
         details: recipientDetails
-      });
+      };
+      let recipientAccount = await this.resolveRecipientAccount(recipientRequest, params.recipientAccountId);
 
       // Step 3: Create transfer
       console.log('Creating transfer...');
 
-      const transfer = await this.createTransfer({
-        targetAccount: recipient.id,
+      const transferRequest = {
         quoteUuid: quote.id,
-        customerTransactionId: randomUUID(), // Proper UUID v4
+        // Stable ID from the caller's idempotency key, or a fresh UUID v4
+        customerTransactionId: params.customerTransactionId || randomUUID(),
         details: {
           reference: params.reference || 'MyBambu Transfer',
           sourceOfFunds: 'verification.source.of.funds.other'
         }
-      });
+      };
+
+      let transfer;
+      try {
+        transfer = await this.createTransfer({ ...transferRequest, targetAccount: recipientAccount.id });
+      } catch (error: any) {
+        if (recipientAccount.source === 'created') {
+          throw error;
+        }
+        // An existing account can be deactivated between our check and the transfer; if that's
+        // what happened, pay a fresh one instead
+        const current = await this.getRecipientAccount(recipientAccount.id);
+        if (current && current.active !== false) {
+          throw error;
+        }
+        console.log(`⚠️  Wise recipient ${recipientAccount.id} was deactivated, retrying with a new recipient`);
+        recipientAccount = { id: (await this.createRecipient(recipientRequest)).id, source: 'created' };
+        transfer = await this.createTransfer({ ...transferRequest, targetAccount: recipientAccount.id });
+      }
 
       // Step 4: Fund transfer
       // Note: Personal API tokens cannot fund transfers due to PSD2 regulations.
@@ -302,15 +537,18 @@ export class WiseService {
       console.log('Transfer created successfully. Funding requires OAuth token or manual action.');
 
       // Try to fund, but don't fail if it returns 403
+      let fundingError: string | undefined;
       try {
         await this.fundTransfer(transfer.id);
         console.log('✅ Transfer funded successfully');
-      } catch (fundingError: any) {
-        if (fundingError.message.includes('403') || fundingError.message.includes('forbidden')) {
+      } catch (error: any) {
+        if (error.message.includes('403') || error.message.includes('forbidden')) {
           console.log('⚠️  Funding requires OAuth token (personal tokens cannot fund due to PSD2)');
         } else {
-          // Re-throw other errors
-          throw fundingError;
+          // The transfer exists at Wise either way, waiting for funds - the caller has to
+          // keep track of it rather than treat the send as failed
+          console.error(`⚠️  Wise transfer ${transfer.id} created but not funded:`, error.message);
+          fundingError = error.message;
         }
       }
 
@@ -323,7 +561,9 @@ export class WiseService {
         fee: quote.fee,
         estimatedDelivery: quote.estimatedDelivery,
         recipientName: params.recipientName,
-        recipientCountry: params.recipientCountry
+        recipientCountry: params.recipientCountry,
+        recipientAccountId: recipientAccount.id,
+        fundingError
       };
     } catch (error: any) {
       console.error('Send Money Error:', error.message);
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  bankFieldValidator,
+  cedulaValidator,
+  clabeValidator,
+  colombianPhoneValidator,
+  cpfValidator,
+  ibanValidator,
+  ifscValidator,
+  sortCodeValidator,
+  ukAccountNumberValidator
+} from '../src/services/bank-validators.js';
+
+test('CLABE checks length and control digit', () => {
+  assert.equal(clabeValidator.validate('032180000118359719'), null);
+  assert.equal(clabeValidator.validate('032 180 000118359719'), null);
+  assert.equal(clabeValidator.normalize('032 180-000118359719'), '032180000118359719');
+  assert.match(clabeValidator.validate('032180000118359718')!, /invalid control digit/);
+  assert.match(clabeValidator.validate('03218000011835971')!, /this one has 17/);
+  assert.match(clabeValidator.validate('03218000011835971X')!, /only digits/);
+});
+
+test('IBAN checks country length and mod-97 check digits', () => {
+  assert.equal(ibanValidator.validate('GB82 WEST 1234 5698 7654 32'), null);
+  assert.equal(ibanValidator.validate('de89370400440532013000'), null);
+  assert.equal(ibanValidator.normalize('de89 3704 0044 0532 0130 00'), 'DE89370400440532013000');
+  assert.notEqual(ibanValidator.validate('GB83 WEST 1234 5698 7654 32'), null);
+  assert.notEqual(ibanValidator.validate('DE89 3704 0044 0532 0130'), null);
+});
+
+test('CPF checks both check digits', () => {
+  assert.equal(cpfValidator.validate('123.456.789-09'), null);
+  assert.equal(cpfValidator.normalize('123.456.789-09'), '12345678909');
+  assert.match(cpfValidator.validate('123.456.789-00')!, /invalid check digits/);
+  assert.match(cpfValidator.validate('111.111.111-11')!, /isn't a valid CPF/);
+  assert.match(cpfValidator.validate('1234567890')!, /this one has 10/);
+});
+
+test('UK sort codes and account numbers', () => {
+  assert.equal(sortCodeValidator.validate('23-14-70'), null);
+  assert.equal(sortCodeValidator.normalize('23-14-70'), '231470');
+  assert.notEqual(sortCodeValidator.validate('23-14-7'), null);
+  assert.equal(ukAccountNumberValidator.validate('1234 5678'), null);
+  assert.match(ukAccountNumberValidator.validate('1234567')!, /this one has 7/);
+});
+
+test('Colombian cédula and mobile numbers', () => {
+  assert.equal(cedulaValidator.validate('1.023.456.789'), null);
+  assert.equal(cedulaValidator.normalize('1.023.456.789'), '1023456789');
+  assert.notEqual(cedulaValidator.validate('0123456'), null);
+  assert.notEqual(cedulaValidator.validate('12345'), null);
+
+  assert.equal(colombianPhoneValidator.validate('+57 310 123 4567'), null);
+  assert.equal(colombianPhoneValidator.normalize('+57 310 123 4567'), '+573101234567');
+  assert.equal(colombianPhoneValidator.normalize('310-123-4567'), '+573101234567');
+  assert.notEqual(colombianPhoneValidator.validate('210 123 4567'), null);
+});
+
+test('IFSC codes', () => {
+  assert.equal(ifscValidator.validate('hdfc0000123'), null);
+  assert.equal(ifscValidator.normalize('hdfc0000123'), 'HDFC0000123');
+  assert.notEqual(ifscValidator.validate('HDFC1000123'), null);
+});
+
+test('validators are picked by field, and by currency where the format depends on the country', () => {
+  assert.equal(bankFieldValidator('MXN', 'clabe'), clabeValidator);
+  assert.equal(bankFieldValidator('EUR', 'IBAN'), ibanValidator);
+  assert.equal(bankFieldValidator('GBP', 'accountNumber'), ukAccountNumberValidator);
+  assert.equal(bankFieldValidator('COP', 'phoneNumber'), colombianPhoneValidator);
+  assert.equal(bankFieldValidator('USD', 'accountNumber'), undefined);
+});
@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createStorage } from '../src/services/storage.js';
+import {
+  beginIdempotentRequest,
+  customerTransactionIdFor,
+  fingerprintRequest,
+  runIdempotentRequest
+} from '../src/services/idempotency.js';
+
+const args = { recipient_name: 'Ana', amount: 100, idempotency_key: 'key-1' };
+const fingerprint = fingerprintRequest('send_money', args);
+const sent = (id: string) => ({ structuredContent: { id } });
+const transferIdOf = (result: { structuredContent: { id: string } } | null) => result?.structuredContent.id ?? null;
+
+async function setup() {
+  const base = await createStorage({ sqlitePath: ':memory:' });
+  return { base, storage: base.forOwner('alice') };
+}
+
+test('fingerprints ignore argument order and the key itself', () => {
+  assert.equal(fingerprintRequest('send_money', { amount: 100, recipient_name: 'Ana', idempotency_key: 'other' }), fingerprint);
+  assert.notEqual(fingerprintRequest('send_money', { ...args, amount: 101 }), fingerprint);
+  assert.notEqual(fingerprintRequest('quick_send', args), fingerprint);
+});
+
+test('a completed request is replayed with its transfer', async () => {
+  const { base, storage } = await setup();
+  assert.deepEqual(await beginIdempotentRequest(storage, 'key-1', 'send_money', fingerprint), { status: 'new' });
+  await runIdempotentRequest(storage, 'key-1', async () => sent('TXN-1000'), transferIdOf);
+
+  assert.deepEqual(await beginIdempotentRequest(storage, 'key-1', 'send_money', fingerprint), { status: 'replay', transferId: 'TXN-1000' });
+  // Keys belong to their owner
+  assert.deepEqual(await beginIdempotentRequest(base.forOwner('bob'), 'key-1', 'send_money', fingerprint), { status: 'new' });
+  await base.close();
+});
+
+test('a key reused for a different request is a conflict', async () => {
+  const { base, storage } = await setup();
+  await beginIdempotentRequest(storage, 'key-1', 'send_money', fingerprint);
+  await runIdempotentRequest(storage, 'key-1', async () => sent('TXN-1000'), transferIdOf);
+
+  const other = fingerprintRequest('send_money', { ...args, amount: 500 });
+  assert.deepEqual(await beginIdempotentRequest(storage, 'key-1', 'send_money', other), { status: 'conflict', toolName: 'send_money' });
+  await base.close();
+});
+
+test('a retry while the first request is still running is told to wait', async () => {
+  const { base, storage } = await setup();
+  await beginIdempotentRequest(storage, 'key-1', 'send_money', fingerprint);
+
+  const retry = await runIdempotentRequest(storage, 'key-1', async () => {
+    const outcome = await beginIdempotentRequest(storage, 'key-1', 'send_money', fingerprint);
+    return { outcome, ...sent('TXN-1000') };
+  }, transferIdOf);
+  assert.deepEqual(retry.outcome, { status: 'in_progress' });
+  await base.close();
+});
+
+test('a request that made no transfer, or threw, releases its key', async () => {
+  const { base, storage } = await setup();
+  await beginIdempotentRequest(storage, 'key-1', 'send_money', fingerprint);
+  await runIdempotentRequest(storage, 'key-1', async () => null, transferIdOf);
+  assert.deepEqual(await beginIdempotentRequest(storage, 'key-1', 'send_money', fingerprint), { status: 'new' });
+
+  await assert.rejects(runIdempotentRequest(storage, 'key-1', async () => { throw new Error('Wise is down'); }, transferIdOf), /Wise is down/);
+  assert.deepEqual(await beginIdempotentRequest(storage, 'key-1', 'send_money', fingerprint), { status: 'new' });
+  await base.close();
+});
+
+test('a reservation abandoned by a crashed request is run again under the same Wise transaction ID', async () => {
+  const { base, storage } = await setup();
+  // Left behind by a request that stopped after reserving the key
+  await storage.idempotencyKeys.insert({
+    id: 'alice:key-1',
+    created_at: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
+    key: 'key-1',
+    tool: 'send_money',
+    fingerprint,
+    status: 'in_progress',
+    transfer_id: null
+  });
+  const crashedTransactionId = customerTransactionIdFor('alice', 'key-1');
+
+  assert.deepEqual(await beginIdempotentRequest(storage, 'key-1', 'send_money', fingerprint), { status: 'new' });
+  // The re-run reaches Wise with the transaction ID the crashed request used, so Wise doesn't pay twice
+  const rerun = await runIdempotentRequest(storage, 'key-1', async () => ({
+    customerTransactionId: customerTransactionIdFor('alice', 'key-1'),
+    ...sent('TXN-1000')
+  }), transferIdOf);
+  assert.equal(rerun.customerTransactionId, crashedTransactionId);
+  assert.match(crashedTransactionId, /^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  assert.notEqual(customerTransactionIdFor('bob', 'key-1'), crashedTransactionId);
+
+  assert.deepEqual(await beginIdempotentRequest(storage, 'key-1', 'send_money', fingerprint), { status: 'replay', transferId: 'TXN-1000' });
+  await base.close();
+});
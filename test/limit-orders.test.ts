@@ -0,0 +1,180 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createStorage, type StoredRecord } from '../src/services/storage.js';
+import { LimitOrderError, LimitOrderService, type LimitOrderExecutor } from '../src/services/limit-orders.js';
+import type { ExchangeRates } from '../src/services/exchange-rates.js';
+
+// The services log every step; keep that out of the test report
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse('2026-10-15T12:00:00.000Z');
+
+const rates = (mxn: number): ExchangeRates => ({
+  base: 'USD',
+  rates: { USD: 1, MXN: mxn },
+  as_of: {},
+  sources: {},
+  timestamp: new Date(NOW).toISOString(),
+  stale_currencies: []
+});
+
+async function setup(options: { rate?: number; execute?: LimitOrderExecutor } = {}) {
+  const base = await createStorage({ sqlitePath: ':memory:' });
+  const current = { rate: options.rate ?? 17 };
+  const service = new LimitOrderService(base, {
+    execute: options.execute ?? (async () => null),
+    getRates: async () => rates(current.rate),
+    isGoodRate: async () => false
+  });
+  return { base, storage: base.forOwner('alice'), service, current };
+}
+
+function order(fields: Partial<StoredRecord>): StoredRecord {
+  return {
+    id: 'LMT-1',
+    owner_id: 'alice',
+    type: 'target',
+    status: 'open',
+    from_currency: 'USD',
+    to_currency: 'MXN',
+    amount: 100,
+    target_rate: 18,
+    deadline: new Date(NOW + 24 * HOUR).toISOString(),
+    created_at: new Date(NOW - 2 * HOUR).toISOString(),
+    ...fields
+  };
+}
+
+const transfer = (fields: Partial<StoredRecord>): StoredRecord => ({
+  id: 'TXN-1',
+  limit_order_id: 'LMT-1',
+  amount: 100,
+  exchange_rate: 18.1,
+  recipient_amount: 1810,
+  recipient_name: 'Ana',
+  status: 'processing',
+  created_at: new Date(NOW - HOUR).toISOString(),
+  ...fields
+});
+
+const stuck = { status: 'executing', executing_since: new Date(NOW - HOUR).toISOString(), attempts: 1 };
+
+test('a target order waits for its rate, then sends', async () => {
+  const sent: string[] = [];
+  const below = await setup({ rate: 17.5 });
+  await below.storage.limitOrders.insert(order({}));
+  assert.equal(await below.service.tick(NOW), 0);
+  assert.equal((await below.storage.limitOrders.get('LMT-1'))?.status, 'open');
+  await below.base.close();
+
+  const reached = await setup({
+    rate: 18.2,
+    execute: async (storage, o) => {
+      sent.push(o.id);
+      const record = transfer({});
+      await storage.transfers.insert(record);
+      return record;
+    }
+  });
+  await reached.storage.limitOrders.insert(order({}));
+  assert.equal(await reached.service.tick(NOW), 1);
+  const filled = await reached.storage.limitOrders.get('LMT-1');
+  assert.equal(filled?.status, 'filled');
+  assert.equal(filled?.transfer_id, 'TXN-1');
+  assert.deepEqual(sent, ['LMT-1']);
+  await reached.base.close();
+});
+
+test('a target order expires unsent at its deadline', async () => {
+  const { base, storage, service } = await setup({ rate: 19 });
+  await storage.limitOrders.insert(order({ deadline: new Date(NOW - 1).toISOString() }));
+  await service.tick(NOW);
+  assert.equal((await storage.limitOrders.get('LMT-1'))?.status, 'expired');
+  await base.close();
+});
+
+test('a failed attempt keeps the order open for a retry', async () => {
+  const { base, storage, service } = await setup({
+    rate: 18.2,
+    execute: async () => { throw new LimitOrderError('Over your daily limit'); }
+  });
+  await storage.limitOrders.insert(order({}));
+  await service.tick(NOW);
+
+  const retried = await storage.limitOrders.get('LMT-1');
+  assert.equal(retried?.status, 'open');
+  assert.equal(retried?.failures, 1);
+  assert.equal(retried?.last_error, 'Over your daily limit');
+  assert.ok(retried?.retry_at);
+  await base.close();
+});
+
+test('a missed quote backs off until the rate moves', async () => {
+  let quotes = 0;
+  const { base, storage, service, current } = await setup({
+    rate: 18.2,
+    execute: async () => { quotes++; return null; }
+  });
+  await storage.limitOrders.insert(order({}));
+  await service.tick(NOW);
+
+  const missed = await storage.limitOrders.get('LMT-1');
+  assert.equal(missed?.status, 'open');
+  assert.equal(missed?.quote_miss.rate, 18.2);
+  assert.equal(missed?.quote_miss.next_check_at, new Date(NOW + 5 * 60 * 1000).toISOString());
+
+  // Same rate, even after the backoff: no new quote
+  await service.tick(NOW + HOUR);
+  assert.equal(quotes, 1);
+
+  // The rate moved, but the backoff hasn't passed yet
+  current.rate = 18.3;
+  await service.tick(NOW + 60 * 1000);
+  assert.equal(quotes, 1);
+
+  await service.tick(NOW + HOUR);
+  assert.equal(quotes, 2);
+  const again = await storage.limitOrders.get('LMT-1');
+  assert.equal(again?.quote_miss.misses, 2);
+  assert.equal(again?.quote_miss.next_check_at, new Date(NOW + HOUR + 10 * 60 * 1000).toISOString());
+  await base.close();
+});
+
+test('a stuck order with a sent transfer is filled', async () => {
+  const { base, storage, service } = await setup();
+  await storage.limitOrders.insert(order(stuck));
+  await storage.transfers.insert(transfer({}));
+  await service.tick(NOW);
+
+  const recovered = await storage.limitOrders.get('LMT-1');
+  assert.equal(recovered?.status, 'filled');
+  assert.equal(recovered?.transfer_id, 'TXN-1');
+  await base.close();
+});
+
+test('a stuck order whose transfer was rejected counts a failure instead of filling', async () => {
+  const { base, storage, service } = await setup();
+  await storage.limitOrders.insert(order(stuck));
+  await storage.transfers.insert(transfer({ status: 'failed', failure_reason: 'Invalid account', created_at: new Date(NOW - HOUR / 2).toISOString() }));
+  await service.tick(NOW);
+
+  const recovered = await storage.limitOrders.get('LMT-1');
+  assert.equal(recovered?.status, 'open');
+  assert.equal(recovered?.failures, 1);
+  assert.match(recovered?.last_error, /Invalid account/);
+  await base.close();
+});
+
+test('a stuck order with only an earlier rejected attempt is reopened', async () => {
+  const { base, storage, service } = await setup();
+  await storage.limitOrders.insert(order({ ...stuck, failures: 1 }));
+  await storage.transfers.insert(transfer({ status: 'failed', failure_reason: 'Invalid account', created_at: new Date(NOW - 2 * HOUR).toISOString() }));
+  await service.tick(NOW);
+
+  const recovered = await storage.limitOrders.get('LMT-1');
+  assert.equal(recovered?.status, 'open');
+  assert.equal(recovered?.failures, 1);
+  await base.close();
+});
@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Storage, StoredRecord } from '../src/services/storage.js';
+import { checkTransferLimits, getLimitUsage, serializeForOwner, type TransferLimits } from '../src/services/limits.js';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const NOW = Date.parse('2026-10-15T12:00:00.000Z');
+const LIMITS: TransferLimits = { perTransaction: 1000, daily: 2000, monthlyLimit: 5000 };
+
+// Only what the limits read: transfers created since a given time
+function storageWith(transfers: Partial<StoredRecord>[]): Storage {
+  return {
+    transfers: {
+      listSince: async (since: string) => transfers.filter(t => t.created_at! >= since)
+    }
+  } as unknown as Storage;
+}
+
+const sentAgo = (ms: number, amount: number, extra: Partial<StoredRecord> = {}) =>
+  ({ id: `TXN-${ms}`, amount, status: 'completed', created_at: new Date(NOW - ms).toISOString(), ...extra });
+
+test('usage counts transfers in each rolling window', async () => {
+  const usage = await getLimitUsage(storageWith([
+    sentAgo(2 * HOUR, 300),
+    sentAgo(30 * HOUR, 400),
+    sentAgo(40 * DAY, 900)
+  ]), LIMITS, NOW);
+
+  assert.equal(usage.daily.used, 300);
+  assert.equal(usage.daily.remaining, 1700);
+  assert.equal(usage.daily.transfer_count, 1);
+  assert.equal(usage.monthly.used, 700);
+  assert.equal(usage.monthly.transfer_count, 2);
+});
+
+test('headroom is released when the oldest transfer leaves the window', async () => {
+  const usage = await getLimitUsage(storageWith([sentAgo(2 * HOUR, 300), sentAgo(5 * HOUR, 100)]), LIMITS, NOW);
+  assert.equal(usage.daily.next_release_at, new Date(NOW - 5 * HOUR + DAY).toISOString());
+
+  const empty = await getLimitUsage(storageWith([]), LIMITS, NOW);
+  assert.equal(empty.daily.next_release_at, null);
+});
+
+test('transfers that never moved money do not count', async () => {
+  const usage = await getLimitUsage(storageWith([
+    sentAgo(HOUR, 500, { status: 'failed' }),
+    sentAgo(HOUR, 500, { status: 'cancelled' }),
+    sentAgo(HOUR, 500, { status: 'refunded' }),
+    sentAgo(HOUR, 100, { status: 'processing' })
+  ]), LIMITS, NOW);
+  assert.equal(usage.daily.used, 100);
+});
+
+test('transfers from other currencies count in USD', async () => {
+  const usage = await getLimitUsage(storageWith([sentAgo(HOUR, 1700, { amount_usd: 100 })]), LIMITS, NOW);
+  assert.equal(usage.daily.used, 100);
+});
+
+test('checkTransferLimits reports the first limit broken and what is still available', async () => {
+  // Checked against the current time
+  const storage = storageWith([{ id: 'TXN-1', amount: 1500, status: 'completed', created_at: new Date().toISOString() }]);
+
+  const perTransaction = await checkTransferLimits(storage, LIMITS, 1200);
+  assert.equal(perTransaction?.limit, 'per_transaction');
+  assert.equal(perTransaction?.available, 500);
+
+  const daily = await checkTransferLimits(storage, LIMITS, 600);
+  assert.equal(daily?.limit, 'daily');
+  assert.equal(daily?.max, 2000);
+
+  assert.equal(await checkTransferLimits(storage, LIMITS, 500), null);
+});
+
+test('serializeForOwner runs one owner at a time but owners in parallel', async () => {
+  const order: string[] = [];
+  const step = (name: string, ms: number) => async () => {
+    order.push(`${name} start`);
+    await new Promise(resolve => setTimeout(resolve, ms));
+    order.push(`${name} end`);
+  };
+
+  await Promise.all([
+    serializeForOwner('alice', step('a1', 20)),
+    serializeForOwner('alice', step('a2', 0)),
+    serializeForOwner('bob', step('b1', 5))
+  ]);
+
+  assert.ok(order.indexOf('a1 end') < order.indexOf('a2 start'));
+  assert.ok(order.indexOf('b1 start') < order.indexOf('a1 end'));
+});
+
+test('a failed call does not block the next one', async () => {
+  await assert.rejects(serializeForOwner('carol', async () => { throw new Error('boom'); }));
+  assert.equal(await serializeForOwner('carol', async () => 'ok'), 'ok');
+});
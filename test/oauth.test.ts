@@ -0,0 +1,85 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { Readable } from 'node:stream';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { OAuthService } from '../src/services/oauth.js';
+import { initializeStorage } from '../src/services/storage.js';
+
+// The services log every step; keep that out of the test report
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+
+const REDIRECT_URI = 'http://localhost:3000/callback';
+const VERIFIER = 'a-code-verifier-long-enough-for-pkce-0123456789';
+
+function request(service: OAuthService, method: string, path: string, body: Record<string, string> | string[] = {}) {
+  const json = Array.isArray(body);
+  const payload = json ? JSON.stringify({ redirect_uris: body, token_endpoint_auth_method: 'none' }) : new URLSearchParams(body).toString();
+  const req = Object.assign(Readable.from([Buffer.from(payload)]), {
+    method,
+    headers: { host: 'localhost:8000', 'content-type': json ? 'application/json' : 'application/x-www-form-urlencoded' }
+  }) as unknown as IncomingMessage;
+  const response = { status: 0, headers: {} as Record<string, string>, body: {} as Record<string, any> };
+  const res = {
+    writeHead(status: number, headers: Record<string, string> = {}) {
+      response.status = status;
+      response.headers = headers;
+      return this;
+    },
+    end(data?: string) {
+      response.body = data?.startsWith('{') ? JSON.parse(data) : {};
+    }
+  } as unknown as ServerResponse;
+  return service.handleRequest(req, res, new URL(path, 'http://localhost:8000')).then(() => response);
+}
+
+async function signIn(service: OAuthService) {
+  const client = await request(service, 'POST', '/oauth/register', [REDIRECT_URI]);
+  const authorized = await request(service, 'POST', '/oauth/authorize', {
+    client_id: client.body.client_id,
+    redirect_uri: REDIRECT_URI,
+    response_type: 'code',
+    code_challenge: createHash('sha256').update(VERIFIER).digest('base64url'),
+    code_challenge_method: 'S256',
+    user_id: 'alice'
+  });
+  const code = new URL(authorized.headers.Location).searchParams.get('code')!;
+  const tokens = await request(service, 'POST', '/oauth/token', {
+    grant_type: 'authorization_code',
+    client_id: client.body.client_id,
+    code,
+    redirect_uri: REDIRECT_URI,
+    code_verifier: VERIFIER
+  });
+  return { clientId: client.body.client_id as string, tokens: tokens.body };
+}
+
+test('each refresh token works once and is replaced by a new one', async () => {
+  const storage = await initializeStorage({ sqlitePath: ':memory:' });
+  const service = new OAuthService({ localAuthorizationServer: true });
+  const { clientId, tokens } = await signIn(service);
+  const refresh = (token: string) => request(service, 'POST', '/oauth/token', { grant_type: 'refresh_token', client_id: clientId, refresh_token: token });
+
+  const refreshed = await refresh(tokens.refresh_token);
+  assert.equal(refreshed.status, 200);
+  assert.ok(refreshed.body.access_token);
+  assert.notEqual(refreshed.body.refresh_token, tokens.refresh_token);
+
+  const replayed = await refresh(tokens.refresh_token);
+  assert.equal(replayed.status, 400);
+  assert.equal(replayed.body.error, 'invalid_grant');
+
+  assert.equal((await refresh(refreshed.body.refresh_token)).status, 200);
+  await storage.close();
+});
+
+test('refresh tokens that have expired are cleared out when new ones are issued', async () => {
+  const storage = await initializeStorage({ sqlitePath: ':memory:' });
+  await storage.oauthRefreshTokens.insert({ id: 'old', created_at: '2020-01-01T00:00:00.000Z', client_id: 'client', subject: 'alice' });
+
+  await signIn(new OAuthService({ localAuthorizationServer: true }));
+  assert.equal(await storage.oauthRefreshTokens.get('old'), null);
+  assert.equal(await storage.oauthRefreshTokens.count(), 1);
+  await storage.close();
+});
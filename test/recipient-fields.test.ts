@@ -0,0 +1,56 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RecipientRequirementsService, type RequirementsFetcher } from '../src/services/recipient-fields.js';
+
+// A CLABE account whose form grows a state field once the country is known
+const wiseResponse = (withState: boolean) => [{
+  type: 'mexican',
+  title: 'CLABE',
+  fields: [
+    { name: 'CLABE', group: [{ key: 'clabe', type: 'text', required: true }] },
+    { name: 'Country', group: [{ key: 'address.country', type: 'select', required: true, refreshRequirementsOnChange: true }] },
+    ...(withState ? [{ name: 'State', group: [{ key: 'address.state', type: 'text', required: true }] }] : [])
+  ]
+}];
+
+function countingFetcher() {
+  const calls: { amount: number; recipient?: { type: string; details: Record<string, any> } }[] = [];
+  const fetcher: RequirementsFetcher = async (_source, _currency, amount, recipient) => {
+    calls.push({ amount, recipient });
+    return wiseResponse(Boolean(recipient));
+  };
+  return { calls, fetcher };
+}
+
+test('requirements are shared across amounts of the same size and across bank details', async () => {
+  const { calls, fetcher } = countingFetcher();
+  const service = new RecipientRequirementsService(fetcher);
+
+  const first = await service.getRequirements('MXN', 'MX', 120, { clabe: '032180000118359719', country: 'MX' });
+  assert.deepEqual(first?.fields.map(f => f.name), ['clabe', 'address.country', 'address.state']);
+  assert.equal(calls.length, 2);
+  // Only the refresh-triggering field goes back to Wise
+  assert.equal(calls[1].recipient?.details.clabe, undefined);
+
+  await service.getRequirements('MXN', 'MX', 450, { clabe: '002010077777777771', country: 'MX' });
+  assert.equal(calls.length, 2);
+
+  await service.getRequirements('MXN', 'MX', 4500, { country: 'MX' });
+  assert.equal(calls.length, 4);
+});
+
+test('the cache keeps only the most recently used entries', async () => {
+  const { calls, fetcher } = countingFetcher();
+  const service = new RecipientRequirementsService(fetcher, 60_000, 2);
+
+  await service.getRequirements('MXN', 'MX', 10);
+  await service.getRequirements('MXN', 'MX', 100);
+  await service.getRequirements('MXN', 'MX', 10);
+  await service.getRequirements('MXN', 'MX', 1000);
+  assert.equal(calls.length, 3);
+
+  // 100 was the least recently used, so it went when 1000 came in
+  await service.getRequirements('MXN', 'MX', 10);
+  await service.getRequirements('MXN', 'MX', 100);
+  assert.deepEqual(calls.map(c => c.amount), [10, 100, 1000, 100]);
+});
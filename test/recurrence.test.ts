@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  RecurrenceError,
+  describeRecurrence,
+  nextOccurrence,
+  occurrencesAfter,
+  parseLocalDate,
+  parseRRule,
+  patternRule,
+  toRRule
+} from '../src/services/recurrence.js';
+
+test('monthly on the 31st clamps to the last day of shorter months', () => {
+  const rule = patternRule('monthly', '2026-01-31T14:00:00.000Z', 'UTC');
+  assert.deepEqual(occurrencesAfter(rule, null, 4), [
+    '2026-01-31T14:00:00.000Z',
+    '2026-02-28T14:00:00.000Z',
+    '2026-03-31T14:00:00.000Z',
+    '2026-04-30T14:00:00.000Z'
+  ]);
+});
+
+test('occurrences keep their local time across DST changes', () => {
+  const start = parseLocalDate('2026-03-02', 'America/New_York')!;
+  const rule = patternRule('weekly', start, 'America/New_York');
+  // Clocks go forward on March 8th: 9:00 EST is 14:00 UTC, 9:00 EDT is 13:00 UTC
+  assert.deepEqual(occurrencesAfter(rule, null, 2), ['2026-03-02T14:00:00.000Z', '2026-03-09T13:00:00.000Z']);
+});
+
+test('1st-and-15th starts on the next matching day', () => {
+  const rule = patternRule('1st-and-15th', '2026-10-18T09:00:00.000Z', 'UTC');
+  assert.equal(rule.start, '2026-11-01T09:00:00.000Z');
+  assert.equal(nextOccurrence(rule, rule.start), '2026-11-15T09:00:00.000Z');
+});
+
+test('last-business-day skips weekends', () => {
+  const rule = patternRule('last-business-day', '2026-01-01T09:00:00.000Z', 'UTC');
+  // January 31st 2026 is a Saturday, May 31st a Sunday
+  assert.deepEqual(occurrencesAfter(rule, null, 5).map(date => date.slice(0, 10)),
+    ['2026-01-30', '2026-02-27', '2026-03-31', '2026-04-30', '2026-05-29']);
+});
+
+test('payday-friday is every other Friday from the first Friday after the start', () => {
+  const rule = patternRule('payday-friday', '2026-10-13T09:00:00.000Z', 'UTC');
+  assert.deepEqual(occurrencesAfter(rule, null, 3).map(date => date.slice(0, 10)),
+    ['2026-10-16', '2026-10-30', '2026-11-13']);
+});
+
+test('nextOccurrence stops at the end date', () => {
+  const rule = patternRule('weekly', '2026-10-05T09:00:00.000Z', 'UTC');
+  assert.equal(nextOccurrence(rule, '2026-10-05T09:00:00.000Z', '2026-10-12T09:00:00.000Z'), '2026-10-12T09:00:00.000Z');
+  assert.equal(nextOccurrence(rule, '2026-10-12T09:00:00.000Z', '2026-10-18T00:00:00.000Z'), null);
+});
+
+test('parseRRule reads rules, COUNT and UNTIL', () => {
+  const { rule, count, until } = parseRRule('RRULE:FREQ=MONTHLY;BYMONTHDAY=1,15;COUNT=12;UNTIL=20271231', '2026-10-02T09:00:00.000Z', 'UTC');
+  assert.equal(rule.frequency, 'monthly');
+  assert.deepEqual(rule.by_month_day, [1, 15]);
+  assert.equal(rule.start, '2026-10-15T09:00:00.000Z');
+  assert.equal(count, 12);
+  assert.equal(until, '2027-12-31T23:59:59.000Z');
+  assert.equal(toRRule(rule), 'FREQ=MONTHLY;BYMONTHDAY=1,15');
+});
+
+test('parseRRule rejects what it does not support', () => {
+  const start = '2026-10-01T09:00:00.000Z';
+  assert.throws(() => parseRRule('FREQ=HOURLY', start, 'UTC'), RecurrenceError);
+  assert.throws(() => parseRRule('FREQ=WEEKLY;BYHOUR=9', start, 'UTC'), /Unsupported RRULE parts: BYHOUR/);
+  assert.throws(() => parseRRule('FREQ=MONTHLY;BYDAY=-1FR', start, 'UTC'), /BYSETPOS/);
+  assert.throws(() => parseRRule('FREQ=MONTHLY;BYMONTHDAY=32', start, 'UTC'), RecurrenceError);
+  assert.throws(() => parseRRule('FREQ=DAILY;INTERVAL=0', start, 'UTC'), RecurrenceError);
+});
+
+test('describeRecurrence summarises rules in plain English', () => {
+  const start = '2026-10-20T09:00:00.000Z'; // a Tuesday
+  const describe = (rrule: string) => describeRecurrence(parseRRule(rrule, start, 'UTC').rule);
+
+  assert.equal(describe('FREQ=WEEKLY;BYDAY=MO,FR'), 'Every week on Monday and Friday');
+  assert.equal(describe('FREQ=WEEKLY;INTERVAL=2'), 'Every 2 weeks on Tuesday');
+  assert.equal(describe('FREQ=MONTHLY;BYMONTHDAY=1,31'), 'Monthly on the 1st and 31st (or the last day of shorter months)');
+  assert.equal(describe('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1'), 'Last business day of every month');
+  assert.equal(describe('FREQ=DAILY'), 'Every day');
+});
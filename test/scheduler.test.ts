@@ -0,0 +1,97 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createStorage, type Storage, type StoredRecord } from '../src/services/storage.js';
+import { SchedulerService, scheduleRunId, type ScheduleExecutor } from '../src/services/scheduler.js';
+
+// The services log every step; keep that out of the test report
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+
+const MINUTE = 60 * 1000;
+const WEEK = 7 * 24 * 60 * MINUTE;
+const DUE = '2026-10-15T09:00:00.000Z';
+const NOW = Date.parse(DUE) + MINUTE;
+
+const scheduler = (storage: Storage, execute: ScheduleExecutor) => new SchedulerService(storage, {
+  execute,
+  nextExecution: (_schedule, after) => new Date(Date.parse(after) + WEEK).toISOString()
+});
+
+const schedule = (): StoredRecord => ({
+  id: 'SCH-1',
+  created_at: '2026-10-01T09:00:00.000Z',
+  status: 'active',
+  recipient_name: 'Ana',
+  amount: 100,
+  next_execution: DUE
+});
+
+// An executor that stores its transfer (or not) and then never returns, like a worker that died
+function crashingExecutor(storesTransfer: boolean) {
+  let crashed!: () => void;
+  const reached = new Promise<void>(resolve => { crashed = resolve; });
+  const execute: ScheduleExecutor = async (storage, _schedule, runId) => {
+    if (storesTransfer) {
+      await storage.transfers.insert({ id: 'TXN-1', created_at: new Date(NOW).toISOString(), amount: 100, status: 'processing', schedule_run_id: runId });
+    }
+    crashed();
+    return new Promise<StoredRecord>(() => {});
+  };
+  return { execute, reached };
+}
+
+test('a run whose worker crashed after sending is finished from its transfer, not sent again', async () => {
+  const base = await createStorage({ sqlitePath: ':memory:' });
+  const storage = base.forOwner('alice');
+  await storage.scheduledTransfers.insert(schedule());
+
+  const crash = crashingExecutor(true);
+  void scheduler(base, crash.execute).tick(NOW);
+  await crash.reached;
+
+  const runId = scheduleRunId('SCH-1', DUE);
+  assert.equal((await storage.scheduleRuns.get(runId))?.status, 'running');
+  assert.equal((await storage.scheduledTransfers.get('SCH-1'))?.next_execution, DUE);
+
+  // After a restart, once the claim has timed out
+  let sent = 0;
+  await scheduler(base, async () => { sent++; throw new Error('should not send'); }).tick(NOW + 11 * MINUTE);
+
+  assert.equal(sent, 0);
+  assert.equal((await storage.transfers.list()).length, 1);
+  const run = await storage.scheduleRuns.get(runId);
+  assert.equal(run?.status, 'completed');
+  assert.equal(run?.transfer_id, 'TXN-1');
+  assert.equal(run?.recovered, true);
+
+  const recovered = await storage.scheduledTransfers.get('SCH-1');
+  assert.equal(recovered?.execution_count, 1);
+  assert.equal(recovered?.last_transfer_id, 'TXN-1');
+  assert.equal(recovered?.next_execution, new Date(Date.parse(DUE) + WEEK).toISOString());
+  await base.close();
+});
+
+test('a run whose worker crashed before sending is retried', async () => {
+  const base = await createStorage({ sqlitePath: ':memory:' });
+  const storage = base.forOwner('alice');
+  await storage.scheduledTransfers.insert(schedule());
+
+  const crash = crashingExecutor(false);
+  void scheduler(base, crash.execute).tick(NOW);
+  await crash.reached;
+
+  // Still claimed by the crashed worker
+  assert.equal(await scheduler(base, async () => { throw new Error('should wait'); }).tick(NOW + 5 * MINUTE), 0);
+
+  await scheduler(base, async (storage, _schedule, runId) => {
+    const transfer = { id: 'TXN-2', created_at: new Date(NOW).toISOString(), amount: 100, status: 'processing', schedule_run_id: runId };
+    await storage.transfers.insert(transfer);
+    return transfer;
+  }).tick(NOW + 11 * MINUTE);
+
+  const run = await storage.scheduleRuns.get(scheduleRunId('SCH-1', DUE));
+  assert.equal(run?.status, 'completed');
+  assert.equal(run?.attempts, 2);
+  assert.equal((await storage.scheduledTransfers.get('SCH-1'))?.last_transfer_id, 'TXN-2');
+  await base.close();
+});
@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createStorage, type StoredRecord } from '../src/services/storage.js';
+import {
+  canCancelTransfer,
+  describeWiseState,
+  mapWiseState,
+  recordStatusEvent,
+  refundForCancellation,
+  statusHistory,
+  updateTransferStatus,
+  type StatusEvent
+} from '../src/services/transfer-status.js';
+
+const wise = (wise_state: string, at: string): StatusEvent =>
+  ({ status: mapWiseState(wise_state), wise_state, at, source: 'wise' });
+
+function realTransfer(): StoredRecord {
+  return {
+    id: 'TXN-1',
+    amount: 100,
+    from_currency: 'USD',
+    status: 'pending',
+    wise_state: 'incoming_payment_waiting',
+    is_real_transfer: true,
+    created_at: '2026-10-01T10:00:00.000Z'
+  };
+}
+
+test('Wise states map onto our statuses', () => {
+  assert.equal(mapWiseState('incoming_payment_waiting'), 'pending');
+  assert.equal(mapWiseState('funds_converted'), 'processing');
+  assert.equal(mapWiseState('outgoing_payment_sent'), 'completed');
+  assert.equal(mapWiseState('bounced_back'), 'failed');
+  assert.equal(mapWiseState('charged_back'), 'refunded');
+  // Unknown states are still in progress
+  assert.equal(mapWiseState('something_new'), 'processing');
+  assert.equal(describeWiseState('something_new'), 'something new');
+});
+
+test('a transfer without history starts from its current status', () => {
+  assert.deepEqual(statusHistory(realTransfer()), [
+    { status: 'pending', wise_state: 'incoming_payment_waiting', at: '2026-10-01T10:00:00.000Z', source: 'wise' }
+  ]);
+});
+
+test('events are kept in time order and the latest sets the status', () => {
+  const transfer = realTransfer();
+  assert.ok(recordStatusEvent(transfer, wise('outgoing_payment_sent', '2026-10-01T12:00:00.000Z')));
+  // Arrives late, but happened before the payment was sent
+  assert.ok(recordStatusEvent(transfer, wise('funds_converted', '2026-10-01T11:00:00.000Z'), { rate_locked: true }));
+
+  assert.deepEqual(statusHistory(transfer).map(e => e.wise_state),
+    ['incoming_payment_waiting', 'funds_converted', 'outgoing_payment_sent']);
+  assert.equal(transfer.status, 'completed');
+  assert.equal(transfer.wise_state, 'outgoing_payment_sent');
+  assert.equal(transfer.status_updated_at, '2026-10-01T12:00:00.000Z');
+  assert.equal(transfer.rate_locked, true);
+});
+
+test('a repeated state only ever moves earlier', () => {
+  const transfer = realTransfer();
+  recordStatusEvent(transfer, wise('processing', '2026-10-01T11:00:00.000Z'));
+
+  assert.equal(recordStatusEvent(transfer, wise('processing', '2026-10-01T11:30:00.000Z')), false);
+  assert.ok(recordStatusEvent(transfer, wise('processing', '2026-10-01T10:30:00.000Z')));
+  assert.deepEqual(statusHistory(transfer).filter(e => e.wise_state === 'processing').map(e => e.at),
+    ['2026-10-01T10:30:00.000Z']);
+});
+
+test('later events are kept but do not move a transfer out of a final status', () => {
+  const transfer = realTransfer();
+  recordStatusEvent(transfer, wise('charged_back', '2026-10-01T12:00:00.000Z'));
+  assert.ok(recordStatusEvent(transfer, wise('outgoing_payment_sent', '2026-10-01T13:00:00.000Z')));
+
+  assert.deepEqual(statusHistory(transfer).map(e => e.wise_state),
+    ['incoming_payment_waiting', 'charged_back', 'outgoing_payment_sent']);
+  assert.equal(transfer.status, 'refunded');
+  assert.equal(transfer.wise_state, 'charged_back');
+  assert.equal(transfer.status_updated_at, '2026-10-01T12:00:00.000Z');
+});
+
+test('a cancelled transfer stays cancelled when Wise reports it processing afterwards', async () => {
+  const storage = await createStorage({ sqlitePath: ':memory:' });
+  await storage.transfers.insert(realTransfer());
+
+  // As cancel_transfer records it
+  await updateTransferStatus(storage, 'TXN-1', wise('cancelled', '2026-10-01T11:00:00.000Z'), { cancelled_at: '2026-10-01T11:00:00.000Z' });
+  const { transfer, changed } = await updateTransferStatus(storage, 'TXN-1', wise('processing', '2026-10-01T11:05:00.000Z'));
+
+  assert.ok(changed);
+  assert.equal(transfer?.status, 'cancelled');
+  assert.equal((await storage.transfers.get('TXN-1'))?.status, 'cancelled');
+  assert.deepEqual(statusHistory(transfer!).map(e => e.wise_state), ['incoming_payment_waiting', 'cancelled', 'processing']);
+  await storage.close();
+});
+
+test('only pending transfers can be cancelled', () => {
+  assert.ok(canCancelTransfer(realTransfer()));
+  assert.equal(canCancelTransfer({ ...realTransfer(), status: 'processing' }), false);
+});
+
+test('cancelling before Wise has the funds needs no refund', () => {
+  assert.equal(refundForCancellation(realTransfer()).required, false);
+
+  const funded = refundForCancellation({ ...realTransfer(), wise_state: 'processing' });
+  assert.equal(funded.required, true);
+  assert.equal(funded.amount, 100);
+
+  const simulated = refundForCancellation({ ...realTransfer(), is_real_transfer: false, from_currency: 'EUR' });
+  assert.equal(simulated.currency, 'EUR');
+  assert.equal(simulated.eta, 'immediately');
+});
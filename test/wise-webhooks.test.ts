@@ -0,0 +1,122 @@
+import { mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, sign } from 'node:crypto';
+import { Readable } from 'node:stream';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { WiseWebhookService, verifyWiseSignature } from '../src/services/wise-webhooks.js';
+import { MIGRATIONS } from '../src/services/migrations.js';
+import { Storage, initializeStorage } from '../src/services/storage.js';
+import { SqliteDriver } from '../src/services/sqlite-driver.js';
+
+// The services log every step; keep that out of the test report
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const publicKeyPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+const body = Buffer.from(JSON.stringify({
+  event_type: 'transfers#state-change',
+  data: { resource: { id: 5000, type: 'transfer' }, current_state: 'outgoing_payment_sent' }
+}));
+const signatureOf = (payload: Buffer) => sign('sha256', payload, privateKey).toString('base64');
+
+function deliver(service: WiseWebhookService, payload: Buffer, headers: Record<string, string>) {
+  const req = Object.assign(Readable.from([payload]), { headers }) as unknown as IncomingMessage;
+  const response = { status: 0, body: {} as Record<string, any> };
+  const res = {
+    writeHead(status: number) {
+      response.status = status;
+      return this;
+    },
+    end(data: string) {
+      response.body = JSON.parse(data);
+    }
+  } as unknown as ServerResponse;
+  return service.handle(req, res).then(() => response);
+}
+
+test('a signature over the exact body verifies', () => {
+  assert.ok(verifyWiseSignature(body, signatureOf(body), publicKey));
+});
+
+test('a tampered body, wrong key or missing signature does not verify', () => {
+  const tampered = Buffer.from(body.toString().replace('outgoing_payment_sent', 'funds_refunded'));
+  const otherKey = generateKeyPairSync('rsa', { modulusLength: 2048 }).publicKey;
+
+  assert.equal(verifyWiseSignature(tampered, signatureOf(body), publicKey), false);
+  assert.equal(verifyWiseSignature(body, signatureOf(body), otherKey), false);
+  assert.equal(verifyWiseSignature(body, undefined, publicKey), false);
+  assert.equal(verifyWiseSignature(body, 'not base64 at all!', publicKey), false);
+});
+
+test('badly signed deliveries are rejected with 401', async () => {
+  const service = new WiseWebhookService({ publicKey: publicKeyPem });
+  const response = await deliver(service, body, { 'x-signature-sha256': signatureOf(Buffer.from('something else')) });
+  assert.equal(response.status, 401);
+  assert.equal(response.body.error, 'Invalid signature');
+});
+
+test('signed test notifications are acknowledged, with the key read from an escaped env value', async () => {
+  const service = new WiseWebhookService({ publicKey: publicKeyPem.replace(/\n/g, '\\n') });
+  const response = await deliver(service, body, { 'x-signature-sha256': signatureOf(body), 'x-test-notification': 'true' });
+  assert.equal(response.status, 200);
+  assert.deepEqual(response.body, { received: true, test: true });
+});
+
+function stateChange(wiseTransferId: number, state: string, occurredAt: string) {
+  return Buffer.from(JSON.stringify({
+    event_type: 'transfers#state-change',
+    data: { resource: { id: wiseTransferId, type: 'transfer' }, current_state: state, occurred_at: occurredAt }
+  }));
+}
+
+test('state changes reach the transfer through its Wise ID', async () => {
+  const storage = await initializeStorage({ sqlitePath: ':memory:' });
+  const alice = storage.forOwner('alice');
+  await alice.transfers.insert({ id: 'TXN-1000', created_at: '2026-10-01T10:00:00.000Z', status: 'pending', wise_transfer_id: 5000, is_real_transfer: true });
+  await alice.wiseTransfers.insert({ id: '5000', created_at: '2026-10-01T10:00:00.000Z', transfer_id: 'TXN-1000' });
+
+  const service = new WiseWebhookService({ publicKey: publicKeyPem });
+  const payload = stateChange(5000, 'outgoing_payment_sent', '2026-10-01T12:00:00.000Z');
+  const response = await deliver(service, payload, { 'x-signature-sha256': signatureOf(payload), 'x-delivery-id': 'd-1' });
+
+  assert.equal(response.status, 200);
+  assert.equal(response.body.transfer_id, 'TXN-1000');
+  assert.equal((await alice.transfers.get('TXN-1000'))?.status, 'completed');
+  await storage.close();
+});
+
+test('unknown Wise transfers are retried at first, then acknowledged as unmatched', async () => {
+  const storage = await initializeStorage({ sqlitePath: ':memory:' });
+  const service = new WiseWebhookService({ publicKey: publicKeyPem });
+
+  const recent = stateChange(7000, 'processing', new Date().toISOString());
+  const retried = await deliver(service, recent, { 'x-signature-sha256': signatureOf(recent), 'x-delivery-id': 'd-1' });
+  assert.equal(retried.status, 404);
+  assert.equal(await storage.webhookEvents.get('d-1'), null);
+
+  const old = stateChange(7000, 'processing', new Date(Date.now() - 60 * 60 * 1000).toISOString());
+  const acknowledged = await deliver(service, old, { 'x-signature-sha256': signatureOf(old), 'x-delivery-id': 'd-2' });
+  assert.equal(acknowledged.status, 200);
+  assert.equal(acknowledged.body.matched, false);
+  assert.equal((await storage.webhookEvents.get('d-2'))?.result.matched, false);
+  await storage.close();
+});
+
+test('the backfill migration links transfers made before the lookup table', async () => {
+  const driver = new SqliteDriver(':memory:');
+  const storage = new Storage(driver);
+  await storage.migrate();
+  const alice = storage.forOwner('alice');
+  await alice.transfers.insert({ id: 'TXN-1000', created_at: '2026-10-01T10:00:00.000Z', wise_transfer_id: 5000 });
+  await alice.transfers.insert({ id: 'TXN-1001', created_at: '2026-10-01T11:00:00.000Z' });
+
+  // Run again as it would against a database that had these transfers before it
+  const backfill = MIGRATIONS.find(m => m.name === 'backfill_wise_transfers')!;
+  await backfill.run!(driver);
+
+  assert.equal((await storage.wiseTransfers.get('5000'))?.transfer_id, 'TXN-1000');
+  assert.equal((await storage.wiseTransfers.list()).length, 1);
+  await storage.close();
+});